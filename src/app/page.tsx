@@ -1,9 +1,12 @@
 import Dashboard from '@/components/Dashboard';
+import { parseViewLink } from '@/lib/deep-link';
 
-export default function Home() {
+export default async function Home({ searchParams }: { searchParams: Promise<Record<string, string | string[] | undefined>> }) {
+  // A shared link (selected khasras, map view, CRS...) is restored once matching data is loaded
+  const linkedView = parseViewLink(await searchParams);
   return (
     <main className="min-h-screen bg-black">
-      <Dashboard />
+      <Dashboard linkedView={linkedView} />
     </main>
   );
 }
@@ -0,0 +1,216 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Crosshair, Eye, EyeOff, Focus, HardDrive, Image as ImageIcon, Plus, X } from 'lucide-react';
+import { PIPELINE_STAGES, PipelineOptions, PipelineProgress, isCancelled, rasterInWorker, scanInWorker } from '@/lib/pipeline';
+import { sourceCRSOptions } from '@/lib/projection';
+import { RASTER_EXTENSIONS, RasterOverlay, ScanImage, rasterImageUrl } from '@/lib/raster';
+import { TileCacheStats, clearTileCache, tileCacheStats } from '@/lib/tile-cache';
+
+interface BaseMapPanelProps {
+    rasters: RasterOverlay[];
+    onAdd: (raster: Pick<RasterOverlay, 'name' | 'url' | 'bounds'>) => void;
+    onGeoreference: (image: ScanImage, url: string) => void; // A scan without placement, to be placed by hand
+    onChange: (id: string, patch: Partial<RasterOverlay>) => void;
+    onZoom: (raster: RasterOverlay) => void;
+    onRemove: (id: string) => void;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Scanned mussavi sheets and GeoTIFFs shown under the khasras, and the offline cache of viewed base-map tiles.
+ */
+export default function BaseMapPanel({ rasters, onAdd, onGeoreference, onChange, onZoom, onRemove }: BaseMapPanelProps) {
+    const [fallbackId, setFallbackId] = useState('');
+    const [progress, setProgress] = useState<PipelineProgress | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [cache, setCache] = useState<TileCacheStats | null>(null);
+    const controller = useRef<AbortController | null>(null);
+    const fileInput = useRef<HTMLInputElement>(null);
+    const scanInput = useRef<HTMLInputElement>(null);
+
+    const refreshCache = () => {
+        tileCacheStats().then(setCache).catch(e => console.error('Could not read the tile cache:', e));
+    };
+    useEffect(refreshCache, []);
+
+    const crsOptions = sourceCRSOptions();
+
+    const runLoad = async (work: (pipeline: PipelineOptions) => Promise<void>) => {
+        controller.current?.abort();
+        controller.current = new AbortController();
+        setIsLoading(true);
+        setProgress(null);
+        setError(null);
+        try {
+            await work({ onProgress: setProgress, signal: controller.current.signal });
+        } catch (e) {
+            if (isCancelled(e)) return;
+            console.error('Scan loading error:', e);
+            setError(e instanceof Error ? e.message : 'Could not read the scan.');
+        }
+        setIsLoading(false);
+    };
+
+    const loadScan = (files: File[]) => runLoad(async (pipeline) => {
+        const fallback = crsOptions.find(o => o.id === fallbackId) ?? null;
+        const warped = await rasterInWorker(files, fallback, pipeline);
+        onAdd({ name: warped.name, url: await rasterImageUrl(warped), bounds: warped.bounds });
+    });
+
+    const loadForGeoreferencing = (file: File) => runLoad(async (pipeline) => {
+        const image = await scanInWorker(file, pipeline);
+        onGeoreference(image, await rasterImageUrl(image));
+    });
+
+    const cancel = () => {
+        controller.current?.abort();
+        setIsLoading(false);
+    };
+
+    const handleClearCache = () => {
+        if (!window.confirm('Remove all base-map tiles saved for offline use?')) return;
+        clearTileCache().then(refreshCache).catch(e => console.error('Could not clear the tile cache:', e));
+    };
+
+    return (
+        <div className="p-4 rounded-xl bg-slate-800/30 border border-slate-700/50 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                    <ImageIcon className="w-4 h-4" /> Base Maps
+                </h3>
+                <span className="flex items-center">
+                    <button
+                        onClick={() => scanInput.current?.click()}
+                        disabled={isLoading}
+                        className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-white disabled:opacity-40"
+                        title="Place a paper mussavi scan with control points"
+                    >
+                        <Crosshair className="w-3 h-3" /> Georeference
+                    </button>
+                    <button
+                        onClick={() => fileInput.current?.click()}
+                        disabled={isLoading}
+                        className="flex items-center gap-1 px-2 py-1 rounded text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-white disabled:opacity-40"
+                        title="A GeoTIFF, or a scanned sheet (.png, .jpg, .tif) with its world file and .prj"
+                    >
+                        <Plus className="w-3 h-3" /> Add Scan
+                    </button>
+                </span>
+                <input
+                    ref={scanInput}
+                    type="file"
+                    accept=".png,.jpg,.jpeg,.tif,.tiff"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) loadForGeoreferencing(file);
+                        e.target.value = '';
+                    }}
+                />
+                <input
+                    ref={fileInput}
+                    type="file"
+                    multiple
+                    accept={RASTER_EXTENSIONS}
+                    className="hidden"
+                    onChange={(e) => {
+                        const files = Array.from(e.target.files ?? []);
+                        if (files.length > 0) loadScan(files);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+
+            <label className="block space-y-1">
+                <span className="text-[9px] text-slate-500 font-bold uppercase tracking-wider">CRS of scans that do not name one</span>
+                <select
+                    value={fallbackId}
+                    onChange={(e) => setFallbackId(e.target.value)}
+                    className="w-full bg-slate-900 text-[11px] text-slate-200 border border-slate-700 rounded px-2 py-1.5 outline-none focus:border-red-500"
+                >
+                    <option value="">Not set</option>
+                    {crsOptions.map(o => (
+                        <option key={o.id} value={o.id}>{o.name}</option>
+                    ))}
+                </select>
+            </label>
+
+            {isLoading && (
+                <div className="space-y-1">
+                    <div className="flex items-center justify-between text-[10px] text-amber-400 font-bold uppercase tracking-wider">
+                        <span>{progress ? PIPELINE_STAGES[progress.stage] : 'Loading scan'}</span>
+                        <span className="flex items-center gap-2">
+                            {progress && progress.total > 1 && `${Math.round(progress.done / progress.total * 100)}%`}
+                            <button onClick={cancel} className="text-slate-400 hover:text-white">Cancel</button>
+                        </span>
+                    </div>
+                    <div className="h-1 rounded bg-slate-800 overflow-hidden">
+                        <div
+                            className="h-full bg-amber-500 transition-all"
+                            style={{ width: `${progress && progress.total > 0 ? progress.done / progress.total * 100 : 0}%` }}
+                        />
+                    </div>
+                </div>
+            )}
+            {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+            <div className="space-y-2">
+                {rasters.map(raster => (
+                    <div key={raster.id} className="p-2 rounded-lg bg-slate-900/50 border border-slate-700/50 space-y-1.5">
+                        <div className="flex items-center gap-2">
+                            <span className="flex-1 min-w-0 text-xs font-bold text-slate-200 truncate">{raster.name}</span>
+                            <button onClick={() => onZoom(raster)} className="p-1 text-slate-400 hover:text-white" title="Zoom to scan">
+                                <Focus className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                                onClick={() => onChange(raster.id, { visible: !raster.visible })}
+                                className="p-1 text-slate-400 hover:text-white"
+                                title={raster.visible ? 'Hide scan' : 'Show scan'}
+                            >
+                                {raster.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+                            </button>
+                            <button onClick={() => onRemove(raster.id)} className="p-1 text-slate-400 hover:text-red-400" title="Remove scan">
+                                <X className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <span className="text-[9px] text-slate-500 font-bold uppercase tracking-wider">Opacity</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                value={raster.opacity}
+                                onChange={(e) => onChange(raster.id, { opacity: Number(e.target.value) })}
+                                className="flex-1 accent-red-500"
+                            />
+                            <span className="text-[9px] text-slate-400 w-7 text-right">{Math.round(raster.opacity * 100)}%</span>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex items-center justify-between gap-2 pt-2 border-t border-slate-700/50">
+                <span className="flex items-center gap-1.5 text-[10px] text-slate-500" title="Base-map tiles you have viewed are kept for offline use">
+                    <HardDrive className="w-3 h-3" />
+                    {cache ? `${cache.count} offline tiles · ${formatMegabytes(cache.bytes)}` : 'Offline tiles'}
+                </span>
+                <span className="flex items-center gap-2">
+                    <button onClick={refreshCache} className="text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-white">
+                        Refresh
+                    </button>
+                    <button
+                        onClick={handleClearCache}
+                        disabled={!cache || cache.count === 0}
+                        className="text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-red-400 disabled:opacity-40"
+                    >
+                        Clear
+                    </button>
+                </span>
+            </div>
+        </div>
+    );
+}
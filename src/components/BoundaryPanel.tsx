@@ -0,0 +1,67 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Compass, Copy } from 'lucide-react';
+import { KhasraData } from './Dashboard';
+import { describeBoundaries, findBoundarySides } from '@/lib/neighbours';
+import { UnitSystem } from '@/lib/units';
+
+interface BoundaryPanelProps {
+    poly: KhasraData;
+    polygons: KhasraData[];
+    unitSystem: UnitSystem;
+    titleOf: (polyId: string) => string;
+    onSelect: (polyId: string) => void;
+}
+
+/**
+ * What lies across each side of a selected khasra, and the fard-style boundary description to copy.
+ */
+export default function BoundaryPanel({ poly, polygons, unitSystem, titleOf, onSelect }: BoundaryPanelProps) {
+    const [copied, setCopied] = useState(false);
+    const sides = useMemo(
+        () => (poly.dimensions ? findBoundarySides(poly, polygons, poly.dimensions) : []),
+        [poly, polygons]
+    );
+    if (sides.length === 0 || !poly.stats) return null;
+
+    const description = describeBoundaries(titleOf(poly.id), poly.stats.label, sides, titleOf, unitSystem);
+
+    const handleCopy = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        navigator.clipboard.writeText(description)
+            .then(() => {
+                setCopied(true);
+                setTimeout(() => setCopied(false), 2000);
+            })
+            .catch(error => console.error('Could not copy the description:', error));
+    };
+
+    return (
+        <div className="mt-2 pt-2 border-t border-slate-700/50 space-y-1" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between text-[9px] uppercase tracking-wider text-slate-500">
+                <span className="flex items-center gap-1"><Compass className="w-3 h-3" /> Boundaries</span>
+                <button onClick={handleCopy} className="flex items-center gap-1 font-bold hover:text-white" title="Copy the boundary description">
+                    <Copy className="w-3 h-3" /> {copied ? 'Copied' : 'Copy'}
+                </button>
+            </div>
+            {sides.map((side, i) => (
+                <div key={i} className="grid grid-cols-[1.75rem_auto_1fr] gap-x-2 text-[10px] text-slate-300">
+                    <span className="font-bold text-slate-400">{side.facing}</span>
+                    <span className="text-slate-500">{side.dimension.label}</span>
+                    <span className="text-right truncate">
+                        {side.neighbours.length === 0 && <span className="text-slate-500 italic">not in data</span>}
+                        {side.neighbours.map((n, k) => (
+                            <React.Fragment key={n.id}>
+                                {k > 0 && ', '}
+                                <button onClick={() => onSelect(n.id)} className="text-sky-300 hover:text-white" title="Select this neighbour">
+                                    {titleOf(n.id)}
+                                </button>
+                            </React.Fragment>
+                        ))}
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+}
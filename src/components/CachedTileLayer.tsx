@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { fetchTile } from '@/lib/tile-cache';
+
+/**
+ * A tile layer that loads its images through the IndexedDB tile cache.
+ */
+class CachingTileLayer extends L.TileLayer {
+    createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+        const tile = document.createElement('img');
+        tile.alt = '';
+        tile.setAttribute('role', 'presentation');
+        fetchTile(this.getTileUrl(coords))
+            .then(blob => {
+                const src = URL.createObjectURL(blob);
+                tile.onload = () => {
+                    URL.revokeObjectURL(src);
+                    done(undefined, tile);
+                };
+                tile.onerror = () => {
+                    URL.revokeObjectURL(src);
+                    done(new Error('Could not draw the tile'), tile);
+                };
+                tile.src = src;
+            })
+            .catch(error => done(error, tile));
+        return tile;
+    }
+}
+
+interface CachedTileLayerProps {
+    url: string;
+    maxZoom: number;
+    maxNativeZoom: number;
+    attribution: string;
+}
+
+export default function CachedTileLayer({ url, maxZoom, maxNativeZoom, attribution }: CachedTileLayerProps) {
+    const map = useMap();
+
+    useEffect(() => {
+        const layer = new CachingTileLayer(url, { maxZoom, maxNativeZoom, attribution }).addTo(map);
+        return () => {
+            layer.remove();
+        };
+    }, [map, url, maxZoom, maxNativeZoom, attribution]);
+
+    return null;
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import React, { useEffect } from 'react';
+import { CircleMarker, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import type { Position } from 'geojson';
+import { ControlPointPicking, KhasraLayer } from './Dashboard';
+import { getPolygonParts } from '@/lib/geo-utils';
+
+// Screen distance within which a picked point jumps onto a khasra corner
+const SNAP_PIXELS = 12;
+
+/**
+ * Map side of georeferencing: numbered control points, and picking the map position of the current one.
+ */
+export default function ControlPointMarkers({ picking, layers }: { picking: ControlPointPicking, layers: KhasraLayer[] }) {
+    const map = useMap();
+    const isPicking = picking.pickingId !== null;
+
+    useEffect(() => {
+        if (!isPicking) return;
+        const container = map.getContainer();
+        container.style.cursor = 'crosshair';
+        return () => { container.style.cursor = ''; };
+    }, [map, isPicking]);
+
+    const snap = (latlng: L.LatLng): Position => {
+        const point = map.latLngToContainerPoint(latlng);
+        let best: Position = [latlng.lng, latlng.lat];
+        let bestDistance = SNAP_PIXELS;
+        layers.filter(l => l.visible).forEach(layer => {
+            layer.data.polygons.forEach(poly => {
+                getPolygonParts(poly.feature).flat(2).forEach(corner => {
+                    const distance = map.latLngToContainerPoint([corner[1], corner[0]]).distanceTo(point);
+                    if (distance < bestDistance) {
+                        bestDistance = distance;
+                        best = corner;
+                    }
+                });
+            });
+        });
+        return best;
+    };
+
+    useMapEvents({
+        click: (e) => {
+            if (isPicking) picking.onPick(snap(e.latlng));
+        },
+    });
+
+    return (
+        <>
+            {picking.points.map((p, i) => p.position && (
+                <CircleMarker
+                    key={p.id}
+                    center={[p.position[1], p.position[0]]}
+                    radius={7}
+                    pathOptions={{ color: '#ffffff', weight: 2, fillColor: p.id === picking.pickingId ? '#f59e0b' : '#0ea5e9', fillOpacity: 1 }}
+                    interactive={false}
+                >
+                    <Tooltip permanent direction="top" offset={[0, -8]} className="!bg-slate-900 !text-sky-300 !border-sky-500/50 !text-[10px] !font-bold">
+                        {i + 1}
+                    </Tooltip>
+                </CircleMarker>
+            ))}
+        </>
+    );
+}
@@ -1,11 +1,54 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import dynamic from 'next/dynamic';
 import FileUploader from './FileUploader';
-import { calculateKanalMarla, calculateDimensions, calculateProjectedArea, KhasraStats, Dimension, CRS } from '@/lib/geo-utils';
+import SourceCRSPanel, { SourceInfo } from './SourceCRSPanel';
+import ProjectionSelect from './ProjectionSelect';
+import MeasurementModeSelect from './MeasurementModeSelect';
+import MeasurementComparison from './MeasurementComparison';
+import UnitSystemSelect from './UnitSystemSelect';
+import SummaryPanel from './SummaryPanel';
+import KhasraListFilter from './KhasraListFilter';
+import ExportDataMenu from './ExportDataMenu';
+import LayerManager from './LayerManager';
+import OverlayPanel from './OverlayPanel';
+import PartitionPanel from './PartitionPanel';
+import DrawToolbar, { RectangleSpec, SaveTarget } from './DrawToolbar';
+import FieldBookPanel from './FieldBookPanel';
+import ValidationPanel from './ValidationPanel';
+import ProjectList from './ProjectList';
+import BaseMapPanel from './BaseMapPanel';
+import GeoreferencePanel from './GeoreferencePanel';
+import BoundaryPanel from './BoundaryPanel';
+import VertexTablePanel from './VertexTablePanel';
+import {
+    calculateKanalMarla, calculateKhasraStats, calculateDimensions, compareMeasurementModes, describeRing, getPolygonParts, rectangleFromCorner,
+    KhasraStats, Dimension, CRS, MEASUREMENT_MODES, MeasurementMode, ModeMeasurement
+} from '@/lib/geo-utils';
+import { ReportEntry, exportKhasraReport } from '@/lib/report';
+import { DataExportFormat, ScheduleExportFormat, exportAcquisitionSchedule, exportKhasraData } from '@/lib/data-export';
+import { OverlayResult } from '@/lib/overlay';
+import { PartitionPiece } from '@/lib/partition';
+import { TopologyIssue, fixIssue } from '@/lib/topology';
+import {
+    ParcelMeasurement, PipelineOptions, PreparedLayer, isCancelled, measureInWorker, metricsInWorker, overlayInWorker, prepareInWorker, validateInWorker,
+} from '@/lib/pipeline';
+import { MapView, ViewLink, encodeViewLink } from '@/lib/deep-link';
+import { RasterOverlay, ScanImage } from '@/lib/raster';
+import { ControlPoint, TransformKind } from '@/lib/georeference';
+import { VertexNaming } from '@/lib/vertices';
+import {
+    Project, ProjectSummary, deleteProject, exportProjectFile, importProjectFile, listProjects, loadProject, newProjectId, saveProject,
+} from '@/lib/project-store';
+import { DrawTool, DrawnShape, ShapeMeasurement, measureShape } from '@/lib/measure-tools';
+import { DEFAULT_UNIT_SYSTEM, METERS_PER_FOOT, UnitSystem, formatSecondaryArea } from '@/lib/units';
+import { EMPTY_FILTER, ListFilter, ListItem, applyListFilter } from '@/lib/khasra-filter';
+import { ParcelMetrics, measureParcel } from '@/lib/summary';
+import { AUTO_CRS, ProjectionDef, WGS84_SOURCE, listProjections, looksGeographic, registerProjection, sourceCRSFromPrj } from '@/lib/projection';
 import * as turf from '@turf/turf';
-import { Layers, Map as MapIcon, Table, Info, Globe, Linkedin, MessageSquare } from 'lucide-react';
+import type { Feature, FeatureCollection, Polygon, Position } from 'geojson';
+import { Layers, Map as MapIcon, Table, Info, Linkedin, MessageSquare, PenLine, Undo2, Redo2, Magnet, Split, BookOpen, Link2, AlertTriangle } from 'lucide-react';
 
 const Map = dynamic<any>(() => import('./Map'), {
     ssr: false,
@@ -14,11 +57,88 @@ const Map = dynamic<any>(() => import('./Map'), {
 
 export type BaseLayer = 'satellite' | 'dark';
 
+// Cards rendered at a time; large mauza files page in with "Show more"
+const LIST_PAGE_SIZE = 100;
+
+export interface FocusRequest {
+    id: string;
+    feature: Feature;
+    seq: number; // Bumped so flying to the same khasra twice still triggers
+}
+
+/**
+ * The khasra whose vertices are being edited on the map, with what the editor needs to draw live labels.
+ */
+export interface VertexEditing {
+    layerId: string;
+    polyId: string;
+    feature: Feature;
+    snapping: boolean;
+    measure: (feature: Feature) => { stats: KhasraStats; dimensions: Dimension[] };
+    onChange: (feature: Feature) => void;
+}
+
+export interface ViewRequest extends MapView {
+    seq: number; // Bumped so the same view can be requested twice
+}
+
+/**
+ * The active drawing tool and the last finished shape, with the measuring rules of the dashboard.
+ */
+export interface DrawingState {
+    tool: DrawTool | null;
+    shape: DrawnShape | null;
+    measure: (shape: DrawnShape) => ShapeMeasurement;
+    buildRectangle: (corner: Position) => Feature<Polygon>;
+    onShape: (shape: DrawnShape | null) => void;
+}
+
+/**
+ * Control points of the scan being georeferenced, and the one waiting for its map position.
+ */
+export interface ControlPointPicking {
+    points: ControlPoint[];
+    pickingId: string | null;
+    onPick: (position: Position) => void;
+}
+
+// Scan being placed by hand: its control points, the chosen transform and the point waiting for a map click
+export interface GeoreferenceSession {
+    image: ScanImage;
+    url: string; // The undistorted scan, for picking pixels
+    points: ControlPoint[];
+    kind: TransformKind;
+    pickingId: string | null;
+}
+
+// Khasra being partitioned and the pieces of the last run
+interface TaqseemSession {
+    layerId: string;
+    polyId: string;
+    pieces: PartitionPiece[];
+}
+
+// Khasra being checked against its field book, and the first corner the book is laid out from
+interface FieldBookSession {
+    layerId: string;
+    polyId: string;
+    start: Position;
+}
+
+// Committed geometries of the edited khasra; `index` points at the one currently applied
+interface EditSession {
+    layerId: string;
+    polyId: string;
+    history: Feature[];
+    index: number;
+}
+
 export interface KhasraData {
     id: string;
     feature: any;
     stats?: KhasraStats;
     dimensions?: Dimension[];
+    comparison?: ModeMeasurement[];
     center: [number, number];
 }
 
@@ -28,87 +148,910 @@ export interface MapData {
     availableFields: string[];
 }
 
-export default function Dashboard() {
-    const [mapData, setMapData] = useState<MapData | null>(null);
-    const [selectedPolyIds, setSelectedPolyIds] = useState<string[]>([]);
-    const [labelField, setLabelField] = useState<string>('');
-    const [selectedCRS, setSelectedCRS] = useState<CRS>('UTM42N');
+/**
+ * One loaded file (or file layer) with its own styling and selection.
+ */
+export interface KhasraLayer {
+    id: string;
+    name: string;
+    data: MapData;
+    source: SourceInfo;
+    visible: boolean;
+    color: string;
+    opacity: number;
+    labelField: string;
+    selectedPolyIds: string[];
+    revision: number; // Bumped on vertex edits, fixes and drawn khasras so the map redraws the geometry
+}
+
+// Outline colours handed out to layers in load order
+const LAYER_COLORS = ['#64748b', '#3b82f6', '#eab308', '#22c55e', '#a855f7', '#f97316', '#06b6d4'];
+
+const NO_SELECTION: string[] = [];
+const NO_ISSUES: TopologyIssue[] = [];
+const NO_PIECES: PartitionPiece[] = [];
+const NO_OVERLAY: OverlayResult[] = [];
+
+// 20 x 9 karams: one standard kanal
+const DEFAULT_RECTANGLE: RectangleSpec = {
+    lengthMeters: 20 * 5.5 * METERS_PER_FOOT,
+    widthMeters: 9 * 5.5 * METERS_PER_FOOT,
+    bearing: 0,
+};
+
+// Saved layers leave out each khasra's feature, which is already in the layer's GeoJSON (in the same order)
+type SavedLayer = Omit<KhasraLayer, 'data'> & {
+    data: Omit<MapData, 'polygons'> & { polygons: Omit<KhasraData, 'feature'>[] };
+};
+
+const toSavedLayer = (layer: KhasraLayer): SavedLayer => ({
+    ...layer,
+    data: {
+        ...layer.data,
+        polygons: layer.data.polygons.map(({ id, stats, dimensions, comparison, center }) => ({ id, stats, dimensions, comparison, center })),
+    },
+});
+
+const fromSavedLayer = (layer: SavedLayer): KhasraLayer => ({
+    ...layer,
+    data: { ...layer.data, polygons: layer.data.polygons.map((p, i) => ({ ...p, feature: layer.data.geojson.features[i] })) },
+});
+
+// Where a new layer's coordinates come from: the file's CRS definition, if it has one, or a CRS known up front
+type LayerOrigin = { prj: string | undefined } | { crs: ProjectionDef };
+
+// Changes are written to IndexedDB once editing pauses for this long
+const AUTOSAVE_DELAY_MS = 1000;
+
+function buildMapData({ geojson, centers }: PreparedLayer): MapData {
+    // Extract fields from the first feature
+    const properties = geojson.features[0]?.properties || {};
+    const polygons: KhasraData[] = geojson.features.map((feature, index) => ({
+        id: `poly-${index}`,
+        feature,
+        center: centers[index],
+    }));
+    return { geojson, polygons, availableFields: Object.keys(properties) };
+}
+
+export default function Dashboard({ linkedView = null }: { linkedView?: ViewLink | null }) {
+    const [layers, setLayers] = useState<KhasraLayer[]>([]);
+    const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
+    const [isAddingLayer, setIsAddingLayer] = useState(false);
+    const [selectedCRS, setSelectedCRS] = useState<CRS>(AUTO_CRS);
+    const [measurementMode, setMeasurementMode] = useState<MeasurementMode>('projected');
+    const [elevation, setElevation] = useState(0);
+    const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+    const [vertexNaming, setVertexNaming] = useState<VertexNaming>('letters');
     const [baseLayer, setBaseLayer] = useState<BaseLayer>('dark');
-    const [isProcessing, setIsProcessing] = useState(false);
     const [fileVersion, setFileVersion] = useState(0);
+    const [isExporting, setIsExporting] = useState(false);
+    const [listFilter, setListFilter] = useState<ListFilter>(EMPTY_FILTER);
+    const [visibleCount, setVisibleCount] = useState(LIST_PAGE_SIZE);
+    const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+    const [selectedIssueId, setSelectedIssueId] = useState<string | null>(null);
+    const [overlayLayerId, setOverlayLayerId] = useState('');
+    const [editSession, setEditSession] = useState<EditSession | null>(null);
+    const [snapping, setSnapping] = useState(true);
+    const [taqseem, setTaqseem] = useState<TaqseemSession | null>(null);
+    const [fieldBook, setFieldBook] = useState<FieldBookSession | null>(null);
+    const [isPickingStart, setIsPickingStart] = useState(false);
+    const [drawTool, setDrawTool] = useState<DrawTool | null>(null);
+    const [drawnShape, setDrawnShape] = useState<DrawnShape | null>(null);
+    const [rectangle, setRectangle] = useState<RectangleSpec>(DEFAULT_RECTANGLE);
+    const [projectId, setProjectId] = useState<string | null>(null);
+    const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+    const [pendingLink, setPendingLink] = useState<ViewLink | null>(linkedView);
+    const [mapView, setMapView] = useState<MapView | null>(null);
+    const [viewRequest, setViewRequest] = useState<ViewRequest | null>(null);
+    const [linkCopied, setLinkCopied] = useState(false);
+    const [rasters, setRasters] = useState<RasterOverlay[]>([]);
+    const [georeference, setGeoreference] = useState<GeoreferenceSession | null>(null);
+    const layerCounter = useRef(0);
+    const rasterCounter = useRef(0);
+
+    // The sidebar list, summary and exports all work on the active layer
+    const activeLayer = layers.find(l => l.id === activeLayerId) ?? null;
+    const mapData = activeLayer?.data ?? null;
+    const selectedPolyIds = activeLayer?.selectedPolyIds ?? NO_SELECTION;
+    const labelField = activeLayer?.labelField ?? '';
+    const source = activeLayer?.source ?? null;
+
+    const updateLayer = (id: string, update: (layer: KhasraLayer) => Partial<KhasraLayer>) => {
+        setLayers(prev => prev.map(l => (l.id === id ? { ...l, ...update(l) } : l)));
+    };
+
+    const activateLayer = (id: string | null) => {
+        setActiveLayerId(id);
+        if (id === overlayLayerId) setOverlayLayerId('');
+        if (id !== activeLayerId) {
+            setEditSession(null);
+            setTaqseem(null);
+            setFieldBook(null);
+        }
+        setSelectedIssueId(null);
+        setListFilter(EMPTY_FILTER);
+        setVisibleCount(LIST_PAGE_SIZE);
+    };
 
-    const handleFileProcessed = (geojson: any) => {
-        setIsProcessing(true);
+    /**
+     * Reprojects and indexes a file in the worker, then adds it as the active layer. Resolves to false if it
+     * failed or was cancelled.
+     */
+    const addLayer = async (
+        rawGeojson: FeatureCollection, origin: LayerOrigin, name: string, labelField?: string, pipeline?: PipelineOptions
+    ) => {
+        const prj = 'prj' in origin ? origin.prj : undefined;
+        const prjCRS = sourceCRSFromPrj(prj);
+        const crs = 'crs' in origin ? origin.crs : prjCRS ?? WGS84_SOURCE;
+        let data: MapData;
         try {
-            // Extract fields from the first feature
-            const properties = geojson.features[0]?.properties || {};
-            const fields = Object.keys(properties);
-            if (fields.length > 0 && !labelField) {
-                setLabelField(fields[0]);
+            data = await loadGeojson(rawGeojson, crs, pipeline);
+        } catch (error) {
+            if (!isCancelled(error)) {
+                console.error("Error processing geojson:", error);
+                alert("Failed to process spatial data. Please ensure the shapefile is valid.");
             }
+            return false;
+        }
+
+        if (!projectId) setProjectId(newProjectId());
+        const id = `layer-${++layerCounter.current}`;
+        const layer: KhasraLayer = {
+            id,
+            name,
+            data,
+            source: {
+                geojson: rawGeojson,
+                crs,
+                prjCRS,
+                prjStatus: 'crs' in origin ? 'known' : prjCRS ? 'parsed' : prj ? 'unreadable' : 'missing',
+                looksProjected: !looksGeographic(rawGeojson),
+            },
+            visible: true,
+            color: LAYER_COLORS[(layerCounter.current - 1) % LAYER_COLORS.length],
+            opacity: 1,
+            labelField: labelField ?? data.availableFields[0] ?? '',
+            selectedPolyIds: [],
+            revision: 0,
+        };
+        // New layers go on top
+        setLayers(prev => [layer, ...prev]);
+        activateLayer(id);
+        setIsAddingLayer(false);
+        return true;
+    };
+
+    const handleSourceCRSChange = async (crs: ProjectionDef) => {
+        if (!activeLayer) return;
+        // The layer is rebuilt from the file as loaded, which has none of the changes made on the map since
+        if (activeLayer.revision > 0 && !window.confirm(
+            'This layer has drawn khasras, vertex edits or topology fixes. Reprojecting reloads it from the original file and discards them. Continue?'
+        )) return;
+        try {
+            const data = await loadGeojson(activeLayer.source.geojson, crs);
+            updateLayer(activeLayer.id, l => ({ data, source: { ...l.source, crs }, selectedPolyIds: [], revision: 0 }));
+            setEditSession(null);
+            setTaqseem(null);
+            setFieldBook(null);
+        } catch (error) {
+            console.error('Reprojection error:', error);
+            alert('Could not reproject the data with the selected CRS.');
+        }
+    };
+
+    const handleReset = () => {
+        setProjectId(null);
+        setLayers([]);
+        activateLayer(null);
+        setIsAddingLayer(false);
+        setEditSession(null);
+        setTaqseem(null);
+        setFieldBook(null);
+    };
+
+    const handleRemoveLayer = (id: string) => {
+        const remaining = layers.filter(l => l.id !== id);
+        setLayers(remaining);
+        if (id === overlayLayerId) setOverlayLayerId('');
+        if (id === editSession?.layerId) setEditSession(null);
+        if (id === taqseem?.layerId) setTaqseem(null);
+        if (id === fieldBook?.layerId) setFieldBook(null);
+        if (id === activeLayerId) activateLayer(remaining[0]?.id ?? null);
+    };
+
+    // Scans are drawn at half opacity at first, so the khasras can be checked against them
+    const handleAddRaster = (raster: Pick<RasterOverlay, 'name' | 'url' | 'bounds'>) => {
+        const added: RasterOverlay = { ...raster, id: `scan-${++rasterCounter.current}`, opacity: 0.5, visible: true };
+        setRasters(prev => [added, ...prev]);
+        handleZoomRaster(added);
+    };
+
+    const handleRemoveRaster = (id: string) => {
+        const raster = rasters.find(r => r.id === id);
+        if (raster) URL.revokeObjectURL(raster.url);
+        setRasters(prev => prev.filter(r => r.id !== id));
+    };
+
+    const handleZoomRaster = (raster: RasterOverlay) => {
+        const [[south, west], [north, east]] = raster.bounds;
+        setFocusRequest(prev => ({ id: raster.id, feature: turf.bboxPolygon([west, south, east, north]), seq: (prev?.seq ?? 0) + 1 }));
+    };
+
+    const handleStartGeoreference = (image: ScanImage, url: string) => {
+        if (georeference) URL.revokeObjectURL(georeference.url);
+        setDrawTool(null);
+        setIsPickingStart(false);
+        setGeoreference({ image, url, points: [], kind: 'affine', pickingId: null });
+    };
+
+    const closeGeoreference = () => {
+        if (georeference) URL.revokeObjectURL(georeference.url);
+        setGeoreference(null);
+    };
+
+    const controlPointPicking: ControlPointPicking | null = georeference && {
+        points: georeference.points,
+        pickingId: georeference.pickingId,
+        onPick: (position) => setGeoreference({
+            ...georeference,
+            points: georeference.points.map(p => (p.id === georeference.pickingId ? { ...p, position } : p)),
+            pickingId: null,
+        }),
+    };
+
+    const baseMapPanel = (
+        <BaseMapPanel
+            rasters={rasters}
+            onAdd={handleAddRaster}
+            onGeoreference={handleStartGeoreference}
+            onChange={(id, patch) => setRasters(prev => prev.map(r => (r.id === id ? { ...r, ...patch } : r)))}
+            onZoom={handleZoomRaster}
+            onRemove={handleRemoveRaster}
+        />
+    );
+
+    const handleMoveLayer = (id: string, offset: -1 | 1) => {
+        setLayers(prev => {
+            const index = prev.findIndex(l => l.id === id);
+            const target = index + offset;
+            if (index === -1 || target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const loadGeojson = async (geojson: FeatureCollection, crs: ProjectionDef, pipeline?: PipelineOptions): Promise<MapData> => {
+        const data = buildMapData(await prepareInWorker(geojson, crs, pipeline));
+        setFileVersion(v => v + 1);
+        return data;
+    };
+
+    // Newly selected khasras are measured in the worker by the effect further down
+    const handleSelectKhasra = (id: string, toggle: boolean = true, layerId: string | null = activeLayerId) => {
+        if (!layerId) return;
+        updateLayer(layerId, l => {
+            const isSelected = l.selectedPolyIds.includes(id);
+            if (toggle && isSelected) return { selectedPolyIds: l.selectedPolyIds.filter(prevId => prevId !== id) };
+            return isSelected ? {} : { selectedPolyIds: [...l.selectedPolyIds, id] };
+        });
+    };
+
+    const measureEdited = (feature: Feature) => {
+        const measureOptions = { mode: measurementMode, elevation, units: unitSystem };
+        return {
+            stats: calculateKhasraStats(feature, selectedCRS, measureOptions),
+            dimensions: calculateDimensions(feature, selectedCRS, measureOptions),
+        };
+    };
+
+    /**
+     * Writes an edited geometry into the layer, so the list, summary, overlay and exports all use it.
+     */
+    const applyEditedFeature = (layerId: string, polyId: string, feature: Feature) => {
+        const { stats, dimensions } = measureEdited(feature);
+        const comparison = compareMeasurementModes(feature, selectedCRS, elevation);
+        const center = turf.centerOfMass(feature).geometry.coordinates;
+
+        updateLayer(layerId, l => {
+            // Polygons are built one per GeoJSON feature, in order
+            const idx = l.data.polygons.findIndex(p => p.id === polyId);
+            if (idx === -1) return {};
+            const features = [...l.data.geojson.features];
+            features[idx] = feature;
+            return {
+                revision: l.revision + 1,
+                data: {
+                    ...l.data,
+                    geojson: { ...l.data.geojson, features },
+                    polygons: l.data.polygons.map((p, i) => (i === idx
+                        ? { ...p, feature, center: [center[1], center[0]] as [number, number], stats, dimensions, comparison }
+                        : p)),
+                },
+            };
+        });
+    };
+
+    const handleStartEditing = (id: string) => {
+        const poly = mapData?.polygons.find(p => p.id === id);
+        if (!activeLayer || !poly) return;
+        if (!selectedPolyIds.includes(id)) handleSelectKhasra(id);
+        setDrawTool(null);
+        setEditSession({ layerId: activeLayer.id, polyId: id, history: [poly.feature], index: 0 });
+    };
+
+    const handleVertexChange = (feature: Feature) => {
+        if (!editSession) return;
+        // A new edit drops anything that was undone
+        setEditSession({
+            ...editSession,
+            history: [...editSession.history.slice(0, editSession.index + 1), feature],
+            index: editSession.index + 1,
+        });
+        applyEditedFeature(editSession.layerId, editSession.polyId, feature);
+    };
+
+    const stepEditHistory = (offset: -1 | 1) => {
+        if (!editSession) return;
+        const index = editSession.index + offset;
+        if (index < 0 || index >= editSession.history.length) return;
+        setEditSession({ ...editSession, index });
+        applyEditedFeature(editSession.layerId, editSession.polyId, editSession.history[index]);
+    };
+
+    // Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z) while editing; Escape finishes. Read through a ref so the listener stays current.
+    const editKeysRef = useRef<(e: KeyboardEvent) => void>(() => {});
+    useEffect(() => {
+        editKeysRef.current = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+            const key = e.key.toLowerCase();
+            if (key === 'escape') {
+                setEditSession(null);
+            } else if ((e.ctrlKey || e.metaKey) && (key === 'y' || (key === 'z' && e.shiftKey))) {
+                e.preventDefault();
+                stepEditHistory(1);
+            } else if ((e.ctrlKey || e.metaKey) && key === 'z') {
+                e.preventDefault();
+                stepEditHistory(-1);
+            }
+        };
+    });
+    const isEditing = editSession !== null;
+    useEffect(() => {
+        if (!isEditing) return;
+        const onKeyDown = (e: KeyboardEvent) => editKeysRef.current(e);
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [isEditing]);
+
+    const editedLayer = layers.find(l => l.id === editSession?.layerId);
+    const editedPoly = editedLayer?.data.polygons.find(p => p.id === editSession?.polyId);
+    const vertexEditing: VertexEditing | null = editSession && editedPoly ? {
+        layerId: editSession.layerId,
+        polyId: editSession.polyId,
+        feature: editedPoly.feature,
+        snapping,
+        measure: measureEdited,
+        onChange: handleVertexChange,
+    } : null;
+
+    const handleStartTaqseem = (id: string) => {
+        if (!activeLayer) return;
+        if (!selectedPolyIds.includes(id)) handleSelectKhasra(id);
+        setTaqseem({ layerId: activeLayer.id, polyId: id, pieces: [] });
+    };
+
+    const khasraTitle = (polyId: string) => {
+        const idx = mapData?.polygons.findIndex(p => p.id === polyId) ?? -1;
+        return String(mapData?.polygons[idx]?.feature.properties?.[labelField] ?? `ID: ${idx + 1}`);
+    };
+
+    const taqseemIdx = taqseem && taqseem.layerId === activeLayerId ? mapData?.polygons.findIndex(p => p.id === taqseem.polyId) ?? -1 : -1;
+    const taqseemPoly = taqseemIdx >= 0 ? mapData?.polygons[taqseemIdx] : undefined;
+    const taqseemTitle = taqseemPoly ? String(taqseemPoly.feature.properties?.[labelField] ?? `ID: ${taqseemIdx + 1}`) : '';
+
+    const taqseemEntries = (): ReportEntry[] => (taqseem?.pieces ?? []).map(piece => ({
+        title: `${taqseemTitle} - ${piece.name}`,
+        feature: piece.feature,
+        stats: piece.stats,
+        dimensions: piece.dimensions,
+    }));
+
+    const handleExportTaqseem = (format: DataExportFormat) => {
+        try {
+            exportKhasraData(taqseemEntries(), format, {
+                labelField, units: unitSystem, crs: selectedCRS, vertexNaming, fileName: `${taqseemTitle}-taqseem`
+            });
+        } catch (error) {
+            console.error('Taqseem export error:', error);
+            alert('Failed to export the partition.');
+        }
+    };
+
+    // The pieces become a layer of their own, labelled by share
+    const handleAddTaqseemLayer = () => {
+        if (!taqseem) return;
+        addLayer(turf.featureCollection(taqseem.pieces.map(p => p.feature)), { crs: WGS84_SOURCE }, `${taqseemTitle} taqseem`, 'share');
+        setTaqseem(null);
+    };
+
+    // The book is laid out from the khasra's first corner unless another point is picked on the map
+    const handleStartFieldBook = (id: string) => {
+        if (!activeLayer) return;
+        if (!selectedPolyIds.includes(id)) handleSelectKhasra(id);
+        const poly = mapData?.polygons.find(p => p.id === id);
+        if (!poly) return;
+        setFieldBook({ layerId: activeLayer.id, polyId: id, start: getPolygonParts(poly.feature)[0][0][0] });
+        setIsPickingStart(false);
+    };
+
+    const fieldBookIdx = fieldBook && fieldBook.layerId === activeLayerId ? mapData?.polygons.findIndex(p => p.id === fieldBook.polyId) ?? -1 : -1;
+    const fieldBookPoly = fieldBookIdx >= 0 ? mapData?.polygons[fieldBookIdx] : undefined;
 
-            const polygons = geojson.features.map((feature: any, index: number) => {
-                const center = turf.centerOfMass(feature).geometry.coordinates as [number, number];
-                return {
-                    id: `poly-${index}`,
-                    feature,
-                    center: [center[1], center[0]], // [lat, lng] for Leaflet
-                };
+    const handlePickStart = (position: Position) => {
+        if (fieldBook) setFieldBook({ ...fieldBook, start: position });
+        setIsPickingStart(false);
+    };
+
+    const handleCloseFieldBook = () => {
+        setFieldBook(null);
+        setIsPickingStart(false);
+    };
+
+    // The constructed parcel is shown like a drawn shape, so it gets the same labels and can be saved as a khasra
+    const handleFieldBookParcel = (feature: Feature<Polygon>) => {
+        setDrawTool(null);
+        setDrawnShape(feature);
+    };
+
+    const handleDrawToolChange = (tool: DrawTool | null) => {
+        setDrawTool(tool);
+        setDrawnShape(null);
+        if (tool) setEditSession(null);
+    };
+
+    const drawing: DrawingState = {
+        tool: drawTool,
+        shape: drawnShape,
+        measure: shape => measureShape(shape, selectedCRS, { mode: measurementMode, elevation, units: unitSystem }),
+        buildRectangle: corner => rectangleFromCorner(corner, rectangle.widthMeters, rectangle.lengthMeters, rectangle.bearing, selectedCRS),
+        onShape: setDrawnShape,
+    };
+
+    /**
+     * Adds a drawn polygon as a khasra of the active layer, or as the first khasra of a new layer.
+     */
+    const handleSaveDrawn = (properties: Record<string, string>, target: SaveTarget) => {
+        if (!drawnShape || drawnShape.geometry.type !== 'Polygon') return;
+        const feature: Feature = { type: 'Feature', geometry: drawnShape.geometry, properties };
+
+        if (target === 'active' && activeLayer) {
+            const center = turf.centerOfMass(feature).geometry.coordinates;
+            updateLayer(activeLayer.id, l => ({
+                revision: l.revision + 1,
+                data: {
+                    geojson: { ...l.data.geojson, features: [...l.data.geojson.features, feature] },
+                    polygons: [...l.data.polygons, { id: `poly-${l.data.polygons.length}`, feature, center: [center[1], center[0]] }],
+                    availableFields: [...new Set([...l.data.availableFields, ...Object.keys(properties)])],
+                },
+            }));
+        } else {
+            addLayer(turf.featureCollection([feature]), { crs: WGS84_SOURCE }, 'Drawn parcels', Object.keys(properties)[0]);
+        }
+        setDrawnShape(null);
+    };
+
+    /**
+     * Clicking a khasra of another layer on the map makes that layer active.
+     */
+    const handleMapSelect = (layerId: string, id: string) => {
+        if (layerId !== activeLayerId) activateLayer(layerId);
+        handleSelectKhasra(id, true, layerId);
+    };
+
+    /**
+     * Selects a khasra from the list and flies the map to it; clicking a selected card deselects it.
+     */
+    const handleChooseKhasra = (id: string) => {
+        const wasSelected = selectedPolyIds.includes(id);
+        const poly = mapData?.polygons.find(p => p.id === id);
+        handleSelectKhasra(id);
+        if (poly && !wasSelected) {
+            setFocusRequest(prev => ({ id, feature: poly.feature, seq: (prev?.seq ?? 0) + 1 }));
+        }
+    };
+
+    const handleListFilterChange = (filter: ListFilter) => {
+        setListFilter(filter);
+        setVisibleCount(LIST_PAGE_SIZE);
+    };
+
+    // Measured and intersected from the layer's GeoJSON rather than mapData, so selecting khasras does not re-run them
+    const activeGeojson: FeatureCollection | undefined = mapData?.geojson;
+    const overlayGeojson: FeatureCollection | undefined = layers.find(l => l.id === overlayLayerId && l.id !== activeLayerId)?.data.geojson;
+
+    // Area and perimeter of every khasra of the active layer, for the whole-file summary and the list's area filter and sort
+    const metricsKey = `${selectedCRS}|${measurementMode}|${elevation}`;
+    const [metrics, setMetrics] = useState<{ geojson: FeatureCollection; key: string; metrics: ParcelMetrics[] } | null>(null);
+    useEffect(() => {
+        if (!activeGeojson) return;
+        const controller = new AbortController();
+        metricsInWorker(activeGeojson.features, selectedCRS, { mode: measurementMode, elevation }, { signal: controller.signal })
+            .then(result => setMetrics({ geojson: activeGeojson, key: metricsKey, metrics: result }))
+            .catch(error => {
+                if (!isCancelled(error)) console.error('Measuring error:', error);
+            });
+        return () => controller.abort();
+    }, [activeGeojson, selectedCRS, measurementMode, elevation, metricsKey]);
+    const layerMetrics = metrics && metrics.geojson === activeGeojson && metrics.key === metricsKey ? metrics.metrics : null;
+
+    const listItems = useMemo<ListItem[]>(() => {
+        if (!mapData) return [];
+        return mapData.polygons.map((poly, idx) => ({
+            id: poly.id,
+            title: String(poly.feature.properties?.[labelField] ?? `ID: ${idx + 1}`),
+            properties: poly.feature.properties,
+            metrics: layerMetrics?.[idx],
+        }));
+    }, [mapData, labelField, layerMetrics]);
+
+    const filteredItems = useMemo(
+        () => applyListFilter(listItems, listFilter, unitSystem),
+        [listItems, listFilter, unitSystem]
+    );
+
+    // Keyed on the unit definition rather than its id, so an edited custom system counts as a change
+    const unitsKey = useMemo(() => JSON.stringify(unitSystem), [unitSystem]);
+    const overlayKey = `${labelField}|${metricsKey}|${unitsKey}`;
+    const [overlay, setOverlay] = useState<{
+        geojson: FeatureCollection; overlay: FeatureCollection; key: string; results: OverlayResult[];
+    } | null>(null);
+    useEffect(() => {
+        if (!activeGeojson || !overlayGeojson) return;
+        const parcels = activeGeojson.features.map((feature, idx) => ({
+            id: `poly-${idx}`,
+            title: String(feature.properties?.[labelField] ?? `ID: ${idx + 1}`),
+            feature,
+        }));
+        const controller = new AbortController();
+        overlayInWorker(parcels, overlayGeojson, selectedCRS, { mode: measurementMode, elevation, units: unitSystem }, { signal: controller.signal })
+            .then(results => setOverlay({ geojson: activeGeojson, overlay: overlayGeojson, key: overlayKey, results }))
+            .catch(error => {
+                if (!isCancelled(error)) console.error('Overlay error:', error);
             });
+        return () => controller.abort();
+    }, [activeGeojson, overlayGeojson, labelField, selectedCRS, measurementMode, elevation, unitSystem, overlayKey]);
+    // Null while the worker intersects the layers
+    const overlayResults = !overlayGeojson ? NO_OVERLAY
+        : overlay && overlay.geojson === activeGeojson && overlay.overlay === overlayGeojson && overlay.key === overlayKey ? overlay.results : null;
 
-            setMapData({ geojson, polygons, availableFields: fields });
-            setSelectedPolyIds([]);
-            setFileVersion(v => v + 1);
+    // Re-checked in the worker whenever the layer's geometry changes (load, reprojection, edits and fixes)
+    const [validation, setValidation] = useState<{ geojson: FeatureCollection; issues: TopologyIssue[] } | null>(null);
+    useEffect(() => {
+        if (!activeGeojson) return;
+        const controller = new AbortController();
+        validateInWorker(activeGeojson.features.map((feature, idx) => ({ id: `poly-${idx}`, feature })), { signal: controller.signal })
+            .then(issues => setValidation({ geojson: activeGeojson, issues }))
+            .catch(error => {
+                if (!isCancelled(error)) console.error('Validation error:', error);
+            });
+        return () => controller.abort();
+    }, [activeGeojson]);
+    const isValidating = !!activeGeojson && validation?.geojson !== activeGeojson;
+    const validationIssues = validation && !isValidating ? validation.issues : NO_ISSUES;
+    const selectedIssue = validationIssues.find(issue => issue.id === selectedIssueId) ?? null;
+
+    const handleShowIssue = (issue: TopologyIssue) => {
+        setSelectedIssueId(issue.id);
+        setFocusRequest(prev => ({ id: issue.id, feature: issue.location, seq: (prev?.seq ?? 0) + 1 }));
+    };
+
+    /**
+     * Applies the safe fixes of the given issues, one update per khasra.
+     */
+    const applyFixes = (issues: TopologyIssue[]) => {
+        if (!activeLayer || !mapData) return;
+        const byPoly: Record<string, TopologyIssue[]> = {};
+        issues.filter(issue => issue.fixable).forEach(issue => {
+            (byPoly[issue.polyIds[0]] ??= []).push(issue);
+        });
+        Object.entries(byPoly).forEach(([polyId, polyIssues]) => {
+            const poly = mapData.polygons.find(p => p.id === polyId);
+            if (poly) applyEditedFeature(activeLayer.id, polyId, polyIssues.reduce<Feature>(fixIssue, poly.feature));
+        });
+    };
+
+    const handleExportSchedule = (format: ScheduleExportFormat) => {
+        try {
+            exportAcquisitionSchedule(overlayResults ?? NO_OVERLAY, format, {
+                labelField,
+                units: unitSystem,
+                fileName: activeLayer ? `${activeLayer.name}-acquisition` : undefined,
+            });
         } catch (error) {
-            console.error("Error processing geojson:", error);
-            alert("Failed to process spatial data. Please ensure the shapefile is valid.");
-        } finally {
-            setIsProcessing(false);
+            console.error('Schedule export error:', error);
+            alert('Failed to export the acquisition schedule.');
         }
     };
 
-    const handleSelectKhasra = (id: string, toggle: boolean = true) => {
+    /**
+     * Stats and dimensions for export, reusing what the sidebar already computed.
+     */
+    const buildExportEntries = (polys: KhasraData[]): ReportEntry[] => {
+        if (!mapData) return [];
+        const measureOptions = { mode: measurementMode, elevation, units: unitSystem };
+        return polys.map(poly => {
+            const idx = mapData.polygons.indexOf(poly);
+            return {
+                title: String(poly.feature.properties[labelField] ?? `ID: ${idx + 1}`),
+                feature: poly.feature,
+                stats: poly.stats ?? calculateKhasraStats(poly.feature, selectedCRS, measureOptions),
+                dimensions: poly.dimensions ?? calculateDimensions(poly.feature, selectedCRS, measureOptions),
+            };
+        });
+    };
+
+    const handleExportReport = async () => {
         if (!mapData) return;
+        const selected = mapData.polygons.filter(p => selectedPolyIds.includes(p.id));
+        if (selected.length === 0) {
+            alert('Select at least one khasra on the map or in the list to export a report.');
+            return;
+        }
 
-        let nextIds = [...selectedPolyIds];
-        const isSelected = nextIds.includes(id);
+        setIsExporting(true);
+        try {
+            await exportKhasraReport(buildExportEntries(selected), { labelField, crs: selectedCRS, units: unitSystem, vertexNaming });
+        } catch (error) {
+            console.error('Report export error:', error);
+            alert('Failed to generate the PDF report.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
 
-        if (toggle && isSelected) {
-            nextIds = nextIds.filter(prevId => prevId !== id);
-        } else if (!isSelected) {
-            nextIds.push(id);
+    const handleExportCorners = (poly: KhasraData) => {
+        try {
+            exportKhasraData(buildExportEntries([poly]), 'corners', {
+                labelField, crs: selectedCRS, vertexNaming, fileName: khasraTitle(poly.id)
+            });
+        } catch (error) {
+            console.error('Corner export error:', error);
+            alert('Failed to export the corner coordinates.');
         }
+    };
 
-        setSelectedPolyIds(nextIds);
-
-        // Lazily calculate stats if not already present (or if we want to force re-calc)
-        const polyIdx = mapData.polygons.findIndex(p => p.id === id);
-        if (polyIdx !== -1) {
-            const poly = mapData.polygons[polyIdx];
-            // Calculate if toggle off (force) or if stats missing
-            if (!toggle || !isSelected) {
-                const area = calculateProjectedArea(poly.feature, selectedCRS);
-                const stats = calculateKanalMarla(area);
-                const dimensions = calculateDimensions(poly.feature, selectedCRS);
-
-                setMapData(prev => {
-                    if (!prev) return null;
-                    const newPolys = [...prev.polygons];
-                    newPolys[polyIdx] = { ...poly, stats, dimensions };
-                    return { ...prev, polygons: newPolys };
-                });
-            }
+    // Exports the selection, or the whole layer when nothing is selected
+    const handleExportData = (format: DataExportFormat) => {
+        if (!mapData) return;
+        const selected = mapData.polygons.filter(p => selectedPolyIds.includes(p.id));
+        setIsExporting(true);
+        try {
+            const entries = buildExportEntries(selected.length > 0 ? selected : mapData.polygons);
+            exportKhasraData(entries, format, { labelField, units: unitSystem, crs: selectedCRS, vertexNaming, fileName: activeLayer?.name });
+        } catch (error) {
+            console.error('Data export error:', error);
+            alert('Failed to export the khasra data.');
+        } finally {
+            setIsExporting(false);
         }
     };
 
-    // Re-calculate stats when CRS changes for ALL selected polygons
-    React.useEffect(() => {
-        if (selectedPolyIds.length > 0 && mapData) {
-            selectedPolyIds.forEach(id => {
-                handleSelectKhasra(id, false); // force re-calc without toggling
+    const refreshRecentProjects = () => {
+        listProjects()
+            .then(setRecentProjects)
+            .catch(error => console.error('Could not list saved projects:', error));
+    };
+    useEffect(refreshRecentProjects, []);
+
+    // Oldest layer names the project
+    const buildProject = (id: string): Project<SavedLayer> => ({
+        id,
+        name: layers[layers.length - 1]?.name ?? 'Untitled project',
+        savedAt: new Date().toISOString(),
+        layers: layers.map(toSavedLayer),
+        activeLayerId,
+        settings: { selectedCRS, measurementMode, elevation, unitSystem, baseLayer },
+        customProjections: listProjections().filter(p => p.group === 'Custom'),
+    });
+
+    const saveRef = useRef<() => void>(() => {});
+    useEffect(() => {
+        saveRef.current = () => {
+            if (!projectId || layers.length === 0) return;
+            saveProject(buildProject(projectId))
+                .then(refreshRecentProjects)
+                .catch(error => console.error('Could not save the project:', error));
+        };
+    });
+    useEffect(() => {
+        if (!projectId || layers.length === 0) return;
+        const timer = setTimeout(() => saveRef.current(), AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [projectId, layers, activeLayerId, selectedCRS, measurementMode, elevation, unitSystem, baseLayer]);
+
+    const openProject = (project: Project<SavedLayer>) => {
+        project.customProjections.forEach(p => {
+            try {
+                registerProjection(p);
+            } catch (error) {
+                console.warn('Skipping saved projection:', error);
+            }
+        });
+        const restored = project.layers.map(fromSavedLayer);
+        layerCounter.current = Math.max(0, ...restored.map(l => Number(l.id.replace('layer-', '')) || 0));
+        setLayers(restored);
+        activateLayer(project.activeLayerId ?? restored[0]?.id ?? null);
+        setSelectedCRS(project.settings.selectedCRS);
+        setMeasurementMode(project.settings.measurementMode);
+        setElevation(project.settings.elevation);
+        setUnitSystem(project.settings.unitSystem);
+        setBaseLayer(project.settings.baseLayer);
+        setProjectId(project.id);
+        setIsAddingLayer(false);
+        setEditSession(null);
+        setTaqseem(null);
+        setFieldBook(null);
+        setFileVersion(v => v + 1);
+    };
+
+    const handleOpenProject = (id: string) => {
+        loadProject<SavedLayer>(id)
+            .then(openProject)
+            .catch(error => {
+                console.error('Could not open the project:', error);
+                alert('Could not open the project.');
+                refreshRecentProjects();
             });
-        }
-    }, [selectedCRS]);
+    };
+
+    const handleDeleteProject = (id: string) => {
+        if (!confirm('Delete this saved project?')) return;
+        deleteProject(id)
+            .then(refreshRecentProjects)
+            .catch(error => console.error('Could not delete the project:', error));
+    };
+
+    const handleImportProject = (file: File) => {
+        importProjectFile<SavedLayer>(file)
+            .then(project => saveProject(project).then(() => {
+                openProject(project);
+                refreshRecentProjects();
+            }))
+            .catch(error => {
+                console.error('Project import error:', error);
+                alert(error instanceof Error ? error.message : 'Could not import the project.');
+            });
+    };
+
+    const handleExportProject = () => {
+        if (projectId) exportProjectFile(buildProject(projectId));
+    };
+
+    const labelOf = (layer: KhasraLayer, polyId: string) =>
+        String(layer.data.polygons.find(p => p.id === polyId)?.feature.properties?.[layer.labelField] ?? '');
+
+    /**
+     * Restores a shared view once its data is loaded: the linked layer by name or, failing that, the first
+     * layer holding one of the linked khasras.
+     */
+    const applyLinkedView = (link: ViewLink) => {
+        const fieldFor = (layer: KhasraLayer) =>
+            (link.labelField && layer.data.availableFields.includes(link.labelField) ? link.labelField : layer.labelField);
+        const holdsKhasras = (layer: KhasraLayer) =>
+            layer.data.polygons.some(p => link.khasras.includes(String(p.feature.properties?.[fieldFor(layer)] ?? '')));
+        const layer = layers.find(l => l.name === link.layer)
+            ?? layers.find(holdsKhasras)
+            ?? (!link.layer && link.khasras.length === 0 ? layers[0] : undefined);
+        if (!layer) return;
+
+        const labelField = fieldFor(layer);
+        updateLayer(layer.id, () => ({ labelField, selectedPolyIds: [] }));
+        activateLayer(layer.id);
+        layer.data.polygons
+            .filter(p => link.khasras.includes(String(p.feature.properties?.[labelField] ?? '')))
+            .forEach(p => handleSelectKhasra(p.id, false, layer.id));
+        if (link.crs && (link.crs === AUTO_CRS || listProjections().some(p => p.id === link.crs))) setSelectedCRS(link.crs);
+        if (link.baseLayer) setBaseLayer(link.baseLayer);
+        const view = link.view;
+        if (view) setViewRequest(prev => ({ ...view, seq: (prev?.seq ?? 0) + 1 }));
+        setPendingLink(null);
+    };
+
+    // Tried again whenever layers are loaded, so the link is matched against the layers as they are now.
+    // Read through a ref so the effect runs on layer changes only.
+    const linkRef = useRef<(link: ViewLink) => void>(() => {});
+    useEffect(() => {
+        linkRef.current = applyLinkedView;
+    });
+    useEffect(() => {
+        if (pendingLink && layers.length > 0) linkRef.current(pendingLink);
+    }, [layers, pendingLink]);
+
+    const currentQuery = activeLayer ? encodeViewLink({
+        layer: activeLayer.name,
+        labelField,
+        khasras: selectedPolyIds.map(id => labelOf(activeLayer, id)).filter(Boolean),
+        view: mapView ?? undefined,
+        crs: selectedCRS,
+        baseLayer,
+    }) : '';
+
+    // Keep the address bar on the current view, ready to copy; a link still waiting for its data is left alone
+    useEffect(() => {
+        if (pendingLink) return;
+        window.history.replaceState(null, '', currentQuery ? `?${currentQuery}` : window.location.pathname);
+    }, [currentQuery, pendingLink]);
+
+    const handleCopyLink = () => {
+        const url = `${window.location.origin}${window.location.pathname}?${currentQuery}`;
+        navigator.clipboard.writeText(url)
+            .then(() => {
+                setLinkCopied(true);
+                setTimeout(() => setLinkCopied(false), 2000);
+            })
+            .catch(error => console.error('Could not copy the link:', error));
+    };
+
+    const linkNotice = pendingLink && (
+        <div className="w-full p-3 rounded-xl bg-amber-500/10 border border-amber-500/40 text-left space-y-1">
+            <p className="text-[10px] text-amber-300 flex items-center gap-1.5 font-bold uppercase tracking-wider">
+                <AlertTriangle className="w-3 h-3" /> Shared link
+            </p>
+            <p className="text-[10px] text-slate-300">
+                {pendingLink.khasras.length > 0 ? `Khasra ${pendingLink.khasras.join(', ')}` : 'A map view'}
+                {pendingLink.layer ? ` in ${pendingLink.layer}` : ''} opens once that data is loaded.
+            </p>
+            <button
+                onClick={() => setPendingLink(null)}
+                className="text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-white"
+            >
+                Dismiss
+            </button>
+        </div>
+    );
+
+    // Selected khasras of every layer are measured in the worker when they are selected and again whenever the CRS,
+    // measurement mode or unit system changes. Results for a khasra edited in the meantime are dropped.
+    const layersRef = useRef(layers);
+    useEffect(() => {
+        layersRef.current = layers;
+    });
+    const measuredWith = useRef(new WeakMap<object, string>());
+    const selectionKey = layers.map(l => `${l.id}:${l.selectedPolyIds.join(',')}`).join('|');
+    const measureKey = `${metricsKey}|${unitsKey}`;
+    useEffect(() => {
+        const targets = layersRef.current.flatMap(layer => layer.data.polygons
+            .filter(p => layer.selectedPolyIds.includes(p.id) && measuredWith.current.get(p.feature) !== measureKey)
+            .map(p => ({ key: `${layer.id}/${p.id}`, feature: p.feature as Feature })));
+        if (targets.length === 0) return;
+        const controller = new AbortController();
+        measureInWorker(
+            targets.map(t => t.feature), selectedCRS, { mode: measurementMode, elevation, units: unitSystem }, { signal: controller.signal }
+        )
+            .then(results => {
+                const measured: Record<string, { feature: Feature; result: ParcelMeasurement }> = {};
+                targets.forEach((t, i) => {
+                    measured[t.key] = { feature: t.feature, result: results[i] };
+                    measuredWith.current.set(t.feature, measureKey);
+                });
+                setLayers(prev => prev.map(layer => ({
+                    ...layer,
+                    data: {
+                        ...layer.data,
+                        polygons: layer.data.polygons.map(p => {
+                            const entry = measured[`${layer.id}/${p.id}`];
+                            return entry && entry.feature === p.feature ? { ...p, ...entry.result } : p;
+                        }),
+                    },
+                })));
+            })
+            .catch(error => {
+                if (!isCancelled(error)) console.error('Measuring error:', error);
+            });
+        return () => controller.abort();
+    }, [selectionKey, measureKey, selectedCRS, measurementMode, elevation, unitSystem]);
 
     return (
         <div className="flex flex-col h-screen bg-black text-slate-100 overflow-hidden font-sans">
@@ -136,22 +1079,25 @@ export default function Dashboard() {
                         </button>
                     </div>
 
-                    <div className="flex items-center gap-2 bg-slate-800/80 rounded-lg p-1 border border-slate-700">
-                        <div className="pl-2 flex items-center gap-1.5 text-slate-400">
-                            <Globe className="w-3.5 h-3.5" />
-                            <span className="text-[10px] font-bold uppercase tracking-wider">Projection</span>
-                        </div>
-                        <select
-                            value={selectedCRS}
-                            onChange={(e) => setSelectedCRS(e.target.value as CRS)}
-                            className="bg-slate-900 text-xs font-bold px-3 py-1.5 rounded-md border-none focus:ring-1 focus:ring-red-500 outline-none cursor-pointer"
+                    <ProjectionSelect key={projectId ?? 'none'} value={selectedCRS} onChange={setSelectedCRS} />
+                    <MeasurementModeSelect
+                        mode={measurementMode}
+                        elevation={elevation}
+                        onModeChange={setMeasurementMode}
+                        onElevationChange={setElevation}
+                    />
+                    <UnitSystemSelect value={unitSystem} onChange={setUnitSystem} />
+                    {activeLayer && (
+                        <button
+                            onClick={handleCopyLink}
+                            className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-slate-400 hover:text-white transition-colors"
+                            title="Copy a link to this view and selection"
                         >
-                            <option value="UTM42N">UTM Zone 42N</option>
-                            <option value="UTM43N">UTM Zone 43N</option>
-                        </select>
-                    </div>
+                            <Link2 className="w-4 h-4" /> {linkCopied ? 'Copied' : 'Share'}
+                        </button>
+                    )}
                     <button
-                        onClick={() => setMapData(null)}
+                        onClick={handleReset}
                         className="px-4 py-2 text-sm font-medium text-slate-400 hover:text-white transition-colors"
                     >
                         Reset
@@ -192,12 +1138,98 @@ export default function Dashboard() {
                 <aside className="w-80 border-r border-slate-800 bg-slate-900/30 flex flex-col">
                     <div className="p-6 flex-1 overflow-y-auto custom-scrollbar">
                         {!mapData ? (
-                            <div className="h-full flex flex-col items-center justify-center text-center opacity-60">
-                                <Info className="w-12 h-12 mb-4" />
-                                <p className="text-sm">Upload a zipped shapefile to see Khasra details, area in Kanal-Marla and side dimensions.</p>
+                            <div className="h-full flex flex-col items-center justify-center text-center gap-8">
+                                <div className="flex flex-col items-center opacity-60">
+                                    <Info className="w-12 h-12 mb-4" />
+                                    <p className="text-sm">Upload a shapefile, KML/KMZ, GeoJSON, GPX, DXF or GeoPackage to see Khasra details, area in Kanal-Marla and side dimensions.</p>
+                                </div>
+                                {linkNotice}
+                                <ProjectList
+                                    projects={recentProjects}
+                                    onOpen={handleOpenProject}
+                                    onDelete={handleDeleteProject}
+                                    onImport={handleImportProject}
+                                />
+                                {baseMapPanel}
                             </div>
                         ) : (
                             <div className="space-y-6">
+                                {linkNotice}
+                                <LayerManager
+                                    layers={layers}
+                                    activeLayerId={activeLayerId}
+                                    isAdding={isAddingLayer}
+                                    onActivate={activateLayer}
+                                    onChange={(id, patch) => updateLayer(id, () => patch)}
+                                    onMove={handleMoveLayer}
+                                    onRemove={handleRemoveLayer}
+                                    onToggleAdd={() => setIsAddingLayer(a => !a)}
+                                />
+                                {isAddingLayer && <FileUploader onProcessed={(geojson, prj, name, pipeline) => addLayer(geojson, { prj }, name, undefined, pipeline)} />}
+                                {source && <SourceCRSPanel key={activeLayerId} source={source} onChange={handleSourceCRSChange} />}
+                                {baseMapPanel}
+                                <SummaryPanel
+                                    key={activeLayerId}
+                                    polygons={mapData.polygons}
+                                    selectedPolyIds={selectedPolyIds}
+                                    labelField={labelField}
+                                    availableFields={mapData.availableFields}
+                                    metrics={layerMetrics}
+                                    unitSystem={unitSystem}
+                                />
+                                <ValidationPanel
+                                    key={`validation-${activeLayerId}`}
+                                    issues={validationIssues}
+                                    checking={isValidating}
+                                    selectedIssueId={selectedIssueId}
+                                    unitSystem={unitSystem}
+                                    titleOf={khasraTitle}
+                                    onShow={handleShowIssue}
+                                    onFix={(issue) => applyFixes([issue])}
+                                    onFixAll={() => applyFixes(validationIssues)}
+                                />
+                                {layers.length > 1 && (
+                                    <OverlayPanel
+                                        layers={layers.filter(l => l.id !== activeLayerId)}
+                                        overlayLayerId={overlayLayerId}
+                                        results={overlayResults}
+                                        unitSystem={unitSystem}
+                                        onOverlayChange={setOverlayLayerId}
+                                        onChoose={handleChooseKhasra}
+                                        onExport={handleExportSchedule}
+                                    />
+                                )}
+                                {taqseem && taqseemPoly && (
+                                    <PartitionPanel
+                                        key={`${taqseem.layerId}-${taqseem.polyId}`}
+                                        title={taqseemTitle}
+                                        feature={taqseemPoly.feature}
+                                        totalSqFt={measureParcel(taqseemPoly.feature, selectedCRS, { mode: measurementMode, elevation }).areaSqFt}
+                                        dimensions={taqseemPoly.dimensions ?? calculateDimensions(taqseemPoly.feature, selectedCRS, { mode: measurementMode, elevation, units: unitSystem })}
+                                        crs={selectedCRS}
+                                        measureOptions={{ mode: measurementMode, elevation }}
+                                        unitSystem={unitSystem}
+                                        pieces={taqseem.pieces}
+                                        onPiecesChange={(pieces) => setTaqseem({ ...taqseem, pieces })}
+                                        onAddLayer={handleAddTaqseemLayer}
+                                        onExport={handleExportTaqseem}
+                                        onClose={() => setTaqseem(null)}
+                                    />
+                                )}
+                                {fieldBook && fieldBookPoly && (
+                                    <FieldBookPanel
+                                        key={`${fieldBook.layerId}-${fieldBook.polyId}`}
+                                        title={String(fieldBookPoly.feature.properties?.[labelField] ?? `ID: ${fieldBookIdx + 1}`)}
+                                        digitisedSqFt={measureParcel(fieldBookPoly.feature, selectedCRS, { mode: measurementMode, elevation }).areaSqFt}
+                                        start={fieldBook.start}
+                                        isPicking={isPickingStart}
+                                        crs={selectedCRS}
+                                        unitSystem={unitSystem}
+                                        onPickStart={() => setIsPickingStart(!isPickingStart)}
+                                        onConstruct={handleFieldBookParcel}
+                                        onClose={handleCloseFieldBook}
+                                    />
+                                )}
                                 <div>
                                     <div className="flex items-center justify-between mb-4">
                                         <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
@@ -207,7 +1239,7 @@ export default function Dashboard() {
                                             <span className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">Label By:</span>
                                             <select
                                                 value={labelField}
-                                                onChange={(e) => setLabelField(e.target.value)}
+                                                onChange={(e) => activeLayer && updateLayer(activeLayer.id, () => ({ labelField: e.target.value }))}
                                                 className="bg-slate-800 text-[10px] text-slate-300 border border-slate-700 rounded px-1.5 py-1 outline-none focus:border-red-500 max-w-[100px]"
                                             >
                                                 {mapData.availableFields.map(f => (
@@ -216,27 +1248,126 @@ export default function Dashboard() {
                                             </select>
                                         </div>
                                     </div>
+                                    <KhasraListFilter
+                                        filter={listFilter}
+                                        onChange={handleListFilterChange}
+                                        onSubmit={() => filteredItems[0] && handleChooseKhasra(filteredItems[0].id)}
+                                        availableFields={mapData.availableFields}
+                                        properties={listItems.map(item => item.properties)}
+                                        unitSystem={unitSystem}
+                                        resultCount={filteredItems.length}
+                                        totalCount={mapData.polygons.length}
+                                    />
                                     <div className="space-y-3">
-                                        {mapData.polygons.map((poly, idx) => {
+                                        {filteredItems.slice(0, visibleCount).map(item => {
+                                            const idx = mapData.polygons.findIndex(p => p.id === item.id);
+                                            const poly = mapData.polygons[idx];
                                             const isSelected = selectedPolyIds.includes(poly.id);
                                             return (
                                                 <div
                                                     key={poly.id}
                                                     className={`p-4 rounded-xl bg-slate-800/50 border ${isSelected ? 'border-red-500' : 'border-slate-700/50'} hover:border-red-500/50 transition-all cursor-pointer group`}
-                                                    onClick={() => handleSelectKhasra(poly.id)}
+                                                    onClick={() => handleChooseKhasra(poly.id)}
                                                 >
                                                     <div className="flex justify-between items-start mb-2">
                                                         <span className="text-xs font-bold text-red-400">
                                                             {poly.feature.properties[labelField] || `ID: ${idx + 1}`}
                                                         </span>
-                                                        {poly.stats && <span className="text-[10px] text-slate-500">{poly.stats.areaSqFt.toLocaleString()} Sq Ft</span>}
+                                                        <div className="flex items-center gap-2">
+                                                            {poly.stats && <span className="text-[10px] text-slate-500">{formatSecondaryArea(poly.stats.areaSqFt, unitSystem)}</span>}
+                                                            {isSelected && (
+                                                                <button
+                                                                    onClick={(e) => { e.stopPropagation(); handleStartEditing(poly.id); }}
+                                                                    disabled={editSession?.polyId === poly.id && editSession.layerId === activeLayerId}
+                                                                    className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-cyan-400 disabled:text-cyan-400"
+                                                                    title="Edit vertices on the map"
+                                                                >
+                                                                    <PenLine className="w-3 h-3" /> {editSession?.polyId === poly.id && editSession.layerId === activeLayerId ? 'Editing' : 'Edit'}
+                                                                </button>
+                                                            )}
+                                                            {isSelected && (
+                                                                <button
+                                                                    onClick={(e) => { e.stopPropagation(); handleStartTaqseem(poly.id); }}
+                                                                    className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-violet-400"
+                                                                    title="Partition this khasra into shares"
+                                                                >
+                                                                    <Split className="w-3 h-3" /> Taqseem
+                                                                </button>
+                                                            )}
+                                                            {isSelected && (
+                                                                <button
+                                                                    onClick={(e) => { e.stopPropagation(); handleStartFieldBook(poly.id); }}
+                                                                    className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-emerald-400"
+                                                                    title="Check against field-book measurements"
+                                                                >
+                                                                    <BookOpen className="w-3 h-3" /> Field Book
+                                                                </button>
+                                                            )}
+                                                        </div>
                                                     </div>
                                                     <div className="text-lg font-bold text-white group-hover:text-red-400 transition-colors">
-                                                        {poly.stats ? poly.stats.label : 'Click to select'}
+                                                        {poly.stats ? poly.stats.label : isSelected ? 'Measuring…' : 'Click to select'}
                                                     </div>
+                                                    {poly.stats?.parts && (poly.stats.parts.length > 1 || poly.stats.parts.some(p => p.holesSqMeters.length > 0)) && (
+                                                        <div className="mt-2 pt-2 border-t border-slate-700/50 space-y-0.5">
+                                                            {poly.stats.parts.map(part => (
+                                                                <React.Fragment key={part.part}>
+                                                                    <div className="flex justify-between text-[10px] text-slate-300">
+                                                                        <span>{describeRing(part.part, 0, poly.stats!.parts!.length)}</span>
+                                                                        <span>{calculateKanalMarla(part.outerSqMeters, unitSystem).label}</span>
+                                                                    </div>
+                                                                    {part.holesSqMeters.map((hole, h) => (
+                                                                        <div key={h} className="flex justify-between text-[10px] text-amber-300/80 pl-2">
+                                                                            <span>{describeRing(part.part, h + 1, poly.stats!.parts!.length)}</span>
+                                                                            <span>− {calculateKanalMarla(hole, unitSystem).label}</span>
+                                                                        </div>
+                                                                    ))}
+                                                                </React.Fragment>
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                    {isSelected && poly.comparison && (
+                                                        <MeasurementComparison comparison={poly.comparison} activeMode={measurementMode} />
+                                                    )}
+                                                    {isSelected && poly.dimensions && (
+                                                        <BoundaryPanel
+                                                            poly={poly}
+                                                            polygons={mapData.polygons}
+                                                            unitSystem={unitSystem}
+                                                            titleOf={khasraTitle}
+                                                            onSelect={handleChooseKhasra}
+                                                        />
+                                                    )}
+                                                    {isSelected && (
+                                                        <VertexTablePanel
+                                                            poly={poly}
+                                                            crs={poly.stats?.crs?.id ?? selectedCRS}
+                                                            naming={vertexNaming}
+                                                            onNamingChange={setVertexNaming}
+                                                            onExport={() => handleExportCorners(poly)}
+                                                        />
+                                                    )}
+                                                    {poly.stats?.crs && (
+                                                        <div className="mt-1 text-[9px] text-slate-500 uppercase tracking-wider">
+                                                            {poly.stats.mode && poly.stats.mode !== 'projected'
+                                                                ? MEASUREMENT_MODES.find(m => m.id === poly.stats!.mode)?.name
+                                                                : `${poly.stats.crs.name}${poly.stats.crs.auto ? ' · auto' : ''}`}
+                                                        </div>
+                                                    )}
                                                 </div>
                                             );
                                         })}
+                                        {filteredItems.length > visibleCount && (
+                                            <button
+                                                onClick={() => setVisibleCount(c => c + LIST_PAGE_SIZE)}
+                                                className="w-full py-2 text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-white border border-slate-700/50 rounded-xl"
+                                            >
+                                                Show more ({(filteredItems.length - visibleCount).toLocaleString()} left)
+                                            </button>
+                                        )}
+                                        {filteredItems.length === 0 && (
+                                            <p className="text-xs text-slate-500 text-center py-4">No khasras match the current filters.</p>
+                                        )}
                                     </div>
                                 </div>
                             </div>
@@ -244,11 +1375,28 @@ export default function Dashboard() {
                     </div>
 
                     <div className="p-6 border-t border-slate-800">
-                        {!mapData && <FileUploader onProcessed={handleFileProcessed} />}
+                        {!mapData && <FileUploader onProcessed={(geojson, prj, name, pipeline) => addLayer(geojson, { prj }, name, undefined, pipeline)} />}
                         {mapData && (
                             <div className="flex flex-col gap-2">
-                                <button className="w-full py-3 bg-red-600 hover:bg-red-500 rounded-xl font-bold transition-all shadow-lg shadow-red-900/20">
-                                    Export Report
+                                <button
+                                    onClick={handleExportReport}
+                                    disabled={isExporting}
+                                    className="w-full py-3 bg-red-600 hover:bg-red-500 disabled:opacity-50 rounded-xl font-bold transition-all shadow-lg shadow-red-900/20"
+                                >
+                                    {isExporting ? 'Generating PDF...' : `Export Report${selectedPolyIds.length > 0 ? ` (${selectedPolyIds.length})` : ''}`}
+                                </button>
+                                <ExportDataMenu
+                                    count={selectedPolyIds.length > 0 ? selectedPolyIds.length : mapData.polygons.length}
+                                    scopeLabel={selectedPolyIds.length > 0 ? 'selected' : 'all'}
+                                    disabled={isExporting}
+                                    onExport={handleExportData}
+                                />
+                                <button
+                                    onClick={handleExportProject}
+                                    className="w-full py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-xl text-xs font-bold transition-all"
+                                    title="Save the whole session as a file a colleague can import"
+                                >
+                                    Export Project
                                 </button>
                             </div>
                         )}
@@ -264,23 +1412,101 @@ export default function Dashboard() {
 
                 {/* Map Area */}
                 <section className="flex-1 relative bg-slate-950">
-                    {!mapData && (
+                    {!mapData && rasters.length === 0 && (
                         <div className="absolute inset-0 flex items-center justify-center z-10">
                             <div className="max-w-md text-center">
                                 <h2 className="text-3xl font-bold mb-4">Start by uploading your data</h2>
-                                <p className="text-slate-400 mb-8">Drop your .zip shapefile folder containing .shp, .dbf, and .shx files.</p>
+                                <p className="text-slate-400 mb-8">Drop a zipped shapefile (.shp, .dbf, .shx, .prj), Google Earth KML/KMZ, GeoJSON, GPX, AutoCAD DXF or GeoPackage.</p>
                             </div>
                         </div>
                     )}
+                    <div className="absolute top-4 left-4 z-[1000]">
+                        <DrawToolbar
+                            key={unitSystem.id}
+                            tool={drawTool}
+                            rectangle={rectangle}
+                            unitSystem={unitSystem}
+                            summary={drawnShape ? drawing.measure(drawnShape).summary : null}
+                            canSave={drawnShape?.geometry.type === 'Polygon'}
+                            activeLayerName={activeLayer?.name ?? null}
+                            fields={mapData?.availableFields ?? []}
+                            onToolChange={handleDrawToolChange}
+                            onRectangleChange={setRectangle}
+                            onClear={() => handleDrawToolChange(null)}
+                            onSave={handleSaveDrawn}
+                        />
+                    </div>
+                    {georeference && (
+                        <div className="absolute top-4 right-4 bottom-4 z-[1000] flex items-start">
+                            <GeoreferencePanel
+                                key={georeference.url}
+                                session={georeference}
+                                onChange={setGeoreference}
+                                onPlace={(raster) => { handleAddRaster(raster); closeGeoreference(); }}
+                                onClose={closeGeoreference}
+                            />
+                        </div>
+                    )}
+                    {vertexEditing && editSession && (
+                        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] px-4 py-2 bg-slate-900/95 border border-cyan-500/50 rounded-xl shadow-2xl flex items-center gap-3">
+                            <div className="flex flex-col">
+                                <span className="text-xs font-bold text-cyan-400">
+                                    Editing {String(vertexEditing.feature.properties?.[editedLayer?.labelField ?? ''] ?? 'khasra')}
+                                </span>
+                                <span className="text-[9px] text-slate-500">Drag a vertex · drag or click a midpoint to add · right-click a vertex to delete</span>
+                            </div>
+                            <button
+                                onClick={() => stepEditHistory(-1)}
+                                disabled={editSession.index === 0}
+                                className="p-1.5 rounded-md text-slate-300 hover:bg-slate-800 disabled:opacity-30"
+                                title="Undo (Ctrl+Z)"
+                            >
+                                <Undo2 className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => stepEditHistory(1)}
+                                disabled={editSession.index === editSession.history.length - 1}
+                                className="p-1.5 rounded-md text-slate-300 hover:bg-slate-800 disabled:opacity-30"
+                                title="Redo (Ctrl+Y)"
+                            >
+                                <Redo2 className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => setSnapping(s => !s)}
+                                className={`p-1.5 rounded-md hover:bg-slate-800 ${snapping ? 'text-cyan-400' : 'text-slate-500'}`}
+                                title={snapping ? 'Snapping to neighbouring vertices is on' : 'Snapping is off'}
+                            >
+                                <Magnet className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => setEditSession(null)}
+                                className="px-3 py-1.5 bg-cyan-600 hover:bg-cyan-500 rounded-md text-[10px] font-bold uppercase tracking-wider"
+                            >
+                                Done
+                            </button>
+                        </div>
+                    )}
                     <div className="w-full h-full relative">
                         {/* @ts-ignore */}
                         <Map
-                            data={mapData}
-                            selectedPolyIds={selectedPolyIds}
-                            labelField={labelField}
+                            layers={layers}
+                            activeLayerId={activeLayerId}
+                            overlayResults={overlayResults ?? NO_OVERLAY}
+                            editing={vertexEditing}
+                            partitionPieces={taqseem?.pieces ?? NO_PIECES}
+                            drawing={drawing}
+                            onPickPoint={isPickingStart ? handlePickStart : null}
+                            issueLocation={selectedIssue?.location ?? null}
                             baseLayer={baseLayer}
+                            rasters={rasters}
+                            controlPoints={controlPointPicking}
                             fileVersion={fileVersion}
-                            onSelect={handleSelectKhasra}
+                            unitSystem={unitSystem}
+                            vertexNaming={vertexNaming}
+                            focusRequest={focusRequest}
+                            viewRequest={viewRequest}
+                            onViewChange={setMapView}
+                            onSelect={handleMapSelect}
                         />
                     </div>
                 </section>
@@ -0,0 +1,188 @@
+"use client";
+
+import React, { useState } from 'react';
+import { PencilRuler, Plus, Save, Trash2, X } from 'lucide-react';
+import { DRAW_TOOLS, DrawTool } from '@/lib/measure-tools';
+import { UnitSystem, joinLength, splitLength } from '@/lib/units';
+import LengthInput from './LengthInput';
+
+export interface RectangleSpec {
+    lengthMeters: number;
+    widthMeters: number;
+    bearing: number; // Degrees clockwise from grid north
+}
+
+export type SaveTarget = 'active' | 'new';
+
+interface DrawToolbarProps {
+    tool: DrawTool | null;
+    rectangle: RectangleSpec;
+    unitSystem: UnitSystem;
+    summary: string | null; // Measurement of the finished shape
+    canSave: boolean; // The finished shape is a polygon
+    activeLayerName: string | null;
+    fields: string[]; // Attributes of the active layer, offered first when saving
+    onToolChange: (tool: DrawTool | null) => void;
+    onRectangleChange: (rectangle: RectangleSpec) => void;
+    onClear: () => void;
+    onSave: (properties: Record<string, string>, target: SaveTarget) => void;
+}
+
+const inputClass = 'bg-slate-800 text-[10px] text-slate-300 border border-slate-700 rounded px-1.5 py-1 outline-none focus:border-emerald-500';
+
+/**
+ * Map toolbar for measuring distances and areas, placing a rectangle of given size and saving drawn parcels.
+ */
+export default function DrawToolbar({
+    tool, rectangle, unitSystem, summary, canSave, activeLayerName, fields, onToolChange, onRectangleChange, onClear, onSave
+}: DrawToolbarProps) {
+    const [length, setLength] = useState(() => splitLength(rectangle.lengthMeters, unitSystem));
+    const [width, setWidth] = useState(() => splitLength(rectangle.widthMeters, unitSystem));
+    const [bearing, setBearing] = useState(String(rectangle.bearing));
+    const [isSaving, setIsSaving] = useState(false);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [custom, setCustom] = useState<[string, string][]>([]);
+    const [target, setTarget] = useState<SaveTarget>(activeLayerName ? 'active' : 'new');
+
+    const updateRectangle = (nextLength: [string, string], nextWidth: [string, string], nextBearing: string) => {
+        setLength(nextLength);
+        setWidth(nextWidth);
+        setBearing(nextBearing);
+        onRectangleChange({
+            lengthMeters: joinLength(nextLength, unitSystem),
+            widthMeters: joinLength(nextWidth, unitSystem),
+            bearing: Number(nextBearing) || 0,
+        });
+    };
+
+    const handleSave = () => {
+        const properties: Record<string, string> = {};
+        (target === 'active' ? fields : []).forEach(field => {
+            properties[field] = values[field] ?? '';
+        });
+        custom.forEach(([key, value]) => {
+            if (key.trim()) properties[key.trim()] = value;
+        });
+        onSave(properties, target);
+        setIsSaving(false);
+        setValues({});
+        setCustom([]);
+    };
+
+    return (
+        <div className="w-72 p-3 bg-slate-900/95 border border-slate-700 rounded-xl shadow-2xl space-y-2">
+            <div className="flex items-center gap-2">
+                <PencilRuler className="w-4 h-4 text-emerald-400" />
+                <div className="flex flex-1 items-center gap-1 bg-slate-800/80 rounded-md p-0.5">
+                    {DRAW_TOOLS.map(t => (
+                        <button
+                            key={t.id}
+                            onClick={() => onToolChange(tool === t.id ? null : t.id)}
+                            className={`flex-1 px-1.5 py-1 rounded text-[9px] font-bold uppercase tracking-wider transition-all ${tool === t.id ? 'bg-slate-900 text-emerald-400 shadow-inner' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {t.id === 'line' ? 'Distance' : t.id === 'polygon' ? 'Area' : 'Rectangle'}
+                        </button>
+                    ))}
+                </div>
+                {(tool || summary) && (
+                    <button onClick={onClear} className="p-1 text-slate-400 hover:text-white" title="Clear and stop drawing">
+                        <X className="w-3.5 h-3.5" />
+                    </button>
+                )}
+            </div>
+
+            {tool === 'rectangle' && (
+                <div className="space-y-1 text-[10px] text-slate-400">
+                    <div className="flex items-center justify-between">
+                        <span>Length</span>
+                        <LengthInput value={length} unitSystem={unitSystem} onChange={parts => updateRectangle(parts, width, bearing)} className={inputClass} />
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <span>Width</span>
+                        <LengthInput value={width} unitSystem={unitSystem} onChange={parts => updateRectangle(length, parts, bearing)} className={inputClass} />
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <span>Bearing (° from north)</span>
+                        <input
+                            type="number" value={bearing}
+                            onChange={(e) => updateRectangle(length, width, e.target.value)}
+                            className={`${inputClass} w-12`}
+                        />
+                    </div>
+                    <p className="text-[9px] text-slate-500">Click the map to place the first corner.</p>
+                </div>
+            )}
+            {(tool === 'line' || tool === 'polygon') && !summary && (
+                <p className="text-[9px] text-slate-500">Click to add points · double-click or Enter to finish · Backspace undoes a point</p>
+            )}
+
+            {summary && (
+                <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-bold text-emerald-400">{summary}</span>
+                    {canSave && !isSaving && (
+                        <button
+                            onClick={() => setIsSaving(true)}
+                            className="flex items-center gap-1 px-2 py-1 bg-emerald-600 hover:bg-emerald-500 rounded text-[9px] font-bold uppercase tracking-wider whitespace-nowrap"
+                        >
+                            <Save className="w-3 h-3" /> Save as Khasra
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {isSaving && (
+                <div className="pt-2 border-t border-slate-800 space-y-1.5">
+                    <select value={target} onChange={(e) => setTarget(e.target.value as SaveTarget)} className={`${inputClass} w-full`}>
+                        {activeLayerName && <option value="active">Add to {activeLayerName}</option>}
+                        <option value="new">New layer (Drawn parcels)</option>
+                    </select>
+                    <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+                        {target === 'active' && fields.map(field => (
+                            <div key={field} className="flex items-center gap-1">
+                                <span className="w-20 text-[10px] text-slate-400 truncate" title={field}>{field}</span>
+                                <input
+                                    value={values[field] ?? ''}
+                                    onChange={(e) => setValues({ ...values, [field]: e.target.value })}
+                                    className={`${inputClass} flex-1`}
+                                />
+                            </div>
+                        ))}
+                        {custom.map(([key, value], i) => (
+                            <div key={i} className="flex items-center gap-1">
+                                <input
+                                    value={key} placeholder="Attribute"
+                                    onChange={(e) => setCustom(custom.map((c, j) => (j === i ? [e.target.value, c[1]] : c)))}
+                                    className={`${inputClass} w-20`}
+                                />
+                                <input
+                                    value={value} placeholder="Value"
+                                    onChange={(e) => setCustom(custom.map((c, j) => (j === i ? [c[0], e.target.value] : c)))}
+                                    className={`${inputClass} flex-1`}
+                                />
+                                <button onClick={() => setCustom(custom.filter((_, j) => j !== i))} className="p-1 text-slate-500 hover:text-red-400">
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <button
+                            onClick={() => setCustom([...custom, ['', '']])}
+                            className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-white"
+                        >
+                            <Plus className="w-3 h-3" /> Attribute
+                        </button>
+                        <div className="flex items-center gap-1">
+                            <button onClick={() => setIsSaving(false)} className="px-2 py-1 text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-white">
+                                Cancel
+                            </button>
+                            <button onClick={handleSave} className="px-2 py-1 bg-emerald-600 hover:bg-emerald-500 rounded text-[9px] font-bold uppercase tracking-wider">
+                                Save
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
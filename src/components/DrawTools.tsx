@@ -0,0 +1,122 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { CircleMarker, Marker, Polygon, Polyline, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import type { Position } from 'geojson';
+import { DrawingState } from './Dashboard';
+import { getPolygonParts } from '@/lib/geo-utils';
+import { DrawnShape, shapeFromPoints } from '@/lib/measure-tools';
+
+// Clicks this close (screen pixels) to the first point close the polygon; closer ones to the last point are ignored
+const CLOSE_PIXELS = 10;
+
+const labelIcon = (text: string, main: boolean) => L.divIcon({
+    className: 'custom-div-icon',
+    html: `
+        <div class="flex flex-col items-center pointer-events-none">
+          <span class="${main
+            ? 'px-2 py-0.5 bg-emerald-600/95 text-white font-bold text-xs'
+            : 'px-1 py-0 bg-black/85 border border-emerald-400/50 text-emerald-100 text-[9px] font-semibold'} rounded whitespace-nowrap">
+            ${text}
+          </span>
+        </div>
+      `,
+    iconSize: L.point(0, 0),
+});
+
+const toLatLng = (position: Position): [number, number] => [position[1], position[0]];
+
+/**
+ * Click-to-draw measuring: lines and polygons take a point per click and finish on double-click, Enter, or
+ * (polygons) a click on the first point; Backspace drops the last point and Escape starts over.
+ * A rectangle of the configured size is placed with its first corner at the click.
+ */
+export default function DrawTools({ drawing }: { drawing: DrawingState }) {
+    const map = useMap();
+    const [points, setPoints] = useState<Position[]>([]);
+    const [hover, setHover] = useState<Position | null>(null);
+    const { tool } = drawing;
+
+    useEffect(() => {
+        if (!tool) return;
+        const container = map.getContainer();
+        map.doubleClickZoom.disable();
+        container.style.cursor = 'crosshair';
+        return () => {
+            map.doubleClickZoom.enable();
+            container.style.cursor = '';
+        };
+    }, [tool, map]);
+
+    const pixelDistance = (a: Position, b: Position) =>
+        map.latLngToContainerPoint(toLatLng(a)).distanceTo(map.latLngToContainerPoint(toLatLng(b)));
+
+    const finish = (clicked: Position[]) => {
+        if (tool !== 'line' && tool !== 'polygon') return;
+        const shape = shapeFromPoints(tool, clicked);
+        if (shape) {
+            drawing.onShape(shape);
+            setPoints([]);
+        }
+    };
+
+    useMapEvents({
+        click: (e) => {
+            if (!tool) return;
+            const position: Position = [e.latlng.lng, e.latlng.lat];
+            if (tool === 'rectangle') {
+                drawing.onShape(drawing.buildRectangle(position));
+                return;
+            }
+            if (points.length === 0 && drawing.shape) drawing.onShape(null); // Starting a new measurement
+            if (tool === 'polygon' && points.length >= 3 && pixelDistance(position, points[0]) < CLOSE_PIXELS) {
+                finish(points);
+                return;
+            }
+            // The two clicks of a double-click land on the same spot
+            if (points.length > 0 && pixelDistance(position, points[points.length - 1]) < CLOSE_PIXELS) return;
+            setPoints([...points, position]);
+        },
+        dblclick: () => finish(points),
+        mousemove: (e) => {
+            if (tool) setHover([e.latlng.lng, e.latlng.lat]);
+        },
+        keydown: (e) => {
+            const key = e.originalEvent.key;
+            if (key === 'Escape') setPoints([]);
+            else if (key === 'Enter') finish(points);
+            else if (key === 'Backspace') setPoints(points.slice(0, -1));
+        },
+    });
+
+    let preview: DrawnShape | null = null;
+    if (tool === 'rectangle' && hover) {
+        preview = drawing.buildRectangle(hover);
+    } else if ((tool === 'line' || tool === 'polygon') && points.length > 0) {
+        const withHover = hover ? [...points, hover] : points;
+        preview = shapeFromPoints(tool, withHover) ?? shapeFromPoints('line', withHover);
+    }
+
+    const shape = preview ?? drawing.shape;
+    if (!shape) return null;
+    const measurement = drawing.measure(shape);
+    const style = { color: '#10b981', weight: 2, dashArray: preview ? '5 5' : undefined, fillColor: '#10b981', fillOpacity: 0.15 };
+
+    return (
+        <>
+            {shape.geometry.type === 'LineString'
+                ? <Polyline positions={shape.geometry.coordinates.map(toLatLng)} pathOptions={style} interactive={false} />
+                : <Polygon positions={getPolygonParts(shape)[0].map(ring => ring.map(toLatLng))} pathOptions={style} interactive={false} />}
+
+            {points.map((p, i) => (
+                <CircleMarker key={`pt-${i}`} center={toLatLng(p)} radius={4} pathOptions={{ color: '#fff', weight: 1.5, fillColor: '#10b981', fillOpacity: 1 }} interactive={false} />
+            ))}
+
+            {measurement.dimensions.map((d, i) => (
+                <Marker key={`draw-dim-${i}`} position={toLatLng(d.point)} icon={labelIcon(d.label, false)} interactive={false} />
+            ))}
+            <Marker position={toLatLng(measurement.anchor)} icon={labelIcon(measurement.summary, true)} interactive={false} />
+        </>
+    );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { DATA_EXPORT_FORMATS, DataExportFormat } from '@/lib/data-export';
+
+interface ExportDataMenuProps {
+    count: number; // Khasras that will be exported
+    scopeLabel: string;
+    disabled?: boolean;
+    onExport: (format: DataExportFormat) => void;
+}
+
+/**
+ * Dropdown of table / GIS download formats for the computed khasra figures.
+ */
+export default function ExportDataMenu({ count, scopeLabel, disabled, onExport }: ExportDataMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(v => !v)}
+                disabled={disabled}
+                className="w-full py-2.5 flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 border border-slate-700 rounded-xl text-sm font-bold transition-all"
+            >
+                <Download className="w-4 h-4" />
+                Export Data ({count} {scopeLabel})
+            </button>
+            {isOpen && (
+                <div className="absolute bottom-full left-0 right-0 mb-2 p-1 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-[1000]">
+                    {DATA_EXPORT_FORMATS.map(f => (
+                        <button
+                            key={f.id}
+                            onClick={() => { setIsOpen(false); onExport(f.id); }}
+                            className="w-full text-left px-3 py-2 rounded-lg text-xs text-slate-300 hover:bg-slate-800 hover:text-white"
+                        >
+                            {f.name}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import React, { useState } from 'react';
+import { AlertTriangle, BookOpen, CheckCircle, Crosshair, Plus, X } from 'lucide-react';
+import type { Feature, Polygon, Position } from 'geojson';
+import LengthInput from './LengthInput';
+import { CRS, formatKaramFeet } from '@/lib/geo-utils';
+import {
+    FIELD_BOOK_METHODS, FieldBookMethod, FieldBookParcel, compareAreas, parcelFromTraverse, parcelFromTriangles,
+} from '@/lib/field-book';
+import { UnitSystem, formatArea, joinLength } from '@/lib/units';
+
+interface FieldBookPanelProps {
+    title: string;
+    digitisedSqFt: number;
+    start: Position; // [lng, lat] of the first corner
+    isPicking: boolean;
+    crs: CRS;
+    unitSystem: UnitSystem;
+    onPickStart: () => void;
+    onConstruct: (feature: Feature<Polygon>) => void;
+    onClose: () => void;
+}
+
+interface LegRow {
+    bearing: string;
+    length: [string, string];
+}
+
+const BLANK: [string, string] = ['', ''];
+const TRIANGLE_LABELS = ['AB', 'BC', 'CD', 'DA', 'Wattar AC'];
+
+const inputClass = 'bg-slate-800 text-[10px] text-slate-300 border border-slate-700 rounded px-1.5 py-1 outline-none focus:border-emerald-500';
+
+/**
+ * Builds a parcel from field-book measurements, reports how well it closes and compares its area
+ * with the digitised khasra.
+ */
+export default function FieldBookPanel({
+    title, digitisedSqFt, start, isPicking, crs, unitSystem, onPickStart, onConstruct, onClose
+}: FieldBookPanelProps) {
+    const [method, setMethod] = useState<FieldBookMethod>('traverse');
+    const [legs, setLegs] = useState<LegRow[]>(() => [0, 90, 180, 270].map(b => ({ bearing: String(b), length: BLANK })));
+    const [triangle, setTriangle] = useState<[string, string][]>(() => TRIANGLE_LABELS.map(() => BLANK));
+    const [firstBearing, setFirstBearing] = useState('0');
+    const [parcel, setParcel] = useState<FieldBookParcel | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const updateLeg = (index: number, patch: Partial<LegRow>) => {
+        setLegs(prev => prev.map((leg, i) => (i === index ? { ...leg, ...patch } : leg)));
+    };
+
+    const handleConstruct = () => {
+        try {
+            const result = method === 'traverse'
+                ? parcelFromTraverse(start, legs.map(leg => ({
+                    bearing: Number(leg.bearing) || 0,
+                    distanceMeters: joinLength(leg.length, unitSystem),
+                })), crs)
+                : parcelFromTriangles(start, {
+                    sidesMeters: triangle.slice(0, 4).map(side => joinLength(side, unitSystem)) as [number, number, number, number],
+                    diagonalMeters: joinLength(triangle[4], unitSystem),
+                    bearing: Number(firstBearing) || 0,
+                }, crs);
+            setParcel(result);
+            setError(null);
+            onConstruct(result.feature);
+        } catch (err) {
+            console.error('Field book error:', err);
+            setParcel(null);
+            setError(err instanceof Error ? err.message : 'Could not build the parcel.');
+        }
+    };
+
+    const comparison = parcel ? compareAreas(parcel.areaSqFt, digitisedSqFt) : null;
+
+    return (
+        <div className="p-4 rounded-xl bg-slate-800/30 border border-emerald-500/40 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                    <BookOpen className="w-4 h-4" /> Field Book · <span className="text-emerald-400 normal-case">{title}</span>
+                </h3>
+                <button onClick={onClose} className="p-1 text-slate-400 hover:text-white" title="Close">
+                    <X className="w-3.5 h-3.5" />
+                </button>
+            </div>
+
+            <div className="flex items-center gap-1 bg-slate-900/60 rounded-md p-0.5">
+                {FIELD_BOOK_METHODS.map(m => (
+                    <button
+                        key={m.id}
+                        onClick={() => setMethod(m.id)}
+                        className={`flex-1 px-2 py-1 rounded text-[9px] font-bold uppercase tracking-wider transition-all ${method === m.id ? 'bg-slate-800 text-emerald-400' : 'text-slate-400 hover:text-white'}`}
+                    >
+                        {m.name}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex items-center justify-between gap-2 text-[10px] text-slate-400">
+                <span>Start {start[1].toFixed(6)}, {start[0].toFixed(6)}</span>
+                <button
+                    onClick={onPickStart}
+                    className={`flex items-center gap-1 text-[9px] font-bold uppercase tracking-wider ${isPicking ? 'text-emerald-400' : 'text-slate-400 hover:text-white'}`}
+                    title="Click the map to choose the first corner"
+                >
+                    <Crosshair className="w-3 h-3" /> {isPicking ? 'Click the map…' : 'Pick on map'}
+                </button>
+            </div>
+
+            {method === 'traverse' ? (
+                <div className="space-y-1.5">
+                    {legs.map((leg, index) => (
+                        <div key={index} className="flex items-center gap-1">
+                            <span className="w-4 text-[10px] text-slate-500">{index + 1}</span>
+                            <input
+                                type="number" value={leg.bearing} placeholder="°"
+                                onChange={(e) => updateLeg(index, { bearing: e.target.value })}
+                                className={`${inputClass} w-14`} title="Bearing (° clockwise from north)"
+                            />
+                            <LengthInput value={leg.length} unitSystem={unitSystem} onChange={length => updateLeg(index, { length })} className={inputClass} />
+                            <button
+                                onClick={() => setLegs(prev => prev.filter((_, i) => i !== index))}
+                                disabled={legs.length <= 3}
+                                className="ml-auto p-1 text-slate-500 hover:text-red-400 disabled:opacity-30"
+                                title="Remove side"
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => setLegs(prev => [...prev, { bearing: '', length: BLANK }])}
+                        className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-white"
+                    >
+                        <Plus className="w-3 h-3" /> Add Side
+                    </button>
+                </div>
+            ) : (
+                <div className="space-y-1.5 text-[10px] text-slate-400">
+                    {TRIANGLE_LABELS.map((label, index) => (
+                        <div key={label} className="flex items-center justify-between">
+                            <span>{label}</span>
+                            <LengthInput
+                                value={triangle[index]}
+                                unitSystem={unitSystem}
+                                onChange={value => setTriangle(prev => prev.map((side, i) => (i === index ? value : side)))}
+                                className={inputClass}
+                            />
+                        </div>
+                    ))}
+                    <div className="flex items-center justify-between">
+                        <span>Bearing of AB (°)</span>
+                        <input type="number" value={firstBearing} onChange={(e) => setFirstBearing(e.target.value)} className={`${inputClass} w-14`} />
+                    </div>
+                    <p className="text-[9px] text-slate-500">Corners A-B-C-D run clockwise; the wattar joins A and C.</p>
+                </div>
+            )}
+
+            <button
+                onClick={handleConstruct}
+                className="w-full py-2 bg-emerald-600 hover:bg-emerald-500 rounded-lg text-[10px] font-bold uppercase tracking-wider"
+            >
+                Construct Parcel
+            </button>
+            {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+            {parcel && comparison && (
+                <div className="space-y-1 text-[10px]">
+                    <div className="flex justify-between text-slate-300">
+                        <span>Closure error</span>
+                        <span>
+                            {parcel.precision === null
+                                ? 'Closes exactly'
+                                : `${formatKaramFeet(parcel.closureMeters, unitSystem)} at ${parcel.closureBearing.toFixed(0)}° · 1 in ${Math.round(parcel.precision)}`}
+                        </span>
+                    </div>
+                    <div className="flex justify-between text-slate-300">
+                        <span>Field book area</span>
+                        <span className="text-emerald-300">{formatArea(comparison.fieldSqFt, unitSystem)}</span>
+                    </div>
+                    <div className="flex justify-between text-slate-300">
+                        <span>Digitised khasra</span>
+                        <span>{formatArea(comparison.digitisedSqFt, unitSystem)}</span>
+                    </div>
+                    <div className={`flex items-center justify-between gap-2 pt-1 border-t border-slate-700/50 font-bold ${comparison.mismatch ? 'text-red-400' : 'text-emerald-400'}`}>
+                        <span className="flex items-center gap-1">
+                            {comparison.mismatch ? <AlertTriangle className="w-3 h-3" /> : <CheckCircle className="w-3 h-3" />}
+                            {comparison.mismatch ? 'Mismatch' : 'Matches'}
+                        </span>
+                        <span>
+                            {comparison.differenceSqFt < 0 ? '−' : '+'}{formatArea(Math.abs(comparison.differenceSqFt), unitSystem)}
+                            {' '}({comparison.differencePercent >= 0 ? '+' : ''}{comparison.differencePercent.toFixed(1)}%)
+                        </span>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
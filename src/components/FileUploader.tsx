@@ -1,61 +1,73 @@
 "use client";
 
-import React, { useCallback, useState } from 'react';
-import { Upload, FileType, CheckCircle, AlertCircle } from 'lucide-react';
-import shp from 'shpjs';
+import React, { useCallback, useRef, useState } from 'react';
+import { Upload, FileType, CheckCircle, AlertCircle, Layers, X } from 'lucide-react';
+import type { FeatureCollection } from 'geojson';
+import { ACCEPTED_EXTENSIONS, SpatialLayer } from '@/lib/file-formats';
+import { PIPELINE_STAGES, PipelineOptions, PipelineProgress, isCancelled, parseInWorker } from '@/lib/pipeline';
 
 interface FileUploaderProps {
-    onProcessed: (geojson: any) => void;
+    // Resolves to false when the layer could not be loaded
+    onProcessed: (geojson: FeatureCollection, prj: string | undefined, name: string, pipeline: PipelineOptions) => Promise<boolean>;
 }
 
 export default function FileUploader({ onProcessed }: FileUploaderProps) {
     const [status, setStatus] = useState<'idle' | 'processing' | 'success' | 'error'>('idle');
     const [fileName, setFileName] = useState<string | null>(null);
+    const [layers, setLayers] = useState<SpatialLayer[]>([]);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [progress, setProgress] = useState<PipelineProgress | null>(null);
+    const controller = useRef<AbortController | null>(null);
 
-    const processFiles = async (files: FileList | File[]) => {
-        const fileList = Array.from(files);
-        const zipFile = fileList.find(f => f.name.endsWith('.zip'));
-
-        if (zipFile) {
-            setFileName(zipFile.name);
-            setStatus('processing');
-            try {
-                const buffer = await zipFile.arrayBuffer();
-                const geojson = await shp(buffer);
-                setStatus('success');
-                onProcessed(geojson);
-            } catch (error) {
-                console.error('Zip parsing error:', error);
-                setStatus('error');
-            }
-            return;
-        }
+    const startWork = () => {
+        controller.current?.abort();
+        controller.current = new AbortController();
+        setStatus('processing');
+        setProgress(null);
+        return { onProgress: setProgress, signal: controller.current.signal };
+    };
 
-        // Handle individual files
-        const shpFile = fileList.find(f => f.name.endsWith('.shp'));
-        const dbfFile = fileList.find(f => f.name.endsWith('.dbf'));
+    const cancel = () => {
+        controller.current?.abort();
+        controller.current = null;
+        setStatus('idle');
+        setFileName(null);
+        setProgress(null);
+    };
 
-        if (!shpFile) {
-            alert('Please upload at least a .shp file (and ideally .dbf and .shx).');
-            return;
-        }
+    const loadLayer = async (layer: SpatialLayer) => {
+        setLayers([]);
+        const pipeline = startWork();
+        const loaded = await onProcessed(layer.geojson, layer.prj, layer.name, pipeline);
+        if (!pipeline.signal.aborted) setStatus(loaded ? 'success' : 'idle');
+    };
 
-        setFileName(`${shpFile.name} (+ ${fileList.length - 1} files)`);
-        setStatus('processing');
+    const processFiles = async (files: FileList | File[]) => {
+        const fileList = Array.from(files);
+        setFileName(fileList.length > 1 ? `${fileList[0].name} (+ ${fileList.length - 1} files)` : fileList[0].name);
+        setErrorMessage(null);
+        setLayers([]);
+        const pipeline = startWork();
 
         try {
-            const shpBuffer = await shpFile.arrayBuffer();
-            const dbfBuffer = dbfFile ? await dbfFile.arrayBuffer() : undefined;
-
-            const geometries = shp.parseShp(shpBuffer);
-            // @ts-ignore - shp.parseDbf usually takes one argument for basic use, types might vary
-            const properties = dbfBuffer ? shp.parseDbf(dbfBuffer) : geometries.map(() => ({}));
-            const geojson = shp.combine([geometries, properties]);
-
-            setStatus('success');
-            onProcessed(geojson);
+            const found = await parseInWorker(fileList, pipeline);
+            const usable = found.filter(l => l.geojson.features.length > 0);
+            if (usable.length === 0) {
+                throw new Error(found.length > 0 ? 'The file has no polygons (only points or open lines).' : 'The file has no features.');
+            }
+            if (found.length === 1) {
+                await loadLayer(found[0]);
+            } else {
+                // Multi-layer file: let the user pick which layer holds the khasras
+                setLayers(found);
+                setStatus('idle');
+            }
         } catch (error) {
-            console.error('Individual file parsing error:', error);
+            if (isCancelled(error)) return;
+            console.error('File parsing error:', error);
+            setErrorMessage(error instanceof Error && error.message !== 'Unsupported file type'
+                ? error.message
+                : 'Unsupported file. Use a shapefile (.zip or .shp + .dbf), KML/KMZ, GeoJSON, GPX, DXF or GeoPackage.');
             setStatus('error');
         }
     };
@@ -66,6 +78,40 @@ export default function FileUploader({ onProcessed }: FileUploaderProps) {
         if (files.length > 0) processFiles(files);
     }, []);
 
+    if (layers.length > 0) {
+        return (
+            <div className="rounded-2xl border border-slate-700 bg-slate-900/50 p-4 space-y-2">
+                <div className="flex items-center gap-2 text-slate-300">
+                    <Layers className="w-4 h-4" />
+                    <span className="text-[10px] font-bold uppercase tracking-wider">Choose a layer</span>
+                </div>
+                <p className="text-[11px] text-slate-500 truncate">{fileName}</p>
+                <div className="space-y-1.5 max-h-64 overflow-y-auto custom-scrollbar">
+                    {layers.map((layer, i) => (
+                        <button
+                            key={`${layer.name}-${i}`}
+                            onClick={() => loadLayer(layer)}
+                            disabled={layer.geojson.features.length === 0}
+                            className="w-full text-left px-3 py-2 rounded-lg bg-slate-800/60 border border-slate-700/50 hover:border-red-500/60 disabled:opacity-40 disabled:hover:border-slate-700/50 transition-all"
+                        >
+                            <div className="text-xs font-bold text-slate-200 truncate">{layer.name}</div>
+                            <div className="text-[10px] text-slate-500">
+                                {layer.format} · {layer.geojson.features.length} polygon{layer.geojson.features.length === 1 ? '' : 's'}
+                                {layer.skipped > 0 && ` · ${layer.skipped} other feature${layer.skipped === 1 ? '' : 's'} skipped`}
+                            </div>
+                        </button>
+                    ))}
+                </div>
+                <button
+                    onClick={() => { setLayers([]); setFileName(null); }}
+                    className="w-full py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] font-bold uppercase tracking-wider"
+                >
+                    Cancel
+                </button>
+            </div>
+        );
+    }
+
     return (
         <div
             className={`
@@ -78,10 +124,19 @@ export default function FileUploader({ onProcessed }: FileUploaderProps) {
             onDragOver={(e) => e.preventDefault()}
             onDrop={onDrop}
         >
+            {status === 'processing' && (
+                <button
+                    onClick={cancel}
+                    className="absolute top-3 right-3 z-10 flex items-center gap-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-[9px] font-bold uppercase tracking-wider text-slate-300"
+                    title="Stop processing this file"
+                >
+                    <X className="w-3 h-3" /> Cancel
+                </button>
+            )}
             <input
                 type="file"
                 multiple
-                accept=".zip,.shp,.dbf,.shx"
+                accept={ACCEPTED_EXTENSIONS}
                 className="absolute inset-0 opacity-0 cursor-pointer"
                 onChange={(e) => {
                     const files = e.target.files;
@@ -105,15 +160,30 @@ export default function FileUploader({ onProcessed }: FileUploaderProps) {
 
                 <div>
                     <p className="text-sm font-semibold mb-1">
-                        {status === 'idle' && 'Upload Shapefile Components'}
+                        {status === 'idle' && 'Upload Khasra Data'}
                         {status === 'processing' && 'Processing Data...'}
                         {status === 'success' && 'Ready to view'}
                         {status === 'error' && 'Error parsing file'}
                     </p>
                     <p className="text-xs text-slate-500">
-                        {fileName || 'Drop .shp, .dbf, .shx (or .zip)'}
+                        {status === 'error' && errorMessage ? errorMessage : fileName || 'Shapefile (.zip), KML/KMZ, GeoJSON, GPX, DXF or GeoPackage'}
                     </p>
                 </div>
+
+                {status === 'processing' && progress && (
+                    <div className="w-full space-y-1">
+                        <div className="flex justify-between text-[10px] text-amber-400 font-bold uppercase tracking-wider">
+                            <span>{PIPELINE_STAGES[progress.stage]}</span>
+                            {progress.total > 1 && <span>{Math.round(progress.done / progress.total * 100)}%</span>}
+                        </div>
+                        <div className="h-1 rounded bg-slate-800 overflow-hidden">
+                            <div
+                                className="h-full bg-amber-500 transition-all"
+                                style={{ width: `${progress.total > 0 ? progress.done / progress.total * 100 : 0}%` }}
+                            />
+                        </div>
+                    </div>
+                )}
             </div>
         </div>
     );
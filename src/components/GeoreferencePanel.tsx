@@ -0,0 +1,212 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { Crosshair, MapPin, Trash2, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { GeoreferenceSession } from './Dashboard';
+import { GeoreferenceFit, TRANSFORM_KINDS, TransformKind, fitGeoreference } from '@/lib/georeference';
+import { PIPELINE_STAGES, PipelineProgress, isCancelled, warpInWorker } from '@/lib/pipeline';
+import { RasterOverlay, rasterImageUrl } from '@/lib/raster';
+
+interface GeoreferencePanelProps {
+    session: GeoreferenceSession;
+    onChange: (session: GeoreferenceSession) => void;
+    onPlace: (raster: Pick<RasterOverlay, 'name' | 'url' | 'bounds'>) => void;
+    onClose: () => void;
+}
+
+const ZOOM_STEPS = [0.125, 0.25, 0.5, 1, 2];
+
+/**
+ * Pairs points on a scanned sheet with the same points on the map, fits the transform and places the scan.
+ * Each point is clicked on the scan first, then on the map (where it snaps to khasra corners).
+ */
+export default function GeoreferencePanel({ session, onChange, onPlace, onClose }: GeoreferencePanelProps) {
+    const { image, points, kind, pickingId } = session;
+    const [zoom, setZoom] = useState(() => ZOOM_STEPS.find(z => image.width * z >= 360) ?? 1);
+    const [progress, setProgress] = useState<PipelineProgress | null>(null);
+    const [isPlacing, setIsPlacing] = useState(false);
+    const [placeError, setPlaceError] = useState<string | null>(null);
+    const nextId = useRef(points.length);
+
+    let fit: GeoreferenceFit | null = null;
+    let fitError: string | null = null;
+    try {
+        fit = fitGeoreference(points, kind);
+    } catch (e) {
+        fitError = e instanceof Error ? e.message : String(e);
+    }
+    const placedCount = points.filter(p => p.position).length;
+    const minPoints = TRANSFORM_KINDS.find(k => k.id === kind)?.minPoints ?? 3;
+    const worstId = fit && placedCount > minPoints
+        ? Object.entries(fit.residuals).sort((a, b) => b[1] - a[1])[0]?.[0]
+        : null;
+
+    const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const pixel: [number, number] = [
+            ((e.clientX - rect.left) / rect.width) * image.width,
+            ((e.clientY - rect.top) / rect.height) * image.height,
+        ];
+        const id = `gcp-${++nextId.current}`;
+        // A point still waiting for its map position is moved rather than left behind
+        const kept = points.filter(p => p.id !== pickingId || p.position);
+        onChange({ ...session, points: [...kept, { id, pixel }], pickingId: id });
+    };
+
+    const handlePlace = async () => {
+        if (!fit) return;
+        setIsPlacing(true);
+        setPlaceError(null);
+        try {
+            const warped = await warpInWorker(image, fit, { onProgress: setProgress });
+            onPlace({ name: image.name, url: await rasterImageUrl(warped), bounds: warped.bounds });
+        } catch (e) {
+            if (isCancelled(e)) return;
+            console.error('Scan placement error:', e);
+            setPlaceError(e instanceof Error ? e.message : 'Could not place the scan.');
+            setIsPlacing(false);
+        }
+    };
+
+    const stepZoom = (offset: -1 | 1) => {
+        const index = ZOOM_STEPS.indexOf(zoom) + offset;
+        if (index >= 0 && index < ZOOM_STEPS.length) setZoom(ZOOM_STEPS[index]);
+    };
+
+    return (
+        <div className="w-[420px] max-h-full flex flex-col bg-slate-900/95 border border-sky-500/50 rounded-xl shadow-2xl overflow-hidden">
+            <div className="px-4 py-2 flex items-center gap-2 border-b border-slate-800">
+                <Crosshair className="w-4 h-4 text-sky-400" />
+                <span className="flex-1 min-w-0 text-xs font-bold text-sky-400 truncate">Georeference {image.name}</span>
+                <button onClick={() => stepZoom(-1)} className="p-1 text-slate-400 hover:text-white" title="Zoom out">
+                    <ZoomOut className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => stepZoom(1)} className="p-1 text-slate-400 hover:text-white" title="Zoom in">
+                    <ZoomIn className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={onClose} className="p-1 text-slate-400 hover:text-white" title="Close without placing">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="h-72 shrink-0 overflow-auto bg-black custom-scrollbar">
+                <div className="relative" style={{ width: image.width * zoom, height: image.height * zoom }}>
+                    {/* eslint-disable-next-line @next/next/no-img-element -- object URL of a local scan */}
+                    <img
+                        src={session.url}
+                        alt={image.name}
+                        onClick={handleImageClick}
+                        className="w-full h-full cursor-crosshair select-none"
+                        draggable={false}
+                    />
+                    {points.map((p, i) => (
+                        <span
+                            key={p.id}
+                            className={`absolute -translate-x-1/2 -translate-y-1/2 w-4 h-4 rounded-full border-2 text-[8px] font-bold flex items-center justify-center pointer-events-none ${p.id === pickingId ? 'bg-amber-500 border-white text-black' : 'bg-sky-500 border-white text-white'}`}
+                            style={{ left: `${(p.pixel[0] / image.width) * 100}%`, top: `${(p.pixel[1] / image.height) * 100}%` }}
+                        >
+                            {i + 1}
+                        </span>
+                    ))}
+                </div>
+            </div>
+
+            <div className="p-4 space-y-3 overflow-y-auto custom-scrollbar">
+                <p className="text-[10px] text-slate-400 leading-snug">
+                    {pickingId
+                        ? `Now click point ${points.findIndex(p => p.id === pickingId) + 1} on the map. It snaps to khasra corners nearby.`
+                        : 'Click a point you can also find on the map: a khasra corner, road junction or grid tick.'}
+                </p>
+
+                {points.length > 0 && (
+                    <table className="w-full text-[10px]">
+                        <thead>
+                            <tr className="text-slate-500 uppercase tracking-wider text-[9px]">
+                                <th className="text-left font-bold">#</th>
+                                <th className="text-left font-bold">Scan px</th>
+                                <th className="text-left font-bold">Map</th>
+                                <th className="text-right font-bold">Error</th>
+                                <th />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {points.map((p, i) => (
+                                <tr key={p.id} className={p.id === worstId ? 'text-amber-300' : 'text-slate-300'}>
+                                    <td className="py-0.5 font-bold">{i + 1}</td>
+                                    <td className="font-mono">{Math.round(p.pixel[0])}, {Math.round(p.pixel[1])}</td>
+                                    <td className="font-mono">
+                                        {p.position ? `${p.position[1].toFixed(6)}, ${p.position[0].toFixed(6)}` : <span className="text-amber-400">not placed</span>}
+                                    </td>
+                                    <td className="text-right font-mono">
+                                        {fit && fit.residuals[p.id] !== undefined ? `${fit.residuals[p.id].toFixed(2)} m` : '—'}
+                                    </td>
+                                    <td className="text-right whitespace-nowrap">
+                                        <button
+                                            onClick={() => onChange({ ...session, pickingId: p.id })}
+                                            className={`p-0.5 ${p.id === pickingId ? 'text-amber-400' : 'text-slate-500 hover:text-white'}`}
+                                            title="Pick its map position again"
+                                        >
+                                            <MapPin className="w-3 h-3" />
+                                        </button>
+                                        <button
+                                            onClick={() => onChange({
+                                                ...session,
+                                                points: points.filter(q => q.id !== p.id),
+                                                pickingId: pickingId === p.id ? null : pickingId,
+                                            })}
+                                            className="p-0.5 text-slate-500 hover:text-red-400"
+                                            title="Delete control point"
+                                        >
+                                            <Trash2 className="w-3 h-3" />
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                <div className="flex items-center gap-2">
+                    <select
+                        value={kind}
+                        onChange={(e) => onChange({ ...session, kind: e.target.value as TransformKind })}
+                        className="flex-1 bg-slate-900 text-[11px] text-slate-200 border border-slate-700 rounded px-2 py-1.5 outline-none focus:border-sky-500"
+                    >
+                        {TRANSFORM_KINDS.map(k => (
+                            <option key={k.id} value={k.id}>{k.name} · {k.minPoints}+ points</option>
+                        ))}
+                    </select>
+                </div>
+
+                <p className={`text-[10px] ${fit ? 'text-sky-300' : 'text-slate-500'}`}>
+                    {fit
+                        ? placedCount > minPoints
+                            ? `RMS error ${fit.rmsMeters.toFixed(2)} m over ${placedCount} points`
+                            : `Fitted exactly through ${placedCount} points. Add more to measure the error.`
+                        : fitError}
+                </p>
+
+                {isPlacing && progress && (
+                    <div className="space-y-1">
+                        <div className="flex justify-between text-[10px] text-amber-400 font-bold uppercase tracking-wider">
+                            <span>{PIPELINE_STAGES[progress.stage]}</span>
+                            {progress.total > 1 && <span>{Math.round(progress.done / progress.total * 100)}%</span>}
+                        </div>
+                        <div className="h-1 rounded bg-slate-800 overflow-hidden">
+                            <div className="h-full bg-amber-500 transition-all" style={{ width: `${progress.total > 0 ? progress.done / progress.total * 100 : 0}%` }} />
+                        </div>
+                    </div>
+                )}
+                {placeError && <p className="text-[10px] text-red-400">{placeError}</p>}
+
+                <button
+                    onClick={handlePlace}
+                    disabled={!fit || isPlacing}
+                    className="w-full py-2 bg-sky-600 hover:bg-sky-500 disabled:opacity-40 disabled:hover:bg-sky-600 rounded-md text-[10px] font-bold uppercase tracking-wider"
+                >
+                    Place Scan on Map
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import type { GeoJsonProperties } from 'geojson';
+import { Search, SlidersHorizontal, ArrowDownWideNarrow, ArrowUpNarrowWide, X } from 'lucide-react';
+import { EMPTY_FILTER, ListFilter, SortKey, distinctValues, isFilterActive } from '@/lib/khasra-filter';
+import { UnitSystem } from '@/lib/units';
+
+interface KhasraListFilterProps {
+    filter: ListFilter;
+    onChange: (filter: ListFilter) => void;
+    onSubmit: () => void;
+    availableFields: string[];
+    properties: GeoJsonProperties[];
+    unitSystem: UnitSystem;
+    resultCount: number;
+    totalCount: number;
+}
+
+const SORT_OPTIONS: { id: SortKey; name: string }[] = [
+    { id: 'none', name: 'File order' },
+    { id: 'label', name: 'Label' },
+    { id: 'area', name: 'Area' },
+    { id: 'perimeter', name: 'Perimeter' },
+];
+
+const controlClass = 'bg-slate-800 text-[10px] text-slate-300 border border-slate-700 rounded px-1.5 py-1 outline-none focus:border-red-500';
+
+/**
+ * Search box, attribute / area filters and sort order for the khasra list.
+ */
+export default function KhasraListFilter({ filter, onChange, onSubmit, availableFields, properties, unitSystem, resultCount, totalCount }: KhasraListFilterProps) {
+    const [showFilters, setShowFilters] = useState(false);
+    const values = useMemo(() => (filter.field ? distinctValues(properties, filter.field) : []), [properties, filter.field]);
+    const update = (patch: Partial<ListFilter>) => onChange({ ...filter, ...patch });
+    const active = isFilterActive(filter);
+
+    return (
+        <div className="space-y-2 mb-4">
+            <div className="flex items-center gap-1.5">
+                <div className="flex-1 flex items-center gap-1.5 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 focus-within:border-red-500">
+                    <Search className="w-3.5 h-3.5 text-slate-500 shrink-0" />
+                    <input
+                        value={filter.query}
+                        onChange={(e) => update({ query: e.target.value })}
+                        onKeyDown={(e) => { if (e.key === 'Enter') onSubmit(); }}
+                        placeholder="Search any attribute…"
+                        className="w-full bg-transparent text-xs text-slate-200 outline-none"
+                    />
+                </div>
+                <button
+                    onClick={() => setShowFilters(v => !v)}
+                    className={`p-2 rounded-lg border transition-all ${showFilters || active ? 'border-red-500/60 text-red-400' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                    title="Filters and sorting"
+                >
+                    <SlidersHorizontal className="w-3.5 h-3.5" />
+                </button>
+            </div>
+
+            {showFilters && (
+                <div className="p-3 rounded-lg bg-slate-800/40 border border-slate-700/50 space-y-2">
+                    <div className="grid grid-cols-2 gap-1.5">
+                        <select value={filter.field} onChange={(e) => update({ field: e.target.value, value: '' })} className={controlClass}>
+                            <option value="">Any field</option>
+                            {availableFields.map(f => (
+                                <option key={f} value={f}>{f}</option>
+                            ))}
+                        </select>
+                        <select value={filter.value} onChange={(e) => update({ value: e.target.value })} disabled={!filter.field} className={`${controlClass} disabled:opacity-50`}>
+                            <option value="">Any value</option>
+                            {values.map(v => (
+                                <option key={v} value={v}>{v}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="grid grid-cols-[1fr_1fr_auto] gap-1.5">
+                        <input type="number" min={0} step="any" value={filter.minArea} onChange={(e) => update({ minArea: e.target.value })} placeholder="Min area" className={controlClass} />
+                        <input type="number" min={0} step="any" value={filter.maxArea} onChange={(e) => update({ maxArea: e.target.value })} placeholder="Max area" className={controlClass} />
+                        <select value={filter.areaUnit || unitSystem.areaUnits[0].name} onChange={(e) => update({ areaUnit: e.target.value })} className={controlClass}>
+                            {unitSystem.areaUnits.map(u => (
+                                <option key={u.name} value={u.name}>{u.name}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="flex items-center gap-1.5">
+                        <span className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">Sort:</span>
+                        <select value={filter.sortKey} onChange={(e) => update({ sortKey: e.target.value as SortKey })} className={`flex-1 ${controlClass}`}>
+                            {SORT_OPTIONS.map(o => (
+                                <option key={o.id} value={o.id}>{o.name}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => update({ descending: !filter.descending })}
+                            className="p-1 rounded border border-slate-700 text-slate-400 hover:text-white"
+                            title={filter.descending ? 'Descending' : 'Ascending'}
+                        >
+                            {filter.descending ? <ArrowDownWideNarrow className="w-3.5 h-3.5" /> : <ArrowUpNarrowWide className="w-3.5 h-3.5" />}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {active && (
+                <div className="flex items-center justify-between text-[10px] text-slate-500">
+                    <span>{resultCount.toLocaleString()} of {totalCount.toLocaleString()} khasras</span>
+                    <button
+                        onClick={() => onChange({ ...EMPTY_FILTER, sortKey: filter.sortKey, descending: filter.descending })}
+                        className="flex items-center gap-1 hover:text-white"
+                    >
+                        <X className="w-3 h-3" /> Clear
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
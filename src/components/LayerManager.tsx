@@ -0,0 +1,115 @@
+"use client";
+
+import React from 'react';
+import { ChevronDown, ChevronUp, Eye, EyeOff, Layers, Plus, X } from 'lucide-react';
+import { KhasraLayer } from './Dashboard';
+
+interface LayerManagerProps {
+    layers: KhasraLayer[];
+    activeLayerId: string | null;
+    isAdding: boolean;
+    onActivate: (id: string) => void;
+    onChange: (id: string, patch: Partial<KhasraLayer>) => void;
+    onMove: (id: string, offset: -1 | 1) => void;
+    onRemove: (id: string) => void;
+    onToggleAdd: () => void;
+}
+
+/**
+ * Loaded layers, top of the list drawn on top. The active layer drives the khasra list, summary and exports.
+ */
+export default function LayerManager({ layers, activeLayerId, isAdding, onActivate, onChange, onMove, onRemove, onToggleAdd }: LayerManagerProps) {
+    return (
+        <div className="p-4 rounded-xl bg-slate-800/30 border border-slate-700/50 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                    <Layers className="w-4 h-4" /> Layers
+                </h3>
+                <button
+                    onClick={onToggleAdd}
+                    className={`flex items-center gap-1 px-2 py-1 rounded text-[9px] font-bold uppercase tracking-wider transition-all ${isAdding ? 'bg-slate-800 text-red-500' : 'text-slate-400 hover:text-white'}`}
+                >
+                    <Plus className="w-3 h-3" /> Add Layer
+                </button>
+            </div>
+
+            <div className="space-y-2">
+                {layers.map((layer, index) => {
+                    const isActive = layer.id === activeLayerId;
+                    return (
+                        <div
+                            key={layer.id}
+                            className={`p-2 rounded-lg bg-slate-900/50 border ${isActive ? 'border-red-500/60' : 'border-slate-700/50'} space-y-1.5`}
+                        >
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="color"
+                                    value={layer.color}
+                                    onChange={(e) => onChange(layer.id, { color: e.target.value })}
+                                    className="w-4 h-4 shrink-0 rounded cursor-pointer bg-transparent border-0 p-0"
+                                    title="Layer colour"
+                                />
+                                <button
+                                    onClick={() => onActivate(layer.id)}
+                                    className="flex-1 min-w-0 text-left"
+                                    title={isActive ? 'Active layer' : 'Make this the active layer'}
+                                >
+                                    <div className={`text-xs font-bold truncate ${isActive ? 'text-red-400' : 'text-slate-200'}`}>{layer.name}</div>
+                                    <div className="text-[9px] text-slate-500">
+                                        {layer.data.polygons.length} polygon{layer.data.polygons.length === 1 ? '' : 's'}
+                                        {layer.selectedPolyIds.length > 0 && ` · ${layer.selectedPolyIds.length} selected`}
+                                    </div>
+                                </button>
+                                <button
+                                    onClick={() => onChange(layer.id, { visible: !layer.visible })}
+                                    className="p-1 text-slate-400 hover:text-white"
+                                    title={layer.visible ? 'Hide layer' : 'Show layer'}
+                                >
+                                    {layer.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+                                </button>
+                                <div className="flex flex-col">
+                                    <button
+                                        onClick={() => onMove(layer.id, -1)}
+                                        disabled={index === 0}
+                                        className="text-slate-400 hover:text-white disabled:opacity-30"
+                                        title="Move up"
+                                    >
+                                        <ChevronUp className="w-3 h-3" />
+                                    </button>
+                                    <button
+                                        onClick={() => onMove(layer.id, 1)}
+                                        disabled={index === layers.length - 1}
+                                        className="text-slate-400 hover:text-white disabled:opacity-30"
+                                        title="Move down"
+                                    >
+                                        <ChevronDown className="w-3 h-3" />
+                                    </button>
+                                </div>
+                                <button
+                                    onClick={() => onRemove(layer.id)}
+                                    className="p-1 text-slate-400 hover:text-red-400"
+                                    title="Remove layer"
+                                >
+                                    <X className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <span className="text-[9px] text-slate-500 font-bold uppercase tracking-wider">Opacity</span>
+                                <input
+                                    type="range"
+                                    min={0.1}
+                                    max={1}
+                                    step={0.05}
+                                    value={layer.opacity}
+                                    onChange={(e) => onChange(layer.id, { opacity: Number(e.target.value) })}
+                                    className="flex-1 accent-red-500"
+                                />
+                                <span className="text-[9px] text-slate-400 w-7 text-right">{Math.round(layer.opacity * 100)}%</span>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import React from 'react';
+import { UnitSystem } from '@/lib/units';
+
+interface LengthInputProps {
+    value: [string, string]; // Whole length units and feet, as typed
+    unitSystem: UnitSystem;
+    onChange: (value: [string, string]) => void;
+    className: string;
+}
+
+/**
+ * A length typed the way it is written in a field book: karams (or the system's unit) plus feet.
+ */
+export default function LengthInput({ value, unitSystem, onChange, className }: LengthInputProps) {
+    return (
+        <div className="flex items-center gap-1">
+            {unitSystem.length.feet !== 1 && (
+                <input
+                    type="number" min={0} value={value[0]} placeholder={unitSystem.length.abbr}
+                    onChange={(e) => onChange([e.target.value, value[1]])}
+                    className={`${className} w-12`} title={unitSystem.length.name}
+                />
+            )}
+            <input
+                type="number" min={0} value={value[1]} placeholder="ft"
+                onChange={(e) => onChange([value[0], e.target.value])}
+                className={`${className} w-12`} title="Feet"
+            />
+        </div>
+    );
+}
@@ -1,10 +1,23 @@
 "use client";
 
-import React, { useEffect } from 'react';
-import { MapContainer, TileLayer, GeoJSON, Marker, Tooltip, useMap } from 'react-leaflet';
+import React, { useEffect, useRef } from 'react';
+import { MapContainer, GeoJSON, ImageOverlay, Marker, Pane, Polyline, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
+import type { Feature, FeatureCollection, Position } from 'geojson';
 import 'leaflet/dist/leaflet.css';
-import { MapData } from './Dashboard';
+import { ControlPointPicking, DrawingState, FocusRequest, KhasraLayer, VertexEditing, ViewRequest } from './Dashboard';
+import ControlPointMarkers from './ControlPointMarkers';
+import CachedTileLayer from './CachedTileLayer';
+import DrawTools from './DrawTools';
+import VertexEditor from './VertexEditor';
+import { Dimension, calculateKanalMarla } from '@/lib/geo-utils';
+import { LabelRequest, layoutLabels } from '@/lib/label-layout';
+import { VertexNaming, namedCorners } from '@/lib/vertices';
+import { UnitSystem, formatArea } from '@/lib/units';
+import { OverlayResult } from '@/lib/overlay';
+import { PartitionPiece } from '@/lib/partition';
+import { MapView } from '@/lib/deep-link';
+import { RasterOverlay } from '@/lib/raster';
 
 // Fix for default marker icons in Leaflet + Next.js
 const fixLeafletIcon = () => {
@@ -17,100 +30,147 @@ const fixLeafletIcon = () => {
     });
 };
 
-function MapResizer({ data, fileVersion }: { data: MapData | null, fileVersion: number }) {
+function MapResizer({ layers, fileVersion }: { layers: KhasraLayer[], fileVersion: number }) {
     const map = useMap();
+    // Read through a ref so toggling or editing layers does not refit the map
+    const layersRef = useRef(layers);
     useEffect(() => {
-        if (data?.geojson) {
-            const bounds = L.geoJSON(data.geojson).getBounds();
-            if (bounds.isValid()) {
-                map.fitBounds(bounds, { padding: [50, 50] });
-            }
+        layersRef.current = layers;
+    });
+    useEffect(() => {
+        const bounds = L.latLngBounds([]);
+        layersRef.current.filter(l => l.visible).forEach(l => bounds.extend(L.geoJSON(l.data.geojson).getBounds()));
+        if (bounds.isValid()) {
+            map.fitBounds(bounds, { padding: [50, 50] });
+        }
+    }, [fileVersion, map]); // Only trigger when a new file is loaded
+    return null;
+}
+
+/**
+ * Flies to a khasra chosen from the list.
+ */
+function FlyToFocus({ focusRequest }: { focusRequest: FocusRequest | null }) {
+    const map = useMap();
+    useEffect(() => {
+        if (!focusRequest) return;
+        const bounds = L.geoJSON(focusRequest.feature).getBounds();
+        if (bounds.isValid()) {
+            map.flyToBounds(bounds, { padding: [80, 80], maxZoom: 19, duration: 0.8 });
         }
-    }, [fileVersion]); // Only trigger when a new file is loaded
+    }, [focusRequest, map]);
+    return null;
+}
+
+/**
+ * Moves the map to a view requested by the dashboard (e.g. from a shared link).
+ */
+function ApplyView({ viewRequest }: { viewRequest: ViewRequest | null }) {
+    const map = useMap();
+    useEffect(() => {
+        if (viewRequest) map.setView(viewRequest.center, viewRequest.zoom);
+    }, [viewRequest, map]);
+    return null;
+}
+
+/**
+ * Reports the map's center and zoom whenever panning or zooming ends.
+ */
+function ViewTracker({ onViewChange }: { onViewChange: (view: MapView) => void }) {
+    const map = useMapEvents({
+        moveend: () => {
+            const center = map.getCenter();
+            onViewChange({ center: [center.lat, center.lng], zoom: map.getZoom() });
+        },
+    });
     return null;
 }
 
 interface MapProps {
-    data: MapData | null;
-    selectedPolyIds: string[];
-    labelField: string;
+    layers: KhasraLayer[];
+    activeLayerId: string | null;
+    overlayResults: OverlayResult[];
+    editing: VertexEditing | null;
+    partitionPieces: PartitionPiece[];
+    drawing: DrawingState;
+    onPickPoint: ((position: Position) => void) | null; // Set while a tool is waiting for a click on the map
+    issueLocation: Feature | null; // Validation problem picked from the list
     baseLayer: 'satellite' | 'dark';
+    rasters: RasterOverlay[];
+    controlPoints: ControlPointPicking | null; // Set while a scan is being georeferenced
     fileVersion: number;
-    onSelect: (id: string) => void;
+    unitSystem: UnitSystem;
+    vertexNaming: VertexNaming; // How the corners of selected khasras are named
+    focusRequest: FocusRequest | null;
+    viewRequest: ViewRequest | null;
+    onViewChange: (view: MapView) => void;
+    onSelect: (layerId: string, id: string) => void;
+}
+
+function PointPicker({ onPick }: { onPick: (position: Position) => void }) {
+    const map = useMap();
+    useEffect(() => {
+        const container = map.getContainer();
+        container.style.cursor = 'crosshair';
+        return () => { container.style.cursor = ''; };
+    }, [map]);
+    useMapEvents({
+        click: (e) => onPick([e.latlng.lng, e.latlng.lat]),
+    });
+    return null;
 }
 
 /**
- * Enhanced Marker rendering that prevents overlapping labels based on screen pixel space.
+ * Labels for the selection, overlay and taqseem pieces, laid out in screen space so they never overlap.
+ * Dimension labels run along their side; labels pushed off their anchor get a leader line back to it.
  */
-function CollisionManagedMarkers({ data, selectedPolyIds, labelField }: {
-    data: MapData | null,
-    selectedPolyIds: string[],
-    labelField: string
+function CollisionManagedMarkers({ layers, overlayResults, editing, partitionPieces, unitSystem, vertexNaming }: {
+    layers: KhasraLayer[],
+    overlayResults: OverlayResult[],
+    editing: VertexEditing | null,
+    partitionPieces: PartitionPiece[],
+    unitSystem: UnitSystem,
+    vertexNaming: VertexNaming
 }) {
     const map = useMap();
     const [visibleMarkers, setVisibleMarkers] = React.useState<React.ReactNode[]>([]);
 
     const calculateCollision = React.useCallback(() => {
-        if (!data || selectedPolyIds.length === 0) {
+        // Labels for the selection of every visible layer, sharing one collision space
+        const selectedPolys = layers
+            .filter(l => l.visible)
+            .flatMap(l => l.data.polygons
+                // The khasra being edited carries its own live labels
+                .filter(p => l.selectedPolyIds.includes(p.id) && !(editing?.layerId === l.id && editing.polyId === p.id))
+                .map(p => ({ ...p, id: `${l.id}-${p.id}`, title: p.feature.properties[l.labelField] || '' })));
+
+        if (selectedPolys.length === 0 && overlayResults.length === 0 && partitionPieces.length === 0) {
             setVisibleMarkers([]);
             return;
         }
 
-        const collisionBuffers: { x1: number, y1: number, x2: number, y2: number }[] = [];
-        const newMarkers: React.ReactNode[] = [];
-
-        const isOverlapping = (box: { x1: number, y1: number, x2: number, y2: number }) => {
-            return collisionBuffers.some(target => {
-                return !(box.x2 < target.x1 ||
-                    box.x1 > target.x2 ||
-                    box.y2 < target.y1 ||
-                    box.y1 > target.y2);
-            });
+        const labelClasses = {
+            main: 'px-2 py-0.5 bg-red-600/95 text-white font-bold text-xs ring-1 ring-white/20 shadow-[0_0_15px_rgba(220,38,38,0.5)]',
+            part: 'px-1.5 py-0.5 bg-red-900/90 text-white font-bold text-[10px] ring-1 ring-white/20',
+            dim: 'px-1 py-0 bg-black/85 border border-white/20 text-slate-100 text-[9px] font-semibold shadow-md',
+            hole: 'px-1 py-0 bg-amber-950/85 border border-amber-400/40 text-amber-200 text-[9px] font-semibold shadow-md',
+            piece: 'px-1.5 py-0.5 bg-amber-500/95 text-black font-bold text-[10px] ring-1 ring-white/20',
+            pieceDim: 'px-1 py-0 bg-amber-950/90 border border-amber-400/60 text-amber-100 text-[9px] font-semibold shadow-md',
+            corner: 'px-1 py-0 bg-white/95 text-red-700 text-[9px] font-bold ring-1 ring-red-600/60 shadow-md',
+            share: 'px-1.5 py-0.5 bg-violet-600/95 text-white font-bold text-[10px] ring-1 ring-white/20',
+            shareDim: 'px-1 py-0 bg-violet-950/90 border border-violet-400/60 text-violet-100 text-[9px] font-semibold shadow-md',
         };
-
-        const getCollisionBox = (point: { x: number, y: number }, width: number, height: number, padding: number = 2) => ({
-            x1: point.x - width / 2 - padding,
-            y1: point.y - height / 2 - padding,
-            x2: point.x + width / 2 + padding,
-            y2: point.y + height / 2 + padding
-        });
-
-        // Search for a free position around the anchor
-        const findFreePosition = (anchor: { x: number, y: number }, width: number, height: number) => {
-            const offsets = [
-                { x: 0, y: 0 },       // Center
-                { x: 0, y: -25 },     // Top
-                { x: 0, y: 25 },      // Bottom
-                { x: -50, y: 0 },     // Left
-                { x: 50, y: 0 },      // Right
-                { x: -50, y: -25 },   // Top-Left
-                { x: 50, y: -25 },    // Top-Right
-                { x: -50, y: 25 },    // Bottom-Left
-                { x: 50, y: 25 },     // Bottom-Right
-                { x: 0, y: -50 },     // Far Top
-                { x: 0, y: 50 },      // Far Bottom
-                { x: -80, y: 0 },     // Far Left
-                { x: 80, y: 0 },      // Far Right
-            ];
-
-            for (const offset of offsets) {
-                const testPos = { x: anchor.x + offset.x, y: anchor.y + offset.y };
-                const box = getCollisionBox(testPos, width, height);
-                if (!isOverlapping(box)) return { pos: testPos, box };
-            }
-
-            // Final guarantee: find a spot with a slight random displacement if all predefined spots are full
-            const finalPos = { x: anchor.x + (Math.random() - 0.5) * 80, y: anchor.y + (Math.random() - 0.5) * 80 };
-            return { pos: finalPos, box: getCollisionBox(finalPos, width, height) };
+        const leaderColors = {
+            main: '#f87171', part: '#f87171', corner: '#f87171', dim: '#e2e8f0', hole: '#fcd34d',
+            piece: '#fbbf24', pieceDim: '#fbbf24', share: '#a78bfa', shareDim: '#a78bfa',
         };
 
-        const getLabelIcon = (text: string, isMain: boolean = false) => L.divIcon({
+        // Centred on the marker and turned to the label's angle, so it matches the box it was placed with
+        const getLabelIcon = (text: string, type: keyof typeof labelClasses, angle: number) => L.divIcon({
             className: 'custom-div-icon',
             html: `
-        <div class="flex flex-col items-center pointer-events-none">
-          <span class="${isMain
-                    ? 'px-2 py-0.5 bg-red-600/95 text-white font-bold text-xs ring-1 ring-white/20 shadow-[0_0_15px_rgba(220,38,38,0.5)]'
-                    : 'px-1 py-0 bg-black/85 border border-white/20 text-slate-100 text-[9px] font-semibold shadow-md'} rounded whitespace-nowrap backdrop-blur-[4px]">
+        <div class="absolute left-0 top-0 w-max pointer-events-none" style="transform: translate(-50%, -50%) rotate(${angle.toFixed(1)}deg)">
+          <span class="${labelClasses[type]} block rounded whitespace-nowrap backdrop-blur-[4px]">
             ${text}
           </span>
         </div>
@@ -118,99 +178,164 @@ function CollisionManagedMarkers({ data, selectedPolyIds, labelField }: {
             iconSize: L.point(0, 0),
         });
 
-        const selectedPolys = data.polygons.filter(p => selectedPolyIds.includes(p.id));
+        type PendingLabel = {
+            id: string,
+            type: keyof typeof labelClasses,
+            center: [number, number], // [lat, lng]
+            text: string,
+            edge?: Dimension['edge']
+        };
+        const dimensionLabel = (id: string, type: PendingLabel['type'], d: Dimension): PendingLabel => ({
+            id,
+            type,
+            center: [d.point[1], d.point[0]],
+            text: d.label,
+            edge: d.edge
+        });
 
         // Prepare all labels for sorting
-        const allPending = [
+        const allPending: PendingLabel[] = [
             ...selectedPolys.map(p => ({
                 id: `main-${p.id}`,
                 type: 'main' as const,
                 center: p.center,
-                text: `${p.feature.properties[labelField] || ''} | ${p.stats?.label || ''}`
+                text: `${p.title} | ${p.stats?.label || ''}`
             })),
-            ...selectedPolys.flatMap(p => (p.dimensions || []).map((d, i) => ({
-                id: `dim-${p.id}-${i}`,
-                type: 'dim' as const,
-                center: [d.point[1], d.point[0]] as [number, number],
-                text: d.label
-            })))
+            // Per-part areas for multi-part khasras
+            ...selectedPolys.flatMap(p => {
+                const parts = p.stats?.parts || [];
+                if (parts.length < 2) return [];
+                return parts.map(part => ({
+                    id: `part-${p.id}-${part.part}`,
+                    type: 'part' as const,
+                    center: [part.center[1], part.center[0]] as [number, number],
+                    text: `P${part.part + 1}: ${calculateKanalMarla(part.netSqMeters, unitSystem).label}`
+                }));
+            }),
+            // Named corners, for staking the khasra out against the corner table
+            ...selectedPolys.flatMap(p => namedCorners(p.feature, vertexNaming).map(c => ({
+                id: `corner-${p.id}-${c.name}`,
+                type: 'corner' as const,
+                center: [c.position[1], c.position[0]] as [number, number],
+                text: c.name
+            }))),
+            ...selectedPolys.flatMap(p => (p.dimensions || []).map((d, i) => dimensionLabel(`dim-${p.id}-${i}`, d.ring > 0 ? 'hole' : 'dim', d))),
+            // Intersected (affected) pieces from the overlay analysis
+            ...overlayResults.map(r => ({
+                id: `piece-${r.id}`,
+                type: 'piece' as const,
+                center: [r.pieceStats.parts?.[0]?.center[1] ?? 0, r.pieceStats.parts?.[0]?.center[0] ?? 0] as [number, number],
+                text: `${r.title}: ${formatArea(r.affectedSqFt, unitSystem)}`
+            })),
+            ...overlayResults.flatMap(r => r.pieceDimensions.map((d, i) => dimensionLabel(`piece-dim-${r.id}-${i}`, 'pieceDim', d))),
+            // Taqseem (partition) pieces
+            ...partitionPieces.map((piece, i) => ({
+                id: `share-${i}`,
+                type: 'share' as const,
+                center: [piece.stats.parts?.[0]?.center[1] ?? 0, piece.stats.parts?.[0]?.center[0] ?? 0] as [number, number],
+                text: `${piece.name}: ${piece.stats.label}`
+            })),
+            ...partitionPieces.flatMap((piece, p) => piece.dimensions.map((d, i) => dimensionLabel(`share-dim-${p}-${i}`, 'shareDim', d)))
         ];
 
-        // Process Main labels first, then dimensions
-        allPending.sort((a, b) => (a.type === 'main' ? -1 : 1));
-
-        allPending.forEach(item => {
-            const anchor = map.latLngToContainerPoint(L.latLng(item.center[0], item.center[1]));
-            const isMain = item.type === 'main';
-            const width = item.text.length * (isMain ? 7.5 : 6) + (isMain ? 12 : 8);
-            const height = isMain ? 26 : 18;
+        // Main labels first, then part areas, then corners, then dimensions
+        const priority = { main: 0, part: 1, piece: 1, share: 1, corner: 2, dim: 3, hole: 3, pieceDim: 3, shareDim: 3 };
+        const toScreen = ([lat, lng]: [number, number]) => map.latLngToContainerPoint(L.latLng(lat, lng));
+
+        const requests: LabelRequest[] = allPending.map(item => {
+            const isMain = priority[item.type] < 2;
+            const isCorner = item.type === 'corner';
+            return {
+                id: item.id,
+                anchor: toScreen(item.center),
+                width: item.text.length * (isMain ? 7.5 : 6) + (isMain ? 12 : 8),
+                height: isMain ? 26 : isCorner ? 16 : 18,
+                priority: priority[item.type],
+                edge: item.edge && [toScreen([item.edge[0][1], item.edge[0][0]]), toScreen([item.edge[1][1], item.edge[1][0]])],
+                required: isMain
+            };
+        });
 
-            const result = findFreePosition(anchor, width, height);
-            collisionBuffers.push(result.box);
+        const byId: Record<string, PendingLabel> = {};
+        allPending.forEach(item => { byId[item.id] = item; });
 
+        const leaders: React.ReactNode[] = [];
+        const newMarkers: React.ReactNode[] = [];
+        layoutLabels(requests).forEach(label => {
+            const item = byId[label.id];
             // Convert position back to LatLng so marker moves correctly with map
-            const finalLatLng = map.containerPointToLatLng(L.point(result.pos.x, result.pos.y));
-
+            const finalLatLng = map.containerPointToLatLng(L.point(label.position.x, label.position.y));
+            if (label.leader) {
+                leaders.push(
+                    <Polyline
+                        key={`leader-${item.id}`}
+                        positions={[item.center, finalLatLng]}
+                        pathOptions={{ color: leaderColors[item.type], weight: 1, opacity: 0.8 }}
+                        interactive={false}
+                    />
+                );
+            }
             newMarkers.push(
                 <Marker
                     key={item.id}
                     position={finalLatLng}
-                    icon={getLabelIcon(item.text, isMain)}
+                    icon={getLabelIcon(item.text, item.type, label.angle)}
+                    interactive={false}
                 />
             );
         });
 
-        setVisibleMarkers(newMarkers);
-    }, [data, selectedPolyIds, labelField, map]);
+        setVisibleMarkers([...leaders, ...newMarkers]);
+    }, [layers, overlayResults, editing, partitionPieces, unitSystem, vertexNaming, map]);
 
     useEffect(() => {
         calculateCollision();
-        map.on('zoomend moveend', calculateCollision);
+        // Panning keeps every label where it was relative to the others, so only zooming re-runs the layout
+        map.on('zoomend', calculateCollision);
         return () => {
-            map.off('zoomend moveend', calculateCollision);
+            map.off('zoomend', calculateCollision);
         };
     }, [calculateCollision, map]);
 
     return <>{visibleMarkers}</>;
 }
 
-export default function Map({ data, selectedPolyIds, labelField, baseLayer, fileVersion, onSelect }: MapProps) {
+export default function Map({ layers, activeLayerId, overlayResults, editing, partitionPieces, drawing, onPickPoint, issueLocation, baseLayer, rasters, controlPoints, fileVersion, unitSystem, vertexNaming, focusRequest, viewRequest, onViewChange, onSelect }: MapProps) {
     useEffect(() => {
         fixLeafletIcon();
     }, []);
 
-    const polygonStyle = (isSelected: boolean) => ({
-        fillColor: isSelected ? '#ef4444' : '#334155',
-        weight: isSelected ? 3 : 1.5,
-        opacity: 1,
-        color: isSelected ? '#ef4444' : '#64748b',
-        fillOpacity: isSelected ? 0.35 : 0.05,
+    const polygonStyle = (layer: KhasraLayer, isSelected: boolean) => ({
+        fillColor: isSelected ? '#ef4444' : layer.color,
+        weight: isSelected ? 3 : layer.id === activeLayerId ? 1.5 : 1,
+        opacity: layer.opacity,
+        color: isSelected ? '#ef4444' : layer.color,
+        fillOpacity: (isSelected ? 0.35 : 0.05) * layer.opacity,
     });
 
-    const onEachFeature = (feature: any, layer: L.Layer) => {
+    const onEachFeature = (khasraLayer: KhasraLayer) => (feature: any, layer: L.Layer) => {
+        const poly = khasraLayer.data.polygons.find(p => p.feature === feature);
         layer.on({
             click: (e) => {
                 L.DomEvent.stopPropagation(e);
-                const poly = data?.polygons.find(p => p.feature === feature);
                 if (poly) {
-                    onSelect(poly.id);
+                    onSelect(khasraLayer.id, poly.id);
                 }
             },
             mouseover: (e: any) => {
                 const layer = e.target;
-                layer.setStyle({ fillOpacity: 0.4 });
+                layer.setStyle({ fillOpacity: 0.4 * khasraLayer.opacity });
             },
             mouseout: (e: any) => {
                 const layer = e.target;
-                const isSelected = selectedPolyIds.includes(data?.polygons.find(p => p.feature === feature)?.id || '');
-                layer.setStyle({ fillOpacity: isSelected ? 0.35 : 0.05 });
+                layer.setStyle(polygonStyle(khasraLayer, khasraLayer.selectedPolyIds.includes(poly?.id || '')));
             }
         });
     };
 
     const tileUrl = baseLayer === 'satellite'
         ? 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}'
-        : 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+        : 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
 
     const filterClass = baseLayer === 'dark' ? 'grayscale-[0.5] invert-[0.85] hue-rotate-[180deg]' : '';
 
@@ -223,7 +348,7 @@ export default function Map({ data, selectedPolyIds, labelField, baseLayer, file
             zoomControl={false}
         >
             <div className={filterClass}>
-                <TileLayer
+                <CachedTileLayer
                     url={tileUrl}
                     maxZoom={24}
                     maxNativeZoom={baseLayer === 'satellite' ? 20 : 19}
@@ -231,25 +356,76 @@ export default function Map({ data, selectedPolyIds, labelField, baseLayer, file
                 />
             </div>
 
-            {data?.geojson && (
+            {/* Scans sit between the base map and the khasra layers */}
+            <Pane name="scans" style={{ zIndex: 250 }}>
+                {[...rasters].reverse().filter(r => r.visible).map(raster => (
+                    <ImageOverlay key={raster.id} url={raster.url} bounds={raster.bounds} opacity={raster.opacity} interactive={false} />
+                ))}
+            </Pane>
+
+            {/* One pane per layer, below the overlay pane (400) and stacked by list position so the first layer is on
+                top. Panes are keyed on that position because Leaflet only reads a pane's z-index when creating it. */}
+            {layers.map((layer, index) => layer.visible && (
+                <Pane key={`pane-${layer.id}-${index}`} name={`khasras-${layer.id}-${index}`} style={{ zIndex: 399 - index }}>
+                    <GeoJSON
+                        key={`geojson-${layer.id}-${fileVersion}-${layer.revision}-${layer.selectedPolyIds.join(',')}-${layer.color}-${layer.opacity}-${activeLayerId}-${baseLayer}-${drawing.tool}-${!!onPickPoint}-${!!controlPoints?.pickingId}`}
+                        data={layer.data.geojson}
+                        style={(feature) => {
+                            const poly = layer.data.polygons.find(p => p.feature === feature);
+                            return polygonStyle(layer, layer.selectedPolyIds.includes(poly?.id || ''));
+                        }}
+                        onEachFeature={onEachFeature(layer)}
+                        interactive={!drawing.tool && !onPickPoint && !controlPoints?.pickingId} // Let clicks through to the drawing tools
+                    />
+                </Pane>
+            ))}
+
+            {overlayResults.length > 0 && (
                 <GeoJSON
-                    key={`geojson-${fileVersion}-${selectedPolyIds.length}-${baseLayer}`}
-                    data={data.geojson}
-                    style={(feature) => {
-                        const poly = data.polygons.find(p => p.feature === feature);
-                        return polygonStyle(selectedPolyIds.includes(poly?.id || ''));
-                    }}
-                    onEachFeature={onEachFeature}
+                    key={`overlay-${overlayResults.map(r => r.id).join(',')}-${overlayResults.reduce((sum, r) => sum + r.affectedSqFt, 0)}`}
+                    data={{ type: 'FeatureCollection', features: overlayResults.map(r => r.piece) } as FeatureCollection}
+                    style={{ color: '#f59e0b', weight: 2, dashArray: '6 4', fillColor: '#f59e0b', fillOpacity: 0.35 }}
+                    interactive={false}
+                />
+            )}
+
+            {partitionPieces.length > 0 && (
+                <GeoJSON
+                    key={`partition-${JSON.stringify(partitionPieces.map(p => p.feature.geometry))}`}
+                    data={{ type: 'FeatureCollection', features: partitionPieces.map(p => p.feature) } as FeatureCollection}
+                    style={{ color: '#8b5cf6', weight: 2, fillColor: '#8b5cf6', fillOpacity: 0.25 }}
+                    interactive={false}
+                />
+            )}
+
+            {issueLocation && (
+                <GeoJSON
+                    key={`issue-${JSON.stringify(issueLocation.geometry)}`}
+                    data={issueLocation}
+                    style={{ color: '#f43f5e', weight: 3, dashArray: '4 4', fillColor: '#f43f5e', fillOpacity: 0.3 }}
+                    pointToLayer={(_, latlng) => L.circleMarker(latlng, { radius: 9, color: '#f43f5e', weight: 3, fillOpacity: 0.2 })}
+                    interactive={false}
                 />
             )}
 
             <CollisionManagedMarkers
-                data={data}
-                selectedPolyIds={selectedPolyIds}
-                labelField={labelField}
+                layers={layers}
+                overlayResults={overlayResults}
+                editing={editing}
+                partitionPieces={partitionPieces}
+                unitSystem={unitSystem}
+                vertexNaming={vertexNaming}
             />
 
-            <MapResizer data={data} fileVersion={fileVersion} />
+            {onPickPoint && <PointPicker onPick={onPickPoint} />}
+            {controlPoints && <ControlPointMarkers picking={controlPoints} layers={layers} />}
+            <DrawTools key={drawing.tool ?? 'none'} drawing={drawing} />
+            {editing && <VertexEditor editing={editing} layers={layers} />}
+
+            <MapResizer layers={layers} fileVersion={fileVersion} />
+            <FlyToFocus focusRequest={focusRequest} />
+            <ApplyView viewRequest={viewRequest} />
+            <ViewTracker onViewChange={onViewChange} />
 
             <style jsx global>{`
         .leaflet-container {
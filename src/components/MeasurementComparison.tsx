@@ -0,0 +1,51 @@
+"use client";
+
+import React from 'react';
+import { MEASUREMENT_MODES, METERS_PER_FOOT, MeasurementMode, ModeMeasurement } from '@/lib/geo-utils';
+
+interface MeasurementComparisonProps {
+    comparison: ModeMeasurement[];
+    activeMode: MeasurementMode;
+}
+
+const SQ_FT_PER_SQ_M = 1 / Math.pow(METERS_PER_FOOT, 2);
+
+const signed = (value: number, digits: number) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+/**
+ * Shows how far each measurement mode is from the active one, in sq ft / ft and percent.
+ * Differences of a few hundredths of a percent are projection distortion; bigger gaps point at digitising.
+ */
+export default function MeasurementComparison({ comparison, activeMode }: MeasurementComparisonProps) {
+    const active = comparison.find(c => c.mode === activeMode);
+    if (!active) return null;
+
+    return (
+        <div className="mt-2 pt-2 border-t border-slate-700/50">
+            <div className="grid grid-cols-[1fr_auto_auto] gap-x-3 text-[9px] uppercase tracking-wider text-slate-500 mb-0.5">
+                <span>Mode</span>
+                <span className="text-right">Δ Area</span>
+                <span className="text-right">Δ Perim.</span>
+            </div>
+            {comparison.map(c => {
+                const name = MEASUREMENT_MODES.find(m => m.id === c.mode)?.name ?? c.mode;
+                const areaDiff = (c.areaSqMeters - active.areaSqMeters) * SQ_FT_PER_SQ_M;
+                const areaPct = active.areaSqMeters > 0 ? (c.areaSqMeters / active.areaSqMeters - 1) * 100 : 0;
+                const perimeterDiff = (c.perimeterMeters - active.perimeterMeters) / METERS_PER_FOOT;
+                const isActive = c.mode === activeMode;
+
+                return (
+                    <div
+                        key={c.mode}
+                        className={`grid grid-cols-[1fr_auto_auto] gap-x-3 text-[10px] ${isActive ? 'text-red-400 font-bold' : 'text-slate-300'}`}
+                        title={`${Math.round(c.areaSqMeters * SQ_FT_PER_SQ_M).toLocaleString()} sq ft, perimeter ${(c.perimeterMeters / METERS_PER_FOOT).toFixed(1)} ft`}
+                    >
+                        <span>{name}</span>
+                        <span className="text-right">{isActive ? '—' : `${signed(areaDiff, 1)} ft² (${signed(areaPct, 3)}%)`}</span>
+                        <span className="text-right">{isActive ? '—' : `${signed(perimeterDiff, 2)} ft`}</span>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import React from 'react';
+import { Ruler } from 'lucide-react';
+import { MEASUREMENT_MODES, MeasurementMode } from '@/lib/geo-utils';
+
+interface MeasurementModeSelectProps {
+    mode: MeasurementMode;
+    elevation: number;
+    onModeChange: (mode: MeasurementMode) => void;
+    onElevationChange: (elevation: number) => void;
+}
+
+/**
+ * Chooses how lengths and areas are measured; the ground mode also takes the site elevation.
+ */
+export default function MeasurementModeSelect({ mode, elevation, onModeChange, onElevationChange }: MeasurementModeSelectProps) {
+    return (
+        <div className="flex items-center gap-2 bg-slate-800/80 rounded-lg p-1 border border-slate-700">
+            <div className="pl-2 flex items-center gap-1.5 text-slate-400">
+                <Ruler className="w-3.5 h-3.5" />
+                <span className="text-[10px] font-bold uppercase tracking-wider">Measure</span>
+            </div>
+            <select
+                value={mode}
+                onChange={(e) => onModeChange(e.target.value as MeasurementMode)}
+                className="bg-slate-900 text-xs font-bold px-3 py-1.5 rounded-md border-none focus:ring-1 focus:ring-red-500 outline-none cursor-pointer"
+            >
+                {MEASUREMENT_MODES.map(m => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+            </select>
+            {mode === 'ground' && (
+                <label className="flex items-center gap-1 pr-2 text-[10px] text-slate-400" title="Mean site height above the WGS 84 ellipsoid">
+                    <input
+                        type="number"
+                        value={elevation}
+                        onChange={(e) => onElevationChange(Number(e.target.value) || 0)}
+                        className="w-16 bg-slate-900 text-xs font-bold px-2 py-1.5 rounded-md outline-none focus:ring-1 focus:ring-red-500"
+                    />
+                    m
+                </label>
+            )}
+        </div>
+    );
+}
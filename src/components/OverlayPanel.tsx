@@ -0,0 +1,99 @@
+"use client";
+
+import React from 'react';
+import { Scissors } from 'lucide-react';
+import { KhasraLayer } from './Dashboard';
+import { OverlayResult } from '@/lib/overlay';
+import { SCHEDULE_EXPORT_FORMATS, ScheduleExportFormat } from '@/lib/data-export';
+import { UnitSystem, formatArea } from '@/lib/units';
+
+interface OverlayPanelProps {
+    layers: KhasraLayer[]; // Layers that can be overlaid on the active one
+    overlayLayerId: string;
+    results: OverlayResult[] | null; // Null while the worker intersects the layers
+    unitSystem: UnitSystem;
+    onOverlayChange: (layerId: string) => void;
+    onChoose: (id: string) => void;
+    onExport: (format: ScheduleExportFormat) => void;
+}
+
+/**
+ * How much of each khasra of the active layer falls inside another layer (acquisition polygon, road corridor).
+ */
+export default function OverlayPanel({ layers, overlayLayerId, results, unitSystem, onOverlayChange, onChoose, onExport }: OverlayPanelProps) {
+    const totalAffected = (results ?? []).reduce((sum, r) => sum + r.affectedSqFt, 0);
+    const totalRemaining = (results ?? []).reduce((sum, r) => sum + r.remainingSqFt, 0);
+
+    return (
+        <div className="p-4 rounded-xl bg-slate-800/30 border border-slate-700/50 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                    <Scissors className="w-4 h-4" /> Overlay
+                </h3>
+                <select
+                    value={overlayLayerId}
+                    onChange={(e) => onOverlayChange(e.target.value)}
+                    className="bg-slate-800 text-[10px] text-slate-300 border border-slate-700 rounded px-1.5 py-1 outline-none focus:border-red-500 max-w-[150px]"
+                >
+                    <option value="">Affected by…</option>
+                    {layers.map(l => (
+                        <option key={l.id} value={l.id}>{l.name}</option>
+                    ))}
+                </select>
+            </div>
+
+            {overlayLayerId && (!results ? (
+                <p className="text-[10px] text-slate-500">Intersecting…</p>
+            ) : results.length === 0 ? (
+                <p className="text-[10px] text-slate-500">No khasra of the active layer falls inside this layer.</p>
+            ) : (
+                <>
+                    <div>
+                        <div className="text-lg font-bold text-amber-400">{formatArea(totalAffected, unitSystem)}</div>
+                        <div className="text-[10px] text-slate-500">
+                            affected in {results.length} khasra{results.length === 1 ? '' : 's'} · {formatArea(totalRemaining, unitSystem)} remaining
+                        </div>
+                    </div>
+
+                    <div className="max-h-48 overflow-y-auto custom-scrollbar">
+                        <table className="w-full text-[10px]">
+                            <thead>
+                                <tr className="text-slate-500 text-left">
+                                    <th className="font-semibold pb-1">Khasra</th>
+                                    <th className="font-semibold pb-1 text-right">Affected</th>
+                                    <th className="font-semibold pb-1 text-right">Remaining</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {results.map(r => (
+                                    <tr
+                                        key={r.id}
+                                        onClick={() => onChoose(r.id)}
+                                        className="text-slate-300 hover:text-white cursor-pointer"
+                                    >
+                                        <td className="py-0.5 pr-2 truncate max-w-[70px]">{r.title}</td>
+                                        <td className="py-0.5 text-right text-amber-300 whitespace-nowrap">{formatArea(r.affectedSqFt, unitSystem)}</td>
+                                        <td className="py-0.5 pl-2 text-right whitespace-nowrap">{formatArea(r.remainingSqFt, unitSystem)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="flex items-center gap-1">
+                        <span className="text-[9px] text-slate-500 font-bold uppercase tracking-wider mr-1">Schedule</span>
+                        {SCHEDULE_EXPORT_FORMATS.map(f => (
+                            <button
+                                key={f.id}
+                                onClick={() => onExport(f.id)}
+                                className="flex-1 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded text-[9px] font-bold uppercase tracking-wider text-slate-300"
+                            >
+                                {f.name}
+                            </button>
+                        ))}
+                    </div>
+                </>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Plus, Split, X } from 'lucide-react';
+import type { Feature } from 'geojson';
+import ExportDataMenu from './ExportDataMenu';
+import { CRS, Dimension, MeasureOptions } from '@/lib/geo-utils';
+import { DataExportFormat } from '@/lib/data-export';
+import { PARTITION_DIRECTIONS, PartitionDirection, PartitionPiece, PartitionShare, partitionFeature } from '@/lib/partition';
+import { UnitSystem, formatArea } from '@/lib/units';
+
+interface PartitionPanelProps {
+    title: string;
+    feature: Feature;
+    totalSqFt: number;
+    dimensions: Dimension[];
+    crs: CRS;
+    measureOptions: MeasureOptions;
+    unitSystem: UnitSystem;
+    pieces: PartitionPiece[];
+    onPiecesChange: (pieces: PartitionPiece[]) => void;
+    onAddLayer: () => void;
+    onExport: (format: DataExportFormat) => void;
+    onClose: () => void;
+}
+
+type ShareInput = 'area' | 'fraction';
+
+interface ShareRow {
+    name: string;
+    amounts: string[]; // One per area unit of the unit system, largest first
+    numerator: string;
+    denominator: string;
+}
+
+const newRow = (index: number, units: UnitSystem, denominator: number = 1): ShareRow => ({
+    name: `Share ${index + 1}`,
+    amounts: units.areaUnits.map(() => ''),
+    numerator: '1',
+    denominator: String(denominator),
+});
+
+const inputClass = 'bg-slate-800 text-[10px] text-slate-300 border border-slate-700 rounded px-1.5 py-1 outline-none focus:border-red-500';
+
+/**
+ * Taqseem: splits the selected khasra into shares given in area units or as fractions.
+ */
+export default function PartitionPanel({
+    title, feature, totalSqFt, dimensions, crs, measureOptions, unitSystem, pieces, onPiecesChange, onAddLayer, onExport, onClose
+}: PartitionPanelProps) {
+    const [input, setInput] = useState<ShareInput>('fraction');
+    const [rows, setRows] = useState<ShareRow[]>(() => [0, 1].map(i => newRow(i, unitSystem, 2)));
+    const [sideIndex, setSideIndex] = useState(0);
+    const [direction, setDirection] = useState<PartitionDirection>('parallel');
+    const [error, setError] = useState<string | null>(null);
+
+    const sides = dimensions.filter(d => d.part === 0 && d.ring === 0);
+
+    const shareArea = (row: ShareRow) => input === 'fraction'
+        ? (totalSqFt * Number(row.numerator)) / Number(row.denominator)
+        : row.amounts.reduce((sum, amount, i) => sum + (Number(amount) || 0) * unitSystem.areaUnits[i].sqFt, 0);
+
+    const updateRow = (index: number, patch: Partial<ShareRow>) => {
+        setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+    };
+
+    const splitEqually = (count: number) => {
+        setInput('fraction');
+        setRows(Array.from({ length: count }, (_, i) => newRow(i, unitSystem, count)));
+    };
+
+    const handlePartition = () => {
+        const shares: PartitionShare[] = rows.map(row => ({ name: row.name.trim() || 'Share', areaSqFt: shareArea(row) }));
+        try {
+            onPiecesChange(partitionFeature(feature, shares, crs, { ...measureOptions, units: unitSystem, sideIndex, direction }));
+            setError(null);
+        } catch (err) {
+            console.error('Partition error:', err);
+            onPiecesChange([]);
+            setError(err instanceof Error ? err.message : 'Could not partition the khasra.');
+        }
+    };
+
+    const requestedSqFt = rows.reduce((sum, row) => sum + (shareArea(row) || 0), 0);
+
+    return (
+        <div className="p-4 rounded-xl bg-slate-800/30 border border-violet-500/40 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                    <Split className="w-4 h-4" /> Taqseem · <span className="text-violet-400 normal-case">{title}</span>
+                </h3>
+                <button onClick={onClose} className="p-1 text-slate-400 hover:text-white" title="Close">
+                    <X className="w-3.5 h-3.5" />
+                </button>
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-1 bg-slate-900/60 rounded-md p-0.5">
+                    {(['fraction', 'area'] as const).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => setInput(mode)}
+                            className={`px-2 py-1 rounded text-[9px] font-bold uppercase tracking-wider transition-all ${input === mode ? 'bg-slate-800 text-violet-400' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {mode === 'fraction' ? 'Fractions' : unitSystem.areaUnits.map(u => u.name).join('-')}
+                        </button>
+                    ))}
+                </div>
+                <select
+                    value=""
+                    onChange={(e) => e.target.value && splitEqually(Number(e.target.value))}
+                    className={inputClass}
+                >
+                    <option value="">Equal shares…</option>
+                    {[2, 3, 4, 5, 6, 8, 10].map(n => <option key={n} value={n}>{n} shares</option>)}
+                </select>
+            </div>
+
+            <div className="space-y-1.5">
+                {rows.map((row, index) => (
+                    <div key={index} className="flex items-center gap-1">
+                        <input
+                            value={row.name}
+                            onChange={(e) => updateRow(index, { name: e.target.value })}
+                            className={`${inputClass} w-20`}
+                        />
+                        {input === 'fraction' ? (
+                            <>
+                                <input
+                                    type="number" min={0} value={row.numerator}
+                                    onChange={(e) => updateRow(index, { numerator: e.target.value })}
+                                    className={`${inputClass} w-12`}
+                                />
+                                <span className="text-slate-500 text-xs">/</span>
+                                <input
+                                    type="number" min={1} value={row.denominator}
+                                    onChange={(e) => updateRow(index, { denominator: e.target.value })}
+                                    className={`${inputClass} w-12`}
+                                />
+                            </>
+                        ) : unitSystem.areaUnits.map((unit, u) => (
+                            <input
+                                key={unit.name}
+                                type="number" min={0} placeholder={unit.abbr} value={row.amounts[u] ?? ''}
+                                onChange={(e) => updateRow(index, {
+                                    amounts: unitSystem.areaUnits.map((_, i) => (i === u ? e.target.value : row.amounts[i] ?? '')),
+                                })}
+                                className={`${inputClass} w-12`}
+                                title={unit.name}
+                            />
+                        ))}
+                        <button
+                            onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                            disabled={rows.length === 1}
+                            className="ml-auto p-1 text-slate-500 hover:text-red-400 disabled:opacity-30"
+                            title="Remove share"
+                        >
+                            <X className="w-3 h-3" />
+                        </button>
+                    </div>
+                ))}
+                <div className="flex items-center justify-between">
+                    <button
+                        onClick={() => setRows(prev => [...prev, newRow(prev.length, unitSystem)])}
+                        className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-white"
+                    >
+                        <Plus className="w-3 h-3" /> Add Share
+                    </button>
+                    <span className={`text-[10px] ${requestedSqFt > totalSqFt + 0.01 ? 'text-red-400' : 'text-slate-500'}`}>
+                        {formatArea(requestedSqFt, unitSystem)} of {formatArea(totalSqFt, unitSystem)}
+                    </span>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                <select value={sideIndex} onChange={(e) => setSideIndex(Number(e.target.value))} className={inputClass}>
+                    {sides.map((side, i) => (
+                        <option key={i} value={i}>Side {i + 1} · {side.label}</option>
+                    ))}
+                </select>
+                <select value={direction} onChange={(e) => setDirection(e.target.value as PartitionDirection)} className={inputClass}>
+                    {PARTITION_DIRECTIONS.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+            </div>
+
+            <button
+                onClick={handlePartition}
+                className="w-full py-2 bg-violet-600 hover:bg-violet-500 rounded-lg text-[10px] font-bold uppercase tracking-wider"
+            >
+                Partition
+            </button>
+            {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+            {pieces.length > 0 && (
+                <div className="space-y-2">
+                    <div className="space-y-0.5">
+                        {pieces.map((piece, i) => (
+                            <div key={i} className="flex justify-between gap-2 text-[10px] text-slate-300">
+                                <span className="truncate">{piece.name}</span>
+                                <span className="text-violet-300 whitespace-nowrap">{piece.stats.label}</span>
+                            </div>
+                        ))}
+                    </div>
+                    <button
+                        onClick={onAddLayer}
+                        className="w-full py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-[10px] font-bold uppercase tracking-wider"
+                    >
+                        Add Pieces as Layer
+                    </button>
+                    <ExportDataMenu count={pieces.length} scopeLabel="pieces" onExport={onExport} />
+                </div>
+            )}
+        </div>
+    );
+}
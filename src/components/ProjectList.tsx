@@ -0,0 +1,75 @@
+"use client";
+
+import React, { useRef } from 'react';
+import { FolderOpen, Trash2, Upload } from 'lucide-react';
+import { ProjectSummary } from '@/lib/project-store';
+
+interface ProjectListProps {
+    projects: ProjectSummary[];
+    onOpen: (id: string) => void;
+    onDelete: (id: string) => void;
+    onImport: (file: File) => void;
+}
+
+/**
+ * Projects saved in this browser, most recent first, plus importing a project file from a colleague.
+ */
+export default function ProjectList({ projects, onOpen, onDelete, onImport }: ProjectListProps) {
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    return (
+        <div className="w-full space-y-3 text-left">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                    <FolderOpen className="w-4 h-4" /> Recent Projects
+                </h3>
+                <button
+                    onClick={() => fileInput.current?.click()}
+                    className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-white"
+                    title="Open a .khasra.json project file"
+                >
+                    <Upload className="w-3 h-3" /> Import
+                </button>
+                <input
+                    ref={fileInput}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onImport(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+
+            {projects.length === 0 && (
+                <p className="text-[10px] text-slate-500">Projects are saved in this browser as you work and listed here.</p>
+            )}
+            <div className="space-y-2">
+                {projects.map(project => (
+                    <div
+                        key={project.id}
+                        onClick={() => onOpen(project.id)}
+                        className="p-3 rounded-xl bg-slate-800/50 border border-slate-700/50 hover:border-red-500/50 transition-all cursor-pointer group"
+                    >
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-xs font-bold text-slate-200 group-hover:text-red-400 truncate">{project.name}</span>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onDelete(project.id); }}
+                                className="p-1 text-slate-500 hover:text-red-400"
+                                title="Delete project"
+                            >
+                                <Trash2 className="w-3 h-3" />
+                            </button>
+                        </div>
+                        <div className="flex items-center justify-between gap-2 text-[10px] text-slate-500">
+                            <span className="truncate">{project.layerNames.join(', ')}</span>
+                            <span className="whitespace-nowrap">{new Date(project.savedAt).toLocaleString()}</span>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
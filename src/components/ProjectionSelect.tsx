@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Globe, Plus } from 'lucide-react';
+import { AUTO_CRS, ProjectionDef, isBuiltInProjection, listProjections, registerProjection } from '@/lib/projection';
+import { CRS } from '@/lib/geo-utils';
+
+interface ProjectionSelectProps {
+    value: CRS;
+    onChange: (crs: CRS) => void;
+}
+
+const ADD_CUSTOM = '__add_custom__';
+
+/**
+ * Measurement projection dropdown: Auto (UTM zone per parcel), the built-in grids and user-defined proj4 strings.
+ */
+export default function ProjectionSelect({ value, onChange }: ProjectionSelectProps) {
+    const [projections, setProjections] = useState<ProjectionDef[]>(() => listProjections());
+    const [isAdding, setIsAdding] = useState(false);
+    const [name, setName] = useState('');
+    const [epsg, setEpsg] = useState('');
+    const [definition, setDefinition] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const groups = projections.reduce<Record<string, ProjectionDef[]>>((acc, p) => {
+        const group = p.group ?? 'Custom';
+        (acc[group] ||= []).push(p);
+        return acc;
+    }, {});
+
+    const handleSelect = (id: string) => {
+        if (id === ADD_CUSTOM) {
+            setIsAdding(true);
+            return;
+        }
+        onChange(id as CRS);
+    };
+
+    const handleAdd = () => {
+        const code = epsg.trim().replace(/^EPSG:/i, '');
+        if (code && !/^\d+$/.test(code)) {
+            setError('EPSG code must be a number.');
+            return;
+        }
+        if (!definition.trim()) {
+            setError('Enter a proj4 definition.');
+            return;
+        }
+
+        const id = (code ? `EPSG:${code}` : `custom:${Date.now().toString(36)}`) as CRS;
+        if (isBuiltInProjection(id)) {
+            setError(`${id} is already in the list.`);
+            return;
+        }
+        try {
+            registerProjection({
+                id,
+                name: name.trim() || (code ? `EPSG:${code}` : 'Custom projection'),
+                proj4: definition.trim(),
+            });
+        } catch {
+            setError('proj4 could not read this definition.');
+            return;
+        }
+
+        setProjections(listProjections());
+        onChange(id);
+        setIsAdding(false);
+        setName('');
+        setEpsg('');
+        setDefinition('');
+        setError(null);
+    };
+
+    return (
+        <div className="relative flex items-center gap-2 bg-slate-800/80 rounded-lg p-1 border border-slate-700">
+            <div className="pl-2 flex items-center gap-1.5 text-slate-400">
+                <Globe className="w-3.5 h-3.5" />
+                <span className="text-[10px] font-bold uppercase tracking-wider">Projection</span>
+            </div>
+            <select
+                value={value}
+                onChange={(e) => handleSelect(e.target.value)}
+                className="bg-slate-900 text-xs font-bold px-3 py-1.5 rounded-md border-none focus:ring-1 focus:ring-red-500 outline-none cursor-pointer max-w-[220px]"
+            >
+                <option value={AUTO_CRS}>Auto (UTM zone per parcel)</option>
+                {Object.entries(groups).map(([group, items]) => (
+                    <optgroup key={group} label={group}>
+                        {items.map(p => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                    </optgroup>
+                ))}
+                <option value={ADD_CUSTOM}>+ Add custom projection…</option>
+            </select>
+
+            {isAdding && (
+                <div className="absolute top-full right-0 mt-2 w-80 p-4 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-[1000] space-y-2">
+                    <div className="flex items-center gap-2 text-slate-300">
+                        <Plus className="w-3.5 h-3.5" />
+                        <span className="text-[10px] font-bold uppercase tracking-wider">Custom Projection</span>
+                    </div>
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Name (e.g. Lahore local grid)"
+                        className="w-full bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-2 py-1.5 outline-none focus:border-red-500"
+                    />
+                    <input
+                        value={epsg}
+                        onChange={(e) => setEpsg(e.target.value)}
+                        placeholder="EPSG code (optional)"
+                        className="w-full bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-2 py-1.5 outline-none focus:border-red-500"
+                    />
+                    <textarea
+                        value={definition}
+                        onChange={(e) => setDefinition(e.target.value)}
+                        placeholder="+proj=tmerc +lat_0=0 +lon_0=74 +k=1 +x_0=0 +y_0=0 ..."
+                        rows={3}
+                        className="w-full bg-slate-800 text-[10px] font-mono text-slate-200 border border-slate-700 rounded px-2 py-1.5 outline-none focus:border-red-500"
+                    />
+                    {error && <p className="text-[10px] text-red-400">{error}</p>}
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleAdd}
+                            className="flex-1 py-1.5 bg-red-600 hover:bg-red-500 rounded text-[10px] font-bold uppercase tracking-wider"
+                        >
+                            Add
+                        </button>
+                        <button
+                            onClick={() => { setIsAdding(false); setError(null); }}
+                            className="flex-1 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] font-bold uppercase tracking-wider"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import React, { useState } from 'react';
+import { AlertTriangle, Compass } from 'lucide-react';
+import type { FeatureCollection } from 'geojson';
+import { ProjectionDef, isValidDefinition, sourceCRSOptions } from '@/lib/projection';
+
+// 'known' is for layers made in the app (drawn parcels, taqseem pieces), whose CRS needs no .prj
+export type PrjStatus = 'parsed' | 'missing' | 'unreadable' | 'known';
+
+export interface SourceInfo {
+    geojson: FeatureCollection;
+    crs: ProjectionDef;
+    prjCRS: ProjectionDef | null;
+    prjStatus: PrjStatus;
+    looksProjected: boolean;
+}
+
+interface SourceCRSPanelProps {
+    source: SourceInfo;
+    onChange: (crs: ProjectionDef) => void;
+}
+
+const CUSTOM_ID = 'custom';
+
+/**
+ * Shows where the file's coordinates came from and lets the user override the source CRS by hand.
+ */
+export default function SourceCRSPanel({ source, onChange }: SourceCRSPanelProps) {
+    const [customDefinition, setCustomDefinition] = useState(source.crs.id === CUSTOM_ID ? source.crs.proj4 : '');
+    const [customError, setCustomError] = useState(false);
+    const [showCustom, setShowCustom] = useState(source.crs.id === CUSTOM_ID);
+
+    const options = source.prjCRS ? [source.prjCRS, ...sourceCRSOptions()] : sourceCRSOptions();
+
+    const handleSelect = (id: string) => {
+        if (id === CUSTOM_ID) {
+            setShowCustom(true);
+            return;
+        }
+        setShowCustom(false);
+        const crs = options.find(o => o.id === id);
+        if (crs) onChange(crs);
+    };
+
+    const applyCustom = () => {
+        const definition = customDefinition.trim();
+        if (!definition || !isValidDefinition(definition)) {
+            setCustomError(true);
+            return;
+        }
+        setCustomError(false);
+        onChange({ id: CUSTOM_ID, name: 'Custom definition', proj4: definition });
+    };
+
+    const warning = source.prjStatus === 'missing'
+        ? 'The file does not declare its CRS (no .prj). Coordinates are assumed to be WGS 84 unless you choose the source CRS below.'
+        : source.prjStatus === 'unreadable'
+            ? 'The file\'s CRS definition could not be read. Choose the source CRS below.'
+            : null;
+
+    return (
+        <div className={`p-3 rounded-xl border ${warning ? 'border-amber-500/50 bg-amber-500/5' : 'border-slate-700/50 bg-slate-800/30'}`}>
+            <div className="flex items-center gap-2 mb-2">
+                {warning
+                    ? <AlertTriangle className="w-3.5 h-3.5 text-amber-400" />
+                    : <Compass className="w-3.5 h-3.5 text-slate-400" />}
+                <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Source CRS</span>
+                {source.prjStatus === 'parsed' && (
+                    <span className="ml-auto text-[9px] font-bold uppercase text-green-500">from file</span>
+                )}
+            </div>
+
+            {warning && <p className="text-[11px] text-amber-300 mb-2 leading-snug">{warning}</p>}
+            {source.looksProjected && source.crs.proj4.includes('+proj=longlat') && (
+                <p className="text-[11px] text-amber-300 mb-2 leading-snug">
+                    These coordinates are outside the latitude/longitude range, so the file is almost certainly projected.
+                </p>
+            )}
+
+            <select
+                value={showCustom ? CUSTOM_ID : source.crs.id}
+                onChange={(e) => handleSelect(e.target.value)}
+                className="w-full bg-slate-900 text-[11px] text-slate-200 border border-slate-700 rounded px-2 py-1.5 outline-none focus:border-red-500"
+            >
+                {options.map(o => (
+                    <option key={o.id} value={o.id}>{o.name}</option>
+                ))}
+                <option value={CUSTOM_ID}>Custom proj4 / WKT…</option>
+            </select>
+
+            {showCustom && (
+                <div className="mt-2 space-y-2">
+                    <textarea
+                        value={customDefinition}
+                        onChange={(e) => setCustomDefinition(e.target.value)}
+                        placeholder="+proj=tmerc +lat_0=0 +lon_0=74 ..."
+                        rows={3}
+                        className={`w-full bg-slate-900 text-[10px] font-mono text-slate-200 border rounded px-2 py-1.5 outline-none ${customError ? 'border-red-500' : 'border-slate-700 focus:border-red-500'}`}
+                    />
+                    {customError && <p className="text-[10px] text-red-400">proj4 could not read this definition.</p>}
+                    <button
+                        onClick={applyCustom}
+                        className="w-full py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] font-bold uppercase tracking-wider"
+                    >
+                        Apply
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Sigma } from 'lucide-react';
+import { KhasraData } from './Dashboard';
+import { ParcelArea, ParcelMetrics, summarizeAreas } from '@/lib/summary';
+import { UnitSystem, formatArea, formatSecondaryArea } from '@/lib/units';
+
+interface SummaryPanelProps {
+    polygons: KhasraData[];
+    selectedPolyIds: string[];
+    labelField: string;
+    availableFields: string[];
+    metrics: ParcelMetrics[] | null; // One per polygon, measured in the worker; null while it runs
+    unitSystem: UnitSystem;
+}
+
+type Scope = 'selection' | 'file';
+
+/**
+ * Totals for the current selection or the whole file (mauza), with an optional breakdown by attribute.
+ */
+export default function SummaryPanel({ polygons, selectedPolyIds, labelField, availableFields, metrics, unitSystem }: SummaryPanelProps) {
+    const [scope, setScope] = useState<Scope>('selection');
+    const [groupField, setGroupField] = useState('');
+
+    const summary = useMemo(() => {
+        if (!metrics) return null;
+        const parcels: ParcelArea[] = [];
+        polygons.forEach((poly, idx) => {
+            if (scope === 'selection' && !selectedPolyIds.includes(poly.id)) return;
+
+            parcels.push({
+                id: poly.id,
+                title: String(poly.feature.properties?.[labelField] ?? `ID: ${idx + 1}`),
+                areaSqFt: metrics[idx].areaSqFt,
+                properties: poly.feature.properties,
+            });
+        });
+        return summarizeAreas(parcels, groupField || undefined);
+    }, [polygons, selectedPolyIds, scope, groupField, labelField, metrics]);
+
+    return (
+        <div className="p-4 rounded-xl bg-slate-800/30 border border-slate-700/50 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                    <Sigma className="w-4 h-4" /> Summary
+                </h3>
+                <div className="flex items-center gap-1 bg-slate-900/60 rounded-md p-0.5">
+                    {(['selection', 'file'] as const).map(s => (
+                        <button
+                            key={s}
+                            onClick={() => setScope(s)}
+                            className={`px-2 py-1 rounded text-[9px] font-bold uppercase tracking-wider transition-all ${scope === s ? 'bg-slate-800 text-red-500' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {s === 'selection' ? 'Selection' : 'Whole File'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {!summary ? (
+                <p className="text-[10px] text-slate-500">Measuring…</p>
+            ) : summary.count === 0 ? (
+                <p className="text-[10px] text-slate-500">Select khasras on the map or in the list to total them.</p>
+            ) : (
+                <>
+                    <div>
+                        <div className="text-lg font-bold text-white">{formatArea(summary.areaSqFt, unitSystem)}</div>
+                        <div className="text-[10px] text-slate-500">
+                            {summary.count} khasra{summary.count === 1 ? '' : 's'} · {formatSecondaryArea(summary.areaSqFt, unitSystem)}
+                        </div>
+                    </div>
+
+                    {summary.count > 1 && summary.largest && summary.smallest && (
+                        <div className="space-y-0.5 text-[10px]">
+                            <div className="flex justify-between gap-2 text-slate-300">
+                                <span className="text-slate-500">Largest</span>
+                                <span className="truncate">{summary.largest.title} · {formatArea(summary.largest.areaSqFt, unitSystem)}</span>
+                            </div>
+                            <div className="flex justify-between gap-2 text-slate-300">
+                                <span className="text-slate-500">Smallest</span>
+                                <span className="truncate">{summary.smallest.title} · {formatArea(summary.smallest.areaSqFt, unitSystem)}</span>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="pt-2 border-t border-slate-700/50">
+                        <div className="flex items-center gap-2 mb-1.5">
+                            <span className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">Group By:</span>
+                            <select
+                                value={groupField}
+                                onChange={(e) => setGroupField(e.target.value)}
+                                className="bg-slate-800 text-[10px] text-slate-300 border border-slate-700 rounded px-1.5 py-1 outline-none focus:border-red-500 max-w-[140px]"
+                            >
+                                <option value="">None</option>
+                                {availableFields.map(f => (
+                                    <option key={f} value={f}>{f}</option>
+                                ))}
+                            </select>
+                        </div>
+                        {summary.groups.length > 0 && (
+                            <div className="max-h-48 overflow-y-auto custom-scrollbar">
+                                <div className="grid grid-cols-[1fr_auto_auto] gap-x-3 text-[9px] uppercase tracking-wider text-slate-500 mb-0.5">
+                                    <span>{groupField}</span>
+                                    <span className="text-right">#</span>
+                                    <span className="text-right">Area</span>
+                                </div>
+                                {summary.groups.map(g => (
+                                    <div key={g.key} className="grid grid-cols-[1fr_auto_auto] gap-x-3 text-[10px] text-slate-300">
+                                        <span className="truncate">{g.key}</span>
+                                        <span className="text-right">{g.count}</span>
+                                        <span className="text-right">{formatArea(g.areaSqFt, unitSystem)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
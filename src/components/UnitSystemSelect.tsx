@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Scale, Plus, Trash2 } from 'lucide-react';
+import { AreaUnit, UNIT_SYSTEM_PRESETS, UnitSystem } from '@/lib/units';
+
+interface UnitSystemSelectProps {
+    value: UnitSystem;
+    onChange: (system: UnitSystem) => void;
+}
+
+const CUSTOM_ID = 'custom';
+
+// Each saved custom system gets an id of its own, so views and caches keyed on the id pick up the edit.
+// Projects saved before carry the bare CUSTOM_ID.
+const isCustom = (system: UnitSystem) => system.id === CUSTOM_ID || system.id.startsWith(`${CUSTOM_ID}-`);
+
+const inputClass = 'bg-slate-800 text-xs text-slate-200 border border-slate-700 rounded px-2 py-1 outline-none focus:border-red-500';
+
+/**
+ * Regional land-unit system picker, with an editor for a user-defined custom system.
+ */
+export default function UnitSystemSelect({ value, onChange }: UnitSystemSelectProps) {
+    const [draft, setDraft] = useState<UnitSystem | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const startEditing = () => {
+        setDraft({
+            ...value,
+            id: CUSTOM_ID,
+            name: isCustom(value) ? value.name : 'Custom',
+            areaUnits: value.areaUnits.map(u => ({ ...u })),
+            secondaryArea: { ...value.secondaryArea },
+        });
+        setError(null);
+    };
+
+    const handleSelect = (id: string) => {
+        if (id === CUSTOM_ID) {
+            startEditing();
+            return;
+        }
+        const preset = UNIT_SYSTEM_PRESETS.find(p => p.id === id);
+        if (preset) onChange(preset);
+    };
+
+    const updateAreaUnit = (index: number, patch: Partial<AreaUnit>) => {
+        if (!draft) return;
+        const areaUnits = draft.areaUnits.map((u, i) => (i === index ? { ...u, ...patch } : u));
+        setDraft({ ...draft, areaUnits });
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        const sizes = draft.areaUnits.map(u => u.sqFt);
+        if (draft.areaUnits.length === 0 || sizes.some(size => !(size > 0))) {
+            setError('Every area unit needs a positive size in sq ft.');
+            return;
+        }
+        if (sizes.some((size, i) => i > 0 && size >= sizes[i - 1])) {
+            setError('List area units from largest to smallest.');
+            return;
+        }
+        if (!(draft.length.feet > 0) || !(draft.secondaryArea.sqFt > 0)) {
+            setError('Length and secondary units need a positive size.');
+            return;
+        }
+        onChange({ ...draft, id: `${CUSTOM_ID}-${Date.now()}` });
+        setDraft(null);
+    };
+
+    return (
+        <div className="relative flex items-center gap-2 bg-slate-800/80 rounded-lg p-1 border border-slate-700">
+            <div className="pl-2 flex items-center gap-1.5 text-slate-400">
+                <Scale className="w-3.5 h-3.5" />
+                <span className="text-[10px] font-bold uppercase tracking-wider">Units</span>
+            </div>
+            <select
+                value={isCustom(value) ? CUSTOM_ID : value.id}
+                onChange={(e) => handleSelect(e.target.value)}
+                className="bg-slate-900 text-xs font-bold px-3 py-1.5 rounded-md border-none focus:ring-1 focus:ring-red-500 outline-none cursor-pointer max-w-[180px]"
+            >
+                {UNIT_SYSTEM_PRESETS.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+                <option value={CUSTOM_ID}>{isCustom(value) ? `${value.name} (edit…)` : 'Custom…'}</option>
+            </select>
+
+            {draft && (
+                <div className="absolute top-full right-0 mt-2 w-96 p-4 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-[1000] space-y-3">
+                    <div className="text-[10px] font-bold uppercase tracking-wider text-slate-300">Custom Unit System</div>
+                    <input
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        placeholder="Name"
+                        className={`w-full ${inputClass}`}
+                    />
+
+                    <div>
+                        <div className="text-[9px] uppercase tracking-wider text-slate-500 mb-1">Length unit (size in feet)</div>
+                        <div className="grid grid-cols-3 gap-1.5">
+                            <input value={draft.length.name} onChange={(e) => setDraft({ ...draft, length: { ...draft.length, name: e.target.value } })} placeholder="Karam" className={inputClass} />
+                            <input value={draft.length.abbr} onChange={(e) => setDraft({ ...draft, length: { ...draft.length, abbr: e.target.value } })} placeholder="k" className={inputClass} />
+                            <input type="number" step="any" value={draft.length.feet} onChange={(e) => setDraft({ ...draft, length: { ...draft.length, feet: Number(e.target.value) } })} className={inputClass} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <div className="text-[9px] uppercase tracking-wider text-slate-500 mb-1">Area units, largest first (size in sq ft)</div>
+                        <div className="space-y-1.5">
+                            {draft.areaUnits.map((unit, i) => (
+                                <div key={i} className="grid grid-cols-[1fr_60px_1fr_auto] gap-1.5">
+                                    <input value={unit.name} onChange={(e) => updateAreaUnit(i, { name: e.target.value })} placeholder="Kanal" className={inputClass} />
+                                    <input value={unit.abbr} onChange={(e) => updateAreaUnit(i, { abbr: e.target.value })} placeholder="K" className={inputClass} />
+                                    <input type="number" step="any" value={unit.sqFt} onChange={(e) => updateAreaUnit(i, { sqFt: Number(e.target.value) })} className={inputClass} />
+                                    <button
+                                        onClick={() => setDraft({ ...draft, areaUnits: draft.areaUnits.filter((_, j) => j !== i) })}
+                                        className="p-1 text-slate-500 hover:text-red-400"
+                                        title="Remove unit"
+                                    >
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <button
+                            onClick={() => setDraft({ ...draft, areaUnits: [...draft.areaUnits, { name: '', abbr: '', sqFt: 1 }] })}
+                            className="mt-1.5 flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-white"
+                        >
+                            <Plus className="w-3 h-3" /> Add unit
+                        </button>
+                    </div>
+
+                    <div>
+                        <div className="text-[9px] uppercase tracking-wider text-slate-500 mb-1">Secondary figure (size in sq ft)</div>
+                        <div className="grid grid-cols-2 gap-1.5">
+                            <input value={draft.secondaryArea.name} onChange={(e) => setDraft({ ...draft, secondaryArea: { ...draft.secondaryArea, name: e.target.value, abbr: e.target.value } })} placeholder="Sq Ft" className={inputClass} />
+                            <input type="number" step="any" value={draft.secondaryArea.sqFt} onChange={(e) => setDraft({ ...draft, secondaryArea: { ...draft.secondaryArea, sqFt: Number(e.target.value) } })} className={inputClass} />
+                        </div>
+                    </div>
+
+                    {error && <p className="text-[10px] text-red-400">{error}</p>}
+                    <div className="flex gap-2">
+                        <button onClick={handleSave} className="flex-1 py-1.5 bg-red-600 hover:bg-red-500 rounded text-[10px] font-bold uppercase tracking-wider">
+                            Use System
+                        </button>
+                        <button onClick={() => setDraft(null)} className="flex-1 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] font-bold uppercase tracking-wider">
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle, Loader2, Wrench } from 'lucide-react';
+import { METERS_PER_FOOT } from '@/lib/geo-utils';
+import { ISSUE_KINDS, IssueKind, TopologyIssue } from '@/lib/topology';
+import { UnitSystem, formatArea } from '@/lib/units';
+
+interface ValidationPanelProps {
+    issues: TopologyIssue[];
+    checking: boolean; // The layer is still being checked in the background
+    selectedIssueId: string | null;
+    unitSystem: UnitSystem;
+    titleOf: (polyId: string) => string;
+    onShow: (issue: TopologyIssue) => void;
+    onFix: (issue: TopologyIssue) => void;
+    onFixAll: () => void;
+}
+
+// Issues listed before "Show all"
+const PAGE_SIZE = 20;
+
+/**
+ * Geometry and topology problems of the active layer. Clicking one zooms the map to it.
+ */
+export default function ValidationPanel({ issues, checking, selectedIssueId, unitSystem, titleOf, onShow, onFix, onFixAll }: ValidationPanelProps) {
+    const [kind, setKind] = useState<IssueKind | null>(null);
+    const [showAll, setShowAll] = useState(false);
+
+    if (checking) {
+        return (
+            <div className="px-4 py-3 rounded-xl bg-slate-800/30 border border-slate-700/50 flex items-center gap-2 text-[10px] text-slate-400">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" /> Checking geometry...
+            </div>
+        );
+    }
+
+    if (issues.length === 0) {
+        return (
+            <div className="px-4 py-3 rounded-xl bg-slate-800/30 border border-slate-700/50 flex items-center gap-2 text-[10px] text-emerald-400">
+                <CheckCircle className="w-3.5 h-3.5" /> No geometry problems found
+            </div>
+        );
+    }
+
+    const counts = ISSUE_KINDS
+        .map(k => ({ ...k, count: issues.filter(i => i.kind === k.id).length }))
+        .filter(k => k.count > 0);
+    const shown = issues.filter(i => !kind || i.kind === kind);
+    const fixableCount = issues.filter(i => i.fixable).length;
+    const kindName = (id: IssueKind) => ISSUE_KINDS.find(k => k.id === id)?.name ?? id;
+
+    return (
+        <div className="p-4 rounded-xl bg-slate-800/30 border border-amber-500/40 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 text-amber-400" /> Validation · <span className="text-amber-400">{issues.length}</span>
+                </h3>
+                {fixableCount > 0 && (
+                    <button
+                        onClick={onFixAll}
+                        className="flex items-center gap-1 px-2 py-1 bg-amber-600 hover:bg-amber-500 rounded text-[9px] font-bold uppercase tracking-wider"
+                        title="Remove duplicates, close rings and snap small gaps"
+                    >
+                        <Wrench className="w-3 h-3" /> Fix {fixableCount} safe
+                    </button>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+                {counts.map(k => (
+                    <button
+                        key={k.id}
+                        onClick={() => setKind(kind === k.id ? null : k.id)}
+                        className={`px-2 py-0.5 rounded-full text-[9px] font-bold border transition-all ${kind === k.id ? 'bg-amber-500/20 border-amber-500 text-amber-300' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                    >
+                        {k.name} · {k.count}
+                    </button>
+                ))}
+            </div>
+
+            <div className="space-y-1">
+                {(showAll ? shown : shown.slice(0, PAGE_SIZE)).map(issue => (
+                    <div
+                        key={issue.id}
+                        onClick={() => onShow(issue)}
+                        className={`p-2 rounded-lg border cursor-pointer transition-all ${issue.id === selectedIssueId ? 'border-amber-500 bg-amber-500/10' : 'border-slate-700/50 bg-slate-800/50 hover:border-amber-500/50'}`}
+                    >
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-[10px] font-bold text-amber-300">{kindName(issue.kind)}</span>
+                            <span className="text-[10px] text-slate-400 truncate">{issue.polyIds.map(titleOf).join(' ↔ ')}</span>
+                        </div>
+                        <div className="flex items-center justify-between gap-2 mt-0.5">
+                            <span className="text-[10px] text-slate-500">
+                                {issue.detail}
+                                {issue.areaSqMeters !== undefined && ` · ${formatArea(issue.areaSqMeters / (METERS_PER_FOOT * METERS_PER_FOOT), unitSystem)}`}
+                            </span>
+                            {issue.fixable && (
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); onFix(issue); }}
+                                    className="text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-amber-400"
+                                >
+                                    Fix
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+                {!showAll && shown.length > PAGE_SIZE && (
+                    <button
+                        onClick={() => setShowAll(true)}
+                        className="w-full py-1 text-[9px] font-bold uppercase tracking-wider text-slate-400 hover:text-white"
+                    >
+                        Show all {shown.length}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
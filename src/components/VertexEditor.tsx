@@ -0,0 +1,136 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Marker, Polygon, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import * as turf from '@turf/turf';
+import type { Feature, Position } from 'geojson';
+import { KhasraLayer, VertexEditing } from './Dashboard';
+import { getPolygonParts } from '@/lib/geo-utils';
+import { VertexRef, deleteVertex, edgeMidpoints, insertVertex, listVertices, moveVertex } from '@/lib/vertex-edit';
+
+// Screen distance within which a dragged vertex jumps onto a neighbouring parcel's vertex
+const SNAP_PIXELS = 12;
+
+const vertexIcon = L.divIcon({
+    className: 'custom-div-icon',
+    html: '<div class="w-3 h-3 -translate-x-1/2 -translate-y-1/2 bg-white border-2 border-cyan-500 rounded-sm shadow"></div>',
+    iconSize: L.point(0, 0),
+});
+
+const midpointIcon = L.divIcon({
+    className: 'custom-div-icon',
+    html: '<div class="w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 bg-cyan-500/60 border border-white/70 rounded-full"></div>',
+    iconSize: L.point(0, 0),
+});
+
+const labelIcon = (text: string, main: boolean) => L.divIcon({
+    className: 'custom-div-icon',
+    html: `
+        <div class="flex flex-col items-center pointer-events-none">
+          <span class="${main
+            ? 'px-2 py-0.5 bg-cyan-600/95 text-white font-bold text-xs'
+            : 'px-1 py-0 bg-black/85 border border-cyan-400/50 text-cyan-100 text-[9px] font-semibold'} rounded whitespace-nowrap">
+            ${text}
+          </span>
+        </div>
+      `,
+    iconSize: L.point(0, 0),
+});
+
+const toLatLng = (position: Position): [number, number] => [position[1], position[0]];
+
+/**
+ * Drag handles for the khasra being edited. The draft geometry and its dimension / area labels follow the
+ * drag; the change is committed (one undo step) when the drag ends.
+ */
+export default function VertexEditor({ editing, layers }: { editing: VertexEditing, layers: KhasraLayer[] }) {
+    const map = useMap();
+    const [draft, setDraft] = useState<Feature | null>(null);
+    const shown = draft ?? editing.feature;
+    const { stats, dimensions } = editing.measure(shown);
+
+    // Vertices of other visible parcels near the khasra
+    const snapTargets = useMemo(() => {
+        const [minX, minY, maxX, maxY] = turf.bbox(editing.feature);
+        const margin = Math.max(maxX - minX, maxY - minY);
+        const near = (p: Position) => p[0] >= minX - margin && p[0] <= maxX + margin && p[1] >= minY - margin && p[1] <= maxY + margin;
+        return layers
+            .filter(l => l.visible)
+            .flatMap(l => l.data.polygons.filter(p => !(l.id === editing.layerId && p.id === editing.polyId)))
+            .flatMap(p => listVertices(p.feature).map(v => v.position).filter(near));
+    }, [layers, editing.feature, editing.layerId, editing.polyId]);
+
+    const snap = (latlng: L.LatLng): Position => {
+        if (editing.snapping) {
+            const point = map.latLngToContainerPoint(latlng);
+            let best: Position | null = null;
+            let bestDistance = SNAP_PIXELS;
+            for (const target of snapTargets) {
+                const distance = point.distanceTo(map.latLngToContainerPoint(toLatLng(target)));
+                if (distance < bestDistance) {
+                    best = target;
+                    bestDistance = distance;
+                }
+            }
+            if (best) return best;
+        }
+        return [latlng.lng, latlng.lat];
+    };
+
+    const dragHandlers = (apply: (position: Position) => Feature) => ({
+        drag: (e: L.LeafletEvent) => setDraft(apply(snap((e.target as L.Marker).getLatLng()))),
+        dragend: (e: L.LeafletEvent) => {
+            setDraft(null);
+            editing.onChange(apply(snap((e.target as L.Marker).getLatLng())));
+        },
+    });
+
+    const removeVertex = (ref: VertexRef) => {
+        const next = deleteVertex(editing.feature, ref);
+        if (next) editing.onChange(next);
+    };
+
+    const center = stats.parts?.[0]?.center;
+
+    return (
+        <>
+            <Polygon
+                positions={getPolygonParts(shown).map(rings => rings.map(ring => ring.map(toLatLng)))}
+                pathOptions={{ color: '#06b6d4', weight: 2, fillColor: '#06b6d4', fillOpacity: 0.15 }}
+                interactive={false}
+            />
+
+            {dimensions.map((d, i) => (
+                <Marker key={`edit-dim-${i}`} position={toLatLng(d.point)} icon={labelIcon(d.label, false)} interactive={false} />
+            ))}
+            {center && <Marker position={toLatLng(center)} icon={labelIcon(stats.label, true)} interactive={false} />}
+
+            {/* Midpoints come from the committed geometry so their keys stay stable while one is dragged */}
+            {edgeMidpoints(editing.feature).map(m => (
+                <Marker
+                    key={`mid-${m.part}-${m.ring}-${m.index}`}
+                    position={toLatLng(m.position)}
+                    icon={midpointIcon}
+                    draggable
+                    eventHandlers={{
+                        click: () => editing.onChange(insertVertex(editing.feature, m, m.position)),
+                        ...dragHandlers(position => insertVertex(editing.feature, m, position)),
+                    }}
+                />
+            ))}
+            {listVertices(shown).map(v => (
+                <Marker
+                    key={`vertex-${v.part}-${v.ring}-${v.index}`}
+                    position={toLatLng(v.position)}
+                    icon={vertexIcon}
+                    draggable
+                    eventHandlers={{
+                        contextmenu: () => removeVertex(v),
+                        ...dragHandlers(position => moveVertex(editing.feature, v, position)),
+                    }}
+                />
+            ))}
+        </>
+    );
+}
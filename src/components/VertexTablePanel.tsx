@@ -0,0 +1,72 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Copy, Download, MapPin } from 'lucide-react';
+import { KhasraData } from './Dashboard';
+import { CRS } from '@/lib/geo-utils';
+import { VERTEX_NAMINGS, VertexNaming, calculateVertices, vertexTableText } from '@/lib/vertices';
+
+interface VertexTablePanelProps {
+    poly: KhasraData;
+    crs: CRS | string;
+    naming: VertexNaming;
+    onNamingChange: (naming: VertexNaming) => void;
+    onExport: () => void;
+}
+
+/**
+ * Corner coordinates of a selected khasra for staking it out: WGS84, easting / northing and the angle at each corner.
+ */
+export default function VertexTablePanel({ poly, crs, naming, onNamingChange, onExport }: VertexTablePanelProps) {
+    const [copied, setCopied] = useState(false);
+    const table = useMemo(() => calculateVertices(poly.feature, crs, naming), [poly.feature, crs, naming]);
+
+    const handleCopy = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        navigator.clipboard.writeText(vertexTableText(table))
+            .then(() => {
+                setCopied(true);
+                setTimeout(() => setCopied(false), 2000);
+            })
+            .catch(error => console.error('Could not copy the corner table:', error));
+    };
+
+    return (
+        <div className="mt-2 pt-2 border-t border-slate-700/50 space-y-1" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between gap-2 text-[9px] uppercase tracking-wider text-slate-500">
+                <span className="flex items-center gap-1"><MapPin className="w-3 h-3" /> Corners</span>
+                <span className="flex items-center gap-2">
+                    <select
+                        value={naming}
+                        onChange={(e) => onNamingChange(e.target.value as VertexNaming)}
+                        className="bg-slate-900 text-[9px] text-slate-300 border border-slate-700 rounded px-1 py-0.5 outline-none"
+                        title="How corners are named on the map and in the table"
+                    >
+                        {VERTEX_NAMINGS.map(n => <option key={n.id} value={n.id}>{n.name}</option>)}
+                    </select>
+                    <button onClick={handleCopy} className="flex items-center gap-1 font-bold hover:text-white" title="Copy the corner table">
+                        <Copy className="w-3 h-3" /> {copied ? 'Copied' : 'Copy'}
+                    </button>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onExport(); }}
+                        className="flex items-center gap-1 font-bold hover:text-white"
+                        title="Download the corner table as CSV"
+                    >
+                        <Download className="w-3 h-3" /> CSV
+                    </button>
+                </span>
+            </div>
+            <div className="text-[9px] text-slate-500">{table.crsName}</div>
+            {table.vertices.map(v => (
+                <div key={v.name} className="grid grid-cols-[1.75rem_1fr_auto] gap-x-2 text-[10px] text-slate-300">
+                    <span className={`font-bold ${v.ring > 0 ? 'text-amber-300' : 'text-red-400'}`}>{v.name}</span>
+                    <span className="font-mono leading-tight">
+                        {v.position[1].toFixed(7)}, {v.position[0].toFixed(7)}
+                        <span className="block text-slate-500">E {v.easting.toFixed(2)} · N {v.northing.toFixed(2)}</span>
+                    </span>
+                    <span className="font-mono text-right">{v.interiorAngle.toFixed(1)}°</span>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,367 @@
+import { strToU8, zipSync } from 'fflate';
+import type { Feature, FeatureCollection, Point } from 'geojson';
+import { CRS, METERS_PER_FOOT, describeRing } from './geo-utils';
+import { OverlayResult } from './overlay';
+import { AUTO_CRS } from './projection';
+import { ReportEntry } from './report';
+import { writeShapefileZip } from './shapefile-writer';
+import { DEFAULT_UNIT_SYSTEM, UnitSystem, formatArea, kanalMarlaUnits } from './units';
+import { VertexNaming, calculateVertices } from './vertices';
+
+export type DataExportFormat = 'csv' | 'xlsx' | 'geojson' | 'shapefile' | 'label-points' | 'corners';
+
+export const DATA_EXPORT_FORMATS: { id: DataExportFormat; name: string }[] = [
+  { id: 'csv', name: 'Table (CSV)' },
+  { id: 'xlsx', name: 'Table (Excel .xlsx)' },
+  { id: 'geojson', name: 'Polygons with stats (GeoJSON)' },
+  { id: 'shapefile', name: 'Polygons with stats (Shapefile .zip)' },
+  { id: 'label-points', name: 'Dimension label points (GeoJSON)' },
+  { id: 'corners', name: 'Corner coordinates (CSV)' },
+];
+
+export type ScheduleExportFormat = 'csv' | 'xlsx' | 'geojson' | 'shapefile';
+
+export const SCHEDULE_EXPORT_FORMATS: { id: ScheduleExportFormat; name: string }[] = [
+  { id: 'csv', name: 'CSV' },
+  { id: 'xlsx', name: 'Excel' },
+  { id: 'geojson', name: 'GeoJSON' },
+  { id: 'shapefile', name: 'SHP' },
+];
+
+export interface DataExportOptions {
+  labelField: string;
+  units?: UnitSystem;
+  crs?: CRS; // For corner eastings / northings of khasras measured without one
+  vertexNaming?: VertexNaming;
+  fileName?: string; // Without extension
+}
+
+type Cell = string | number;
+
+interface Table {
+  headers: string[];
+  rows: Cell[][];
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+function perimeterMeters(entry: ReportEntry): number {
+  return entry.dimensions.filter(d => d.ring === 0).reduce((sum, d) => sum + d.lengthMeters, 0);
+}
+
+function areaSqMeters(entry: ReportEntry): number {
+  return entry.stats.areaSqFt * METERS_PER_FOOT * METERS_PER_FOOT;
+}
+
+/**
+ * One row per khasra: areas, perimeter, then every side (holes included) in report numbering.
+ */
+export function buildStatsTable(entries: ReportEntry[], options: DataExportOptions): Table {
+  const units = options.units ?? DEFAULT_UNIT_SYSTEM;
+  const sideCount = Math.max(0, ...entries.map(e => e.dimensions.length));
+  const hasKanalMarla = kanalMarlaUnits(units) !== null;
+  const headers = [
+    options.labelField || 'Khasra',
+    'Area (sq m)', 'Area (sq ft)', `Area (${units.name})`,
+    ...(hasKanalMarla ? ['Kanal', 'Marla', 'Total Marlas'] : []),
+    'Perimeter (m)', 'Perimeter (ft)',
+  ];
+  for (let i = 1; i <= sideCount; i++) {
+    headers.push(`Side ${i} (m)`, `Side ${i} (${units.length.name})`);
+  }
+
+  const rows = entries.map(entry => {
+    const perimeter = perimeterMeters(entry);
+    const row: Cell[] = [
+      entry.title,
+      round(areaSqMeters(entry), 2),
+      round(entry.stats.areaSqFt, 2),
+      entry.stats.label,
+      ...(hasKanalMarla ? [entry.stats.kanals ?? '', round(entry.stats.marlas ?? 0, 2), round(entry.stats.totalMarlas ?? 0, 2)] : []),
+      round(perimeter, 2),
+      round(perimeter / METERS_PER_FOOT, 2),
+    ];
+    for (let i = 0; i < sideCount; i++) {
+      const dim = entry.dimensions[i];
+      row.push(dim ? round(dim.lengthMeters, 2) : '', dim ? dim.label : '');
+    }
+    return row;
+  });
+
+  return { headers, rows };
+}
+
+function csvCell(cell: Cell): string {
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with a UTF-8 BOM so Excel keeps Urdu / Gurmukhi owner names intact.
+ */
+export function tableToCSV(table: Table): string {
+  const lines = [table.headers, ...table.rows].map(row => row.map(csvCell).join(','));
+  return '\uFEFF' + lines.join('\r\n');
+}
+
+function xmlEscape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Minimal single-sheet .xlsx (inline strings, no styles), zipped with fflate.
+ */
+export function tableToXLSX(table: Table, sheetName: string = 'Khasras'): Uint8Array {
+  const XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+  const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  const PKG_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+  const sheetRows = [table.headers, ...table.rows].map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`;
+      if (cell === '') return '';
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(cell)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(`${XML}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>'),
+    '_rels/.rels': strToU8(`${XML}<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`),
+    'xl/workbook.xml': strToU8(`${XML}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+      `<sheets><sheet name="${xmlEscape(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`),
+    'xl/_rels/workbook.xml.rels': strToU8(`${XML}<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`),
+    'xl/worksheets/sheet1.xml': strToU8(`${XML}<worksheet xmlns="${MAIN_NS}"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`),
+  });
+}
+
+/**
+ * The khasra polygons with the computed figures written into their properties.
+ * Property names stay within 10 characters so they survive the trip through a DBF.
+ */
+export function featuresWithStats(entries: ReportEntry[]): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: entries.map((entry): Feature => {
+      const sides: Record<string, number> = {};
+      entry.dimensions.forEach((dim, i) => {
+        sides[`side_${i + 1}`] = round(dim.lengthMeters, 2);
+      });
+      return {
+        type: 'Feature',
+        geometry: entry.feature.geometry,
+        properties: {
+          ...entry.feature.properties,
+          area_sqm: round(areaSqMeters(entry), 2),
+          area_sqft: round(entry.stats.areaSqFt, 2),
+          area_lbl: entry.stats.label,
+          ...(entry.stats.totalMarlas !== undefined && {
+            kanal: entry.stats.kanals,
+            marla: round(entry.stats.marlas ?? 0, 2),
+            tot_marla: round(entry.stats.totalMarlas, 2),
+          }),
+          perim_m: round(perimeterMeters(entry), 2),
+          crs: entry.stats.crs?.name ?? '',
+          ...sides,
+        },
+      };
+    }),
+  };
+}
+
+/**
+ * One point per dimension label, at the edge midpoint where the map draws it.
+ */
+export function dimensionLabelPoints(entries: ReportEntry[]): FeatureCollection<Point> {
+  return {
+    type: 'FeatureCollection',
+    features: entries.flatMap(entry => {
+      const partCount = entry.stats.parts?.length ?? 1;
+      return entry.dimensions.map((dim, i) => ({
+        type: 'Feature' as const,
+        geometry: { type: 'Point' as const, coordinates: dim.point },
+        properties: {
+          khasra: entry.title,
+          side: i + 1,
+          ring: describeRing(dim.part, dim.ring, partCount),
+          length_m: round(dim.lengthMeters, 3),
+          length_ft: round(dim.lengthMeters / METERS_PER_FOOT, 3),
+          label: dim.label,
+        },
+      }));
+    }),
+  };
+}
+
+/**
+ * One row per corner of every khasra: WGS84 position, easting / northing in its measuring CRS and interior angle.
+ */
+export function buildVertexTable(entries: ReportEntry[], options: DataExportOptions): Table {
+  const headers = [
+    options.labelField || 'Khasra', 'Corner', 'Ring', 'Latitude', 'Longitude', 'Easting (m)', 'Northing (m)', 'CRS', 'Interior Angle (deg)',
+  ];
+  const rows = entries.flatMap(entry => {
+    const { crsName, vertices } = calculateVertices(entry.feature, entry.stats.crs?.id ?? options.crs ?? AUTO_CRS, options.vertexNaming ?? 'letters');
+    const partCount = entry.stats.parts?.length ?? 1;
+    return vertices.map(v => [
+      entry.title,
+      v.name,
+      describeRing(v.part, v.ring, partCount),
+      round(v.position[1], 7),
+      round(v.position[0], 7),
+      round(v.easting, 3),
+      round(v.northing, 3),
+      crsName,
+      round(v.interiorAngle, 2),
+    ]);
+  });
+  return { headers, rows };
+}
+
+/**
+ * Triggers a browser download of the given data.
+ */
+export function saveFile(data: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Downloads the computed khasra figures in the chosen format.
+ */
+export function exportKhasraData(entries: ReportEntry[], format: DataExportFormat, options: DataExportOptions): void {
+  const base = options.fileName || 'khasras';
+  switch (format) {
+    case 'csv':
+      saveFile(tableToCSV(buildStatsTable(entries, options)), `${base}.csv`, 'text/csv;charset=utf-8');
+      break;
+    case 'xlsx':
+      saveFile(tableToXLSX(buildStatsTable(entries, options)) as BlobPart, `${base}.xlsx`,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      break;
+    case 'geojson':
+      saveFile(JSON.stringify(featuresWithStats(entries)), `${base}.geojson`, 'application/geo+json');
+      break;
+    case 'shapefile':
+      saveFile(writeShapefileZip([
+        { name: base, collection: featuresWithStats(entries) },
+        { name: `${base}_labels`, collection: dimensionLabelPoints(entries) },
+      ]) as BlobPart, `${base}_shp.zip`, 'application/zip');
+      break;
+    case 'label-points':
+      saveFile(JSON.stringify(dimensionLabelPoints(entries)), `${base}_labels.geojson`, 'application/geo+json');
+      break;
+    case 'corners':
+      saveFile(tableToCSV(buildVertexTable(entries, options)), `${base}_corners.csv`, 'text/csv;charset=utf-8');
+      break;
+  }
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? round((part / whole) * 100, 2) : 0);
+
+/**
+ * Acquisition schedule: per khasra the total, acquired and remaining area, with a totals row.
+ */
+export function buildAcquisitionTable(results: OverlayResult[], options: DataExportOptions): Table {
+  const units = options.units ?? DEFAULT_UNIT_SYSTEM;
+  const hasKanalMarla = kanalMarlaUnits(units) !== null;
+  const headers = [
+    'Sr. No.', options.labelField || 'Khasra',
+    `Total Area (${units.name})`, 'Total (sq ft)',
+    `Acquired Area (${units.name})`, ...(hasKanalMarla ? ['Acquired Kanal', 'Acquired Marla'] : []), 'Acquired (sq ft)',
+    `Remaining Area (${units.name})`, 'Remaining (sq ft)', 'Acquired %',
+  ];
+
+  const rows: Cell[][] = results.map((result, i) => [
+    i + 1,
+    result.title,
+    formatArea(result.totalSqFt, units),
+    round(result.totalSqFt, 2),
+    formatArea(result.affectedSqFt, units),
+    ...(hasKanalMarla ? [result.pieceStats.kanals ?? '', round(result.pieceStats.marlas ?? 0, 2)] : []),
+    round(result.affectedSqFt, 2),
+    formatArea(result.remainingSqFt, units),
+    round(result.remainingSqFt, 2),
+    percent(result.affectedSqFt, result.totalSqFt),
+  ]);
+
+  const total = (key: 'totalSqFt' | 'affectedSqFt' | 'remainingSqFt') => results.reduce((sum, r) => sum + r[key], 0);
+  rows.push([
+    '', 'Total',
+    formatArea(total('totalSqFt'), units), round(total('totalSqFt'), 2),
+    formatArea(total('affectedSqFt'), units), ...(hasKanalMarla ? ['', ''] : []), round(total('affectedSqFt'), 2),
+    formatArea(total('remainingSqFt'), units), round(total('remainingSqFt'), 2),
+    percent(total('affectedSqFt'), total('totalSqFt')),
+  ]);
+
+  return { headers, rows };
+}
+
+/**
+ * The acquired pieces with their figures, for plotting the schedule in a GIS.
+ */
+export function acquiredPieces(results: OverlayResult[], options: DataExportOptions): FeatureCollection {
+  const units = options.units ?? DEFAULT_UNIT_SYSTEM;
+  return {
+    type: 'FeatureCollection',
+    features: results.map((result): Feature => ({
+      type: 'Feature',
+      geometry: result.piece.geometry,
+      properties: {
+        khasra: result.title,
+        total_sqft: round(result.totalSqFt, 2),
+        acq_sqft: round(result.affectedSqFt, 2),
+        rem_sqft: round(result.remainingSqFt, 2),
+        acq_lbl: formatArea(result.affectedSqFt, units),
+        rem_lbl: formatArea(result.remainingSqFt, units),
+        acq_pct: percent(result.affectedSqFt, result.totalSqFt),
+      },
+    })),
+  };
+}
+
+/**
+ * Downloads the acquisition schedule of an overlay analysis.
+ */
+export function exportAcquisitionSchedule(results: OverlayResult[], format: ScheduleExportFormat, options: DataExportOptions): void {
+  const base = options.fileName || 'acquisition-schedule';
+  switch (format) {
+    case 'csv':
+      saveFile(tableToCSV(buildAcquisitionTable(results, options)), `${base}.csv`, 'text/csv;charset=utf-8');
+      break;
+    case 'xlsx':
+      saveFile(tableToXLSX(buildAcquisitionTable(results, options), 'Acquisition') as BlobPart, `${base}.xlsx`,
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      break;
+    case 'geojson':
+      saveFile(JSON.stringify(acquiredPieces(results, options)), `${base}.geojson`, 'application/geo+json');
+      break;
+    case 'shapefile':
+      saveFile(writeShapefileZip([{ name: base, collection: acquiredPieces(results, options) }]) as BlobPart,
+        `${base}_shp.zip`, 'application/zip');
+      break;
+  }
+}
@@ -0,0 +1,65 @@
+import { CRS } from './geo-utils';
+
+export interface MapView {
+  center: [number, number]; // [lat, lng]
+  zoom: number;
+}
+
+/**
+ * A view shared as a link. Khasras are named by their label-field value (e.g. "123/4") rather than by
+ * index, so the link still works for someone who loaded the same data separately.
+ */
+export interface ViewLink {
+  layer?: string; // Layer name
+  labelField?: string;
+  khasras: string[];
+  view?: MapView;
+  crs?: CRS;
+  baseLayer?: 'satellite' | 'dark';
+}
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+const all = (value: string | string[] | undefined) => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+/**
+ * Builds the query string for a view: layer, label, one `khasra` per selected khasra, `at` (lat,lng,zoom), crs and base.
+ */
+export function encodeViewLink(link: ViewLink): string {
+  const params = new URLSearchParams();
+  if (link.layer) params.set('layer', link.layer);
+  if (link.labelField) params.set('label', link.labelField);
+  link.khasras.forEach(k => params.append('khasra', k));
+  if (link.view) {
+    const [lat, lng] = link.view.center;
+    params.set('at', `${lat.toFixed(6)},${lng.toFixed(6)},${Math.round(link.view.zoom * 100) / 100}`);
+  }
+  if (link.crs) params.set('crs', link.crs);
+  if (link.baseLayer) params.set('base', link.baseLayer);
+  return params.toString();
+}
+
+/**
+ * Reads a view from the page's search params. Returns null when the URL carries no view.
+ */
+export function parseViewLink(params: SearchParams): ViewLink | null {
+  const link: ViewLink = { khasras: all(params.khasra).filter(Boolean) };
+  const layer = first(params.layer);
+  if (layer) link.layer = layer;
+  const labelField = first(params.label);
+  if (labelField) link.labelField = labelField;
+
+  const [lat, lng, zoom] = (first(params.at) ?? '').split(',').map(Number);
+  if ([lat, lng, zoom].every(Number.isFinite) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+    link.view = { center: [lat, lng], zoom };
+  }
+
+  const crs = first(params.crs);
+  if (crs) link.crs = crs as CRS;
+  const base = first(params.base);
+  if (base === 'satellite' || base === 'dark') link.baseLayer = base;
+
+  const isEmpty = !link.layer && !link.labelField && link.khasras.length === 0 && !link.view && !link.crs && !link.baseLayer;
+  return isEmpty ? null : link;
+}
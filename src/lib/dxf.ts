@@ -0,0 +1,127 @@
+import * as turf from '@turf/turf';
+import DxfParser from 'dxf-parser';
+import type { IEntity, ILineEntity, ILwpolylineEntity, IPolylineEntity, ITextEntity } from 'dxf-parser';
+import type { Feature, FeatureCollection, LineString, Polygon, Position } from 'geojson';
+
+// Segments used to approximate one radian of a bulged (arc) polyline segment
+const ARC_SEGMENTS_PER_RADIAN = 8;
+
+interface BulgedVertex {
+  x: number;
+  y: number;
+  bulge?: number;
+}
+
+/**
+ * Expands polyline vertices into positions, approximating bulge arcs with short chords.
+ */
+function polylinePositions(vertices: BulgedVertex[], closed: boolean): Position[] {
+  const positions: Position[] = [];
+  const count = closed ? vertices.length : vertices.length - 1;
+
+  for (let i = 0; i < count; i++) {
+    const start = vertices[i];
+    const end = vertices[(i + 1) % vertices.length];
+    positions.push([start.x, start.y]);
+
+    const bulge = start.bulge ?? 0;
+    if (Math.abs(bulge) < 1e-9) continue;
+
+    // Bulge is tan(sweep / 4), positive for counter-clockwise arcs. The centre sits on the chord's
+    // perpendicular bisector, to the left of the chord for bulges under 1 (arcs under 180°).
+    const sweep = 4 * Math.atan(bulge);
+    const dx = end.x - start.x, dy = end.y - start.y;
+    const chord = Math.hypot(dx, dy);
+    if (chord === 0) continue;
+    const radius = chord * (1 + bulge * bulge) / (4 * Math.abs(bulge));
+    const offset = (1 - bulge * bulge) / (4 * bulge); // Centre offset as a fraction of the chord
+    const centerX = (start.x + end.x) / 2 - offset * dy;
+    const centerY = (start.y + end.y) / 2 + offset * dx;
+    const startAngle = Math.atan2(start.y - centerY, start.x - centerX);
+    const steps = Math.max(2, Math.ceil(Math.abs(sweep) * ARC_SEGMENTS_PER_RADIAN));
+    for (let s = 1; s < steps; s++) {
+      const angle = startAngle + (sweep * s) / steps;
+      positions.push([centerX + radius * Math.cos(angle), centerY + radius * Math.sin(angle)]);
+    }
+  }
+
+  const last = vertices[closed ? 0 : vertices.length - 1];
+  positions.push([last.x, last.y]);
+  return positions;
+}
+
+function isClosed(positions: Position[]): boolean {
+  const first = positions[0], last = positions[positions.length - 1];
+  return positions.length >= 4 && first[0] === last[0] && first[1] === last[1];
+}
+
+function polylineFeature(entity: ILwpolylineEntity | IPolylineEntity): Feature<Polygon | LineString> | null {
+  if (entity.vertices.length < 2) return null;
+  const positions = polylinePositions(entity.vertices, entity.shape);
+  const properties = { layer: entity.layer, handle: entity.handle };
+  // A closed polyline of two straight segments has no area; it is kept as a line rather than an invalid ring
+  return (entity.shape && positions.length >= 4) || isClosed(positions)
+    ? turf.polygon([positions], properties)
+    : turf.lineString(positions, properties);
+}
+
+/**
+ * Parses a DXF drawing into one FeatureCollection per DXF layer.
+ *
+ * Closed polylines become polygons. Loose LINE entities on a layer are joined into polygons where they
+ * enclose an area (surveyors often draw parcels edge by edge). A TEXT / MTEXT inside a polygon is copied
+ * to its `text` property, which is usually the khasra number. Coordinates are left in drawing units.
+ */
+export function dxfToLayers(source: string): { name: string; geojson: FeatureCollection }[] {
+  const dxf = new DxfParser().parseSync(source);
+  if (!dxf) throw new Error('Could not parse the DXF file');
+
+  const byLayer = new Map<string, IEntity[]>();
+  dxf.entities.forEach(entity => {
+    const layer = entity.layer || '0';
+    if (!byLayer.has(layer)) byLayer.set(layer, []);
+    byLayer.get(layer)!.push(entity);
+  });
+
+  // Labels are often on their own layer, so match them against polygons of every layer
+  const texts = dxf.entities
+    .filter((e): e is ITextEntity => e.type === 'TEXT' || e.type === 'MTEXT')
+    .map(e => {
+      const point = e.startPoint ?? (e as unknown as { position?: ITextEntity['startPoint'] }).position;
+      return point ? { position: [point.x, point.y], text: e.text.replace(/\\P/g, ' ').trim() } : null;
+    })
+    .filter((t): t is { position: number[]; text: string } => t !== null && t.text !== '');
+
+  return [...byLayer.entries()].map(([name, entities]) => {
+    const features: Feature[] = [];
+    const lines: Feature<LineString>[] = [];
+
+    entities.forEach(entity => {
+      if (entity.type === 'LWPOLYLINE' || entity.type === 'POLYLINE') {
+        const feature = polylineFeature(entity as ILwpolylineEntity | IPolylineEntity);
+        if (feature) features.push(feature);
+      } else if (entity.type === 'LINE') {
+        const [a, b] = (entity as ILineEntity).vertices;
+        lines.push(turf.lineString([[a.x, a.y], [b.x, b.y]], { layer: name, handle: entity.handle }));
+      }
+    });
+
+    if (lines.length > 0) {
+      try {
+        turf.polygonize(turf.featureCollection(lines)).features.forEach(polygon => {
+          features.push({ ...polygon, properties: { layer: name } });
+        });
+      } catch {
+        features.push(...lines); // Not noded into closed rings; keep the lines as they are
+      }
+    }
+
+    features.forEach(feature => {
+      if (feature.geometry.type !== 'Polygon') return;
+      const label = texts.find(t => turf.booleanPointInPolygon(t.position, feature as Feature<Polygon>));
+      if (label) feature.properties = { ...feature.properties, text: label.text };
+    });
+
+    return { name, geojson: turf.featureCollection(features) };
+  });
+}
@@ -0,0 +1,133 @@
+import type { Feature, Polygon, Position } from 'geojson';
+import { CRS, METERS_PER_FOOT, polygonFromPlanarOffsets } from './geo-utils';
+
+/**
+ * How the sides were recorded: a traverse of bearings and distances, or the patwari's triangle method
+ * (four sides of the plot plus the diagonal, "wattar", from the first corner to the third).
+ */
+export type FieldBookMethod = 'traverse' | 'triangles';
+
+export const FIELD_BOOK_METHODS: { id: FieldBookMethod; name: string }[] = [
+  { id: 'traverse', name: 'Bearing + distance' },
+  { id: 'triangles', name: 'Four sides + wattar' },
+];
+
+export interface TraverseLeg {
+  bearing: number; // Degrees clockwise from grid north
+  distanceMeters: number;
+}
+
+export interface FieldBookTriangles {
+  sidesMeters: [number, number, number, number]; // AB, BC, CD, DA, going clockwise
+  diagonalMeters: number; // AC
+  bearing: number; // Of side AB
+}
+
+export interface FieldBookParcel {
+  feature: Feature<Polygon>;
+  perimeterMeters: number;
+  areaSqFt: number; // Plane area of the book figure, after closing
+  closureMeters: number; // Gap between the end of the last side and the start, before it is distributed
+  closureBearing: number;
+  precision: number | null; // Perimeter over closure error ("1 in N"); null when the figure closes exactly
+}
+
+export interface AreaComparison {
+  fieldSqFt: number;
+  digitisedSqFt: number;
+  differenceSqFt: number; // Digitised minus field book
+  differencePercent: number;
+  mismatch: boolean;
+}
+
+// Field-book and digitised areas further apart than this are flagged
+export const AREA_MISMATCH_PERCENT = 2;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toBearing = (dx: number, dy: number) => ((Math.atan2(dx, dy) * 180) / Math.PI + 360) % 360;
+
+function planarArea(points: Position[]): number {
+  let twice = 0;
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    twice += p[0] * q[1] - q[0] * p[1];
+  });
+  return Math.abs(twice) / 2;
+}
+
+function buildParcel(start: Position, points: Position[], closure: Position, crs: CRS): FieldBookParcel {
+  const perimeterMeters = points.reduce((sum, p, i) => {
+    const q = points[(i + 1) % points.length];
+    return sum + Math.hypot(q[0] - p[0], q[1] - p[1]);
+  }, 0);
+  const closureMeters = Math.hypot(closure[0], closure[1]);
+  return {
+    feature: polygonFromPlanarOffsets(start, points, crs),
+    perimeterMeters,
+    areaSqFt: planarArea(points) / (METERS_PER_FOOT * METERS_PER_FOOT),
+    closureMeters,
+    closureBearing: toBearing(closure[0], closure[1]),
+    precision: closureMeters > 1e-6 ? perimeterMeters / closureMeters : null,
+  };
+}
+
+/**
+ * Lays out a traverse from the start point. The closing error is spread over the corners in proportion
+ * to the distance run so far (Bowditch's rule), so the last side is kept rather than dropped.
+ */
+export function parcelFromTraverse(start: Position, legs: TraverseLeg[], crs: CRS): FieldBookParcel {
+  if (legs.length < 3) throw new Error('A parcel needs at least three sides');
+  if (legs.some(leg => !(leg.distanceMeters > 0))) throw new Error('Every side needs a length');
+
+  const raw: Position[] = [[0, 0]];
+  const run: number[] = [0];
+  legs.forEach(leg => {
+    const [x, y] = raw[raw.length - 1];
+    const angle = toRadians(leg.bearing);
+    raw.push([x + Math.sin(angle) * leg.distanceMeters, y + Math.cos(angle) * leg.distanceMeters]);
+    run.push(run[run.length - 1] + leg.distanceMeters);
+  });
+
+  const end = raw[raw.length - 1];
+  const total = run[run.length - 1];
+  const points = raw.slice(0, -1).map((p, i) => [p[0] - (end[0] * run[i]) / total, p[1] - (end[1] * run[i]) / total]);
+  return buildParcel(start, points, end, crs);
+}
+
+// Angle at the first corner of a triangle with sides b and c meeting there and a opposite
+function cornerAngle(a: number, b: number, c: number): number {
+  if (a >= b + c || b >= a + c || c >= a + b) throw new Error('The sides and wattar do not form two triangles');
+  return Math.acos((b * b + c * c - a * a) / (2 * b * c));
+}
+
+/**
+ * Lays out a four-sided plot from its sides and wattar: triangle ABC on one side of the diagonal and ACD on
+ * the other, with the corners going clockwise from A at the start point.
+ */
+export function parcelFromTriangles(start: Position, book: FieldBookTriangles, crs: CRS): FieldBookParcel {
+  const [ab, bc, cd, da] = book.sidesMeters;
+  const ac = book.diagonalMeters;
+  if ([ab, bc, cd, da, ac].some(d => !(d > 0))) throw new Error('Every side and the wattar need a length');
+
+  const bearingAB = toRadians(book.bearing);
+  const bearingAC = bearingAB + cornerAngle(bc, ab, ac);
+  const bearingAD = bearingAC + cornerAngle(cd, ac, da);
+  const at = (bearing: number, distance: number): Position => [Math.sin(bearing) * distance, Math.cos(bearing) * distance];
+
+  return buildParcel(start, [[0, 0], at(bearingAB, ab), at(bearingAC, ac), at(bearingAD, da)], [0, 0], crs);
+}
+
+/**
+ * Compares the field-book area with the digitised khasra, flagging differences beyond the tolerance.
+ */
+export function compareAreas(fieldSqFt: number, digitisedSqFt: number, tolerancePercent: number = AREA_MISMATCH_PERCENT): AreaComparison {
+  const differenceSqFt = digitisedSqFt - fieldSqFt;
+  const differencePercent = fieldSqFt > 0 ? (differenceSqFt / fieldSqFt) * 100 : 0;
+  return {
+    fieldSqFt,
+    digitisedSqFt,
+    differenceSqFt,
+    differencePercent,
+    mismatch: Math.abs(differencePercent) > tolerancePercent,
+  };
+}
@@ -0,0 +1,230 @@
+import * as turf from '@turf/turf';
+import { combine, parseDbf, parseShp } from 'shpjs';
+import { unzipSync } from 'fflate';
+import { gpx, kmlWithFolders } from '@tmcw/togeojson';
+import type { Folder, Root } from '@tmcw/togeojson';
+import type { Feature, FeatureCollection, Geometry, MultiPolygon, Polygon, Position } from 'geojson';
+import { dxfToLayers } from './dxf';
+import { readGeoPackage } from './geopackage';
+
+export type SpatialFormat = 'Shapefile' | 'KML' | 'KMZ' | 'GeoJSON' | 'GPX' | 'DXF' | 'GeoPackage';
+
+/**
+ * One importable layer. `prj` is the CRS the coordinates are in: .prj / GeoPackage WKT, or an
+ * "EPSG:<code>" declaration. Formats that are WGS 84 by definition (KML, GPX) report EPSG:4326.
+ */
+export interface SpatialLayer {
+  name: string;
+  format: SpatialFormat;
+  geojson: FeatureCollection;
+  prj?: string;
+  skipped: number; // Features dropped because they are not (closed) polygons
+}
+
+export const ACCEPTED_EXTENSIONS = '.zip,.shp,.dbf,.shx,.prj,.cpg,.kml,.kmz,.geojson,.json,.gpx,.dxf,.gpkg';
+
+const WGS84_DECLARATION = 'EPSG:4326';
+
+// A line whose ends are this close (relative to its length) is treated as a ring the digitiser forgot to close
+const CLOSING_TOLERANCE = 0.02;
+
+const decoder = new TextDecoder();
+
+const toArrayBuffer = (bytes: Uint8Array) =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+const extensionOf = (name: string) => name.toLowerCase().match(/\.[^.]+$/)?.[0] ?? '';
+
+const baseName = (name: string) => (name.split('/').pop() ?? name).replace(/\.[^.]+$/, '');
+
+function buildShapefile(shpBuffer: ArrayBuffer, dbfBuffer?: ArrayBuffer, cpg?: string): FeatureCollection {
+  const geometries = parseShp(shpBuffer);
+  // @ts-expect-error - parseDbf accepts the .cpg text (or nothing), the bundled types only allow a buffer
+  const properties = dbfBuffer ? parseDbf(dbfBuffer, cpg) : geometries.map(() => ({}));
+  return combine([geometries, properties]) as FeatureCollection;
+}
+
+function ringFromLine(coords: Position[]): Position[] | null {
+  if (coords.length < 3) return null;
+  const first = coords[0], last = coords[coords.length - 1];
+  const gap = Math.hypot(last[0] - first[0], last[1] - first[1]);
+  if (gap === 0) return coords.length >= 4 ? coords : null;
+
+  let length = 0;
+  for (let i = 0; i < coords.length - 1; i++) {
+    length += Math.hypot(coords[i + 1][0] - coords[i][0], coords[i + 1][1] - coords[i][1]);
+  }
+  return gap <= length * CLOSING_TOLERANCE ? [...coords, first] : null;
+}
+
+/**
+ * Polygon parts of a geometry; closed (or nearly closed) lines count as polygon outlines.
+ */
+function polygonParts(geometry: Geometry | null): Position[][][] {
+  if (!geometry) return [];
+  switch (geometry.type) {
+    case 'Polygon': return [geometry.coordinates];
+    case 'MultiPolygon': return geometry.coordinates;
+    case 'LineString': {
+      const ring = ringFromLine(geometry.coordinates);
+      return ring ? [[ring]] : [];
+    }
+    case 'MultiLineString':
+      return geometry.coordinates.map(ringFromLine).filter((r): r is Position[] => r !== null).map(r => [r]);
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(polygonParts);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Keeps what the khasra tools can measure: polygons, plus closed lines converted to polygons.
+ * Points and open lines are dropped and counted.
+ */
+export function toPolygonCollection(geojson: FeatureCollection): { geojson: FeatureCollection; skipped: number } {
+  let skipped = 0;
+  const features: Feature[] = [];
+  geojson.features.forEach(feature => {
+    const parts = polygonParts(feature.geometry);
+    if (parts.length === 0) {
+      skipped++;
+      return;
+    }
+    const geometry: Polygon | MultiPolygon = parts.length === 1
+      ? { type: 'Polygon', coordinates: parts[0] }
+      : { type: 'MultiPolygon', coordinates: parts };
+    features.push({ ...feature, geometry, properties: feature.properties ?? {} });
+  });
+  return { geojson: turf.featureCollection(features), skipped };
+}
+
+function layer(name: string, format: SpatialFormat, geojson: FeatureCollection, prj?: string): SpatialLayer {
+  const polygons = toPolygonCollection(geojson);
+  return { name, format, geojson: polygons.geojson, prj, skipped: polygons.skipped };
+}
+
+// Thrown when KML or GPX is read inside a Web Worker, which has no DOMParser
+export const XML_NEEDS_DOM = 'XML formats need a DOM to parse';
+
+function parseXml(text: string): Document {
+  if (typeof DOMParser === 'undefined') throw new Error(XML_NEEDS_DOM);
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Invalid XML');
+  return doc;
+}
+
+/**
+ * KML folders become layers; placemarks outside any folder form a layer named after the file.
+ */
+function kmlLayers(text: string, format: 'KML' | 'KMZ', fallbackName: string): SpatialLayer[] {
+  const root: Root = kmlWithFolders(parseXml(text));
+  const collect = (node: Root | Folder): Feature[] => node.children.flatMap(child =>
+    child.type === 'folder' ? collect(child) : [child as Feature]);
+
+  const layers: SpatialLayer[] = [];
+  const loose = root.children.filter(child => child.type !== 'folder') as Feature[];
+  if (loose.length > 0) {
+    layers.push(layer(fallbackName, format, turf.featureCollection(loose), WGS84_DECLARATION));
+  }
+  root.children.forEach(child => {
+    if (child.type === 'folder') {
+      const name = String(child.meta.name ?? `Folder ${layers.length + 1}`);
+      layers.push(layer(name, format, turf.featureCollection(collect(child)), WGS84_DECLARATION));
+    }
+  });
+  return layers;
+}
+
+/**
+ * GeoJSON is WGS 84 (RFC 7946), unless an older file carries a named "crs" member.
+ */
+function geojsonLayer(text: string, name: string): SpatialLayer {
+  const data = JSON.parse(text);
+  const collection: FeatureCollection = data.type === 'FeatureCollection' ? data
+    : data.type === 'Feature' ? turf.featureCollection([data])
+      : turf.featureCollection([turf.feature(data)]);
+  const crsName: string | undefined = data.crs?.properties?.name;
+  const code = crsName?.match(/EPSG:+(\d+)$/i)?.[1];
+  const declared = code ? `EPSG:${code}` : crsName && /CRS84$/i.test(crsName) ? WGS84_DECLARATION : undefined;
+  return layer(name, 'GeoJSON', collection, declared ?? WGS84_DECLARATION);
+}
+
+/**
+ * Zips may hold one or more shapefiles (one layer each), or be a KMZ in disguise.
+ */
+function zipLayers(bytes: Uint8Array, zipName: string): SpatialLayer[] {
+  const entries = unzipSync(bytes, {
+    filter: f => !f.name.includes('__MACOSX') && /\.(shp|dbf|prj|cpg|kml)$/i.test(f.name)
+  });
+  const names = Object.keys(entries);
+  const shpNames = names.filter(n => n.toLowerCase().endsWith('.shp'));
+
+  if (shpNames.length === 0) {
+    const kmlName = names.find(n => n.toLowerCase().endsWith('.kml'));
+    if (kmlName) return kmlLayers(decoder.decode(entries[kmlName]), 'KMZ', baseName(zipName));
+    throw new Error('No .shp or .kml file found in the zip');
+  }
+
+  return shpNames.map(shpName => {
+    // Sidecars share the .shp base name, whatever the case of their extension
+    const base = shpName.slice(0, -4).toLowerCase();
+    const sidecar = (ext: string) => entries[names.find(n => n.toLowerCase() === base + ext) || ''];
+    const dbf = sidecar('.dbf');
+    const prj = sidecar('.prj');
+    const cpg = sidecar('.cpg');
+
+    const geojson = buildShapefile(
+      toArrayBuffer(entries[shpName]),
+      dbf ? toArrayBuffer(dbf) : undefined,
+      cpg ? decoder.decode(cpg) : undefined
+    );
+    return layer(baseName(shpName), 'Shapefile', geojson, prj ? decoder.decode(prj) : undefined);
+  });
+}
+
+/**
+ * Detects the format of the dropped files by extension and converts every layer to polygon GeoJSON.
+ * Layers without any features are left out.
+ */
+export async function readSpatialFiles(files: File[]): Promise<SpatialLayer[]> {
+  const byExtension = (...exts: string[]) => files.find(f => exts.includes(extensionOf(f.name)));
+  let layers: SpatialLayer[];
+
+  const zipFile = byExtension('.zip', '.kmz');
+  const shpFile = byExtension('.shp');
+  const kmlFile = byExtension('.kml');
+  const geojsonFile = byExtension('.geojson', '.json');
+  const gpxFile = byExtension('.gpx');
+  const dxfFile = byExtension('.dxf');
+  const gpkgFile = byExtension('.gpkg');
+
+  if (zipFile) {
+    layers = zipLayers(new Uint8Array(await zipFile.arrayBuffer()), zipFile.name);
+  } else if (shpFile) {
+    const dbfFile = byExtension('.dbf');
+    const prjFile = byExtension('.prj');
+    const cpgFile = byExtension('.cpg');
+    const geojson = buildShapefile(
+      await shpFile.arrayBuffer(),
+      dbfFile ? await dbfFile.arrayBuffer() : undefined,
+      cpgFile ? await cpgFile.text() : undefined
+    );
+    layers = [layer(baseName(shpFile.name), 'Shapefile', geojson, prjFile ? await prjFile.text() : undefined)];
+  } else if (kmlFile) {
+    layers = kmlLayers(await kmlFile.text(), 'KML', baseName(kmlFile.name));
+  } else if (geojsonFile) {
+    layers = [geojsonLayer(await geojsonFile.text(), baseName(geojsonFile.name))];
+  } else if (gpxFile) {
+    layers = [layer(baseName(gpxFile.name), 'GPX', gpx(parseXml(await gpxFile.text())), WGS84_DECLARATION)];
+  } else if (dxfFile) {
+    layers = dxfToLayers(await dxfFile.text()).map(l => layer(l.name, 'DXF', l.geojson));
+  } else if (gpkgFile) {
+    const tables = await readGeoPackage(new Uint8Array(await gpkgFile.arrayBuffer()));
+    layers = tables.map(t => layer(t.name, 'GeoPackage', t.geojson, t.prj));
+  } else {
+    throw new Error('Unsupported file type');
+  }
+
+  return layers.filter(l => l.geojson.features.length > 0 || l.skipped > 0);
+}
@@ -1,135 +1,343 @@
 import * as turf from '@turf/turf';
-import proj4 from 'proj4';
+import type { Feature, LineString, MultiPolygon, Polygon, Position } from 'geojson';
+import { AUTO_CRS, ProjectionDef, converterFor, resolveProjection } from './projection';
+import { DEFAULT_UNIT_SYSTEM, METERS_PER_FOOT, UnitSystem, formatArea, formatLength, kanalMarlaUnits } from './units';
+import { PlanarProjector, equalAreaProjector, tangentPlaneProjector, vincentyDistance } from './geodesy';
 
-// UTM Zone definitions
-const UTM42N = "+proj=utm +zone=42 +datum=WGS84 +units=m +no_defs";
-const UTM43N = "+proj=utm +zone=43 +datum=WGS84 +units=m +no_defs";
 const WGS84 = "EPSG:4326";
 
-export type CRS = 'UTM42N' | 'UTM43N';
+// 'AUTO' picks the UTM zone per feature; anything else is a registered or proj4-known projection id
+export type CRS = typeof AUTO_CRS | `EPSG:${number}` | `custom:${string}`;
+
+/**
+ * The concrete projection a measurement was made in (AUTO is resolved per feature).
+ */
+export interface MeasuredCRS {
+  id: string;
+  name: string;
+  auto: boolean;
+}
 
 export interface Dimension {
   point: [number, number]; // [lng, lat]
+  edge: [[number, number], [number, number]]; // The side's two ends, [lng, lat]
   lengthMeters: number;
   label: string;
+  part: number; // Index of the polygon within a MultiPolygon (0 for a Polygon)
+  ring: number; // 0 = outer boundary, 1+ = holes
+}
+
+/**
+ * Area of one part of a (Multi)Polygon: its outer ring minus every hole.
+ */
+export interface PartArea {
+  part: number;
+  center: [number, number]; // [lng, lat]
+  outerSqMeters: number;
+  holesSqMeters: number[];
+  netSqMeters: number;
 }
 
 export interface KhasraStats {
   areaSqFt: number;
-  totalMarlas: number;
-  kanals: number;
-  marlas: number;
+  // Only for unit systems that count in kanals and marlas
+  totalMarlas?: number;
+  kanals?: number;
+  marlas?: number;
   label: string;
+  crs?: MeasuredCRS;
+  mode?: MeasurementMode;
+  parts?: PartArea[];
+  unitSystem?: string;
 }
 
-// Patwari Standards (Standard: 1 Karam = 5.5 Feet)
-const KARAM_TO_FEET = 5.5;
-const METERS_PER_FOOT = 0.3048; // International standard
-const METERS_PER_KARAM = KARAM_TO_FEET * METERS_PER_FOOT; // 1.6764m
-const SQ_METERS_PER_MARLA = 9 * Math.pow(METERS_PER_KARAM, 2); // 25.29285264m²
+export { METERS_PER_FOOT } from './units';
 
 /**
  * Formats a distance in meters into "Xk - Yft" (Karam and Feet).
- * 1 Karam = 5.5 Feet (1.6764 Meters).
+ * Defaults to the Punjab standard of 1 Karam = 5.5 Feet (1.6764 Meters).
  */
-export function formatKaramFeet(meters: number): string {
-  const karams = Math.floor(meters / METERS_PER_KARAM + 0.001); // Float epsilon
-  const remainingMeters = meters - (karams * METERS_PER_KARAM);
-  const remainingFeet = remainingMeters / METERS_PER_FOOT;
-
-  const roundedFeet = Math.round(remainingFeet * 10) / 10;
-
-  if (karams > 0) {
-    if (roundedFeet >= 0.1) {
-      return `${karams}k - ${roundedFeet.toFixed(1)}ft`;
-    }
-    return `${karams}k`;
-  }
-  return `${roundedFeet.toFixed(1)}ft`;
+export function formatKaramFeet(meters: number, units: UnitSystem = DEFAULT_UNIT_SYSTEM): string {
+  return formatLength(meters, units);
 }
 
 /**
- * Converts area in square meters (projected) to Kanal-Marla units.
- * 1 Marla = 9 Sq Karams
- * 1 Kanal = 20 Marlas
+ * Converts area in square meters (projected) to the given unit system.
+ * The label follows the system (Kanal-Marla, Acre-Ghunta, Bigha-Biswa...). Kanal/Marla totals use the system's
+ * own kanal and marla (e.g. 4500 and 225 sq ft for the 5 ft karam) and are left out for systems without them.
  */
-export function calculateKanalMarla(areaSqMeters: number): KhasraStats {
-  const totalMarlas = areaSqMeters / SQ_METERS_PER_MARLA;
-  const kanals = Math.floor(totalMarlas / 20 + 0.0001);
-  const remainingMarlas = totalMarlas - (kanals * 20);
-
-  const roundedMarlas = Math.round(remainingMarlas * 100) / 100;
+export function calculateKanalMarla(areaSqMeters: number, units: UnitSystem = DEFAULT_UNIT_SYSTEM): KhasraStats {
   const areaSqFt = areaSqMeters * (1 / Math.pow(METERS_PER_FOOT, 2));
-
-  let label = '';
-  if (kanals > 0) {
-    if (roundedMarlas >= 0.01) {
-      label = `${kanals} K - ${roundedMarlas.toFixed(2)} M`;
-    } else {
-      label = `${kanals} Kanal`;
-    }
-  } else {
-    label = `${roundedMarlas.toFixed(2)} Marla`;
+  const kanalMarla = kanalMarlaUnits(units);
+  let totals: Pick<KhasraStats, 'totalMarlas' | 'kanals' | 'marlas'> = {};
+  if (kanalMarla) {
+    const { kanal, marla } = kanalMarla;
+    const kanals = Math.floor(areaSqFt / kanal.sqFt + 0.0001);
+    totals = { totalMarlas: areaSqFt / marla.sqFt, kanals, marlas: (areaSqFt - kanals * kanal.sqFt) / marla.sqFt };
   }
 
   return {
     areaSqFt,
-    totalMarlas,
-    kanals,
-    marlas: remainingMarlas,
-    label
+    ...totals,
+    label: formatArea(areaSqFt, units),
+    unitSystem: units.id
   };
 }
 
 /**
- * Calculates dimensions using projected coordinates for better accuracy.
+ * Resolves the projection used to measure a feature. In AUTO mode the UTM zone comes from its centroid.
  */
-export function calculateDimensions(feature: any, crs: CRS): Dimension[] {
-  const dimensions: Dimension[] = [];
-  const coords = feature.geometry.type === 'Polygon'
-    ? feature.geometry.coordinates[0]
-    : feature.geometry.coordinates[0][0];
+export function projectionForFeature(feature: Feature, crs: CRS | string): ProjectionDef {
+  const reference = crs === AUTO_CRS ? turf.centroid(feature).geometry.coordinates : undefined;
+  return resolveProjection(crs, reference);
+}
 
-  const projection = crs === 'UTM42N' ? UTM42N : UTM43N;
+/**
+ * Projects a WGS84 [lng, lat] pair into the given CRS (meters).
+ */
+export function projectToCRS(coord: number[], crs: CRS | string): [number, number] {
+  const projection = resolveProjection(crs, coord);
+  const [x, y] = converterFor(WGS84, projection.proj4).forward([coord[0], coord[1]]);
+  return [x, y];
+}
 
-  for (let i = 0; i < coords.length - 1; i++) {
-    const p1 = coords[i];
-    const p2 = coords[i + 1];
+/**
+ * Builds a polygon from offsets in meters (x east, y north) around an origin, laid out in the plane of the
+ * given CRS so its sides measure exactly as entered in projected mode.
+ */
+export function polygonFromPlanarOffsets(origin: Position, offsets: Position[], crs: CRS): Feature<Polygon> {
+  const converter = converterFor(WGS84, resolveProjection(crs, origin).proj4);
+  const [x0, y0] = converter.forward([origin[0], origin[1]]);
+  const ring = offsets.map(([dx, dy]) => converter.inverse([x0 + dx, y0 + dy]) as Position);
+  return turf.polygon([[...ring, ring[0]]]);
+}
 
-    // Project points to meters
-    const [x1, y1] = proj4(WGS84, projection, p1);
-    const [x2, y2] = proj4(WGS84, projection, p2);
+/**
+ * Builds a rectangle in the plane of the given CRS.
+ * `length` runs from the corner along the bearing (degrees clockwise from grid north), `width` to its right.
+ */
+export function rectangleFromCorner(
+  corner: Position,
+  widthMeters: number,
+  lengthMeters: number,
+  bearingDegrees: number,
+  crs: CRS
+): Feature<Polygon> {
+  const angle = (bearingDegrees * Math.PI) / 180;
+  const along = [Math.sin(angle), Math.cos(angle)];
+  const across = [Math.cos(angle), -Math.sin(angle)];
+  return polygonFromPlanarOffsets(corner, [
+    [0, 0],
+    [along[0] * lengthMeters, along[1] * lengthMeters],
+    [along[0] * lengthMeters + across[0] * widthMeters, along[1] * lengthMeters + across[1] * widthMeters],
+    [across[0] * widthMeters, across[1] * widthMeters],
+  ], crs);
+}
 
-    // Euclidean distance in projected space (meters)
-    const lengthMeters = Math.sqrt(Math.pow(x2 - x1, 2) + Math.pow(y2 - y1, 2));
+/**
+ * Returns every polygon of a feature as a list of rings (outer ring first, then holes).
+ */
+export function getPolygonParts(feature: Feature): Position[][][] {
+  const geometry = feature.geometry as Polygon | MultiPolygon;
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+}
 
-    const midpoint = turf.midpoint(p1, p2).geometry.coordinates as [number, number];
+/**
+ * Human readable name of a ring, e.g. "Part 2" or "Part 1 · Hole 1".
+ */
+export function describeRing(part: number, ring: number, partCount: number = 2): string {
+  const partName = partCount > 1 ? `Part ${part + 1}` : '';
+  const ringName = ring > 0 ? `Hole ${ring}` : '';
+  return [partName, ringName].filter(Boolean).join(' · ') || 'Boundary';
+}
 
-    dimensions.push({
-      point: midpoint,
-      lengthMeters,
-      label: formatKaramFeet(lengthMeters)
-    });
-  }
+/**
+ * How lengths and areas are measured:
+ * - projected: planar in the selected CRS (carries the projection's scale-factor distortion)
+ * - geodesic: on the WGS84 ellipsoid (Vincenty lengths, equal-area projected areas)
+ * - ground: on the local tangent plane at the parcel, lifted to the given elevation
+ */
+export type MeasurementMode = 'projected' | 'geodesic' | 'ground';
 
-  return dimensions;
+export const MEASUREMENT_MODES: { id: MeasurementMode; name: string }[] = [
+  { id: 'projected', name: 'Projected' },
+  { id: 'geodesic', name: 'Geodesic (WGS 84)' },
+  { id: 'ground', name: 'Ground (tangent plane)' },
+];
+
+export interface MeasureOptions {
+  mode?: MeasurementMode;
+  elevation?: number; // Meters above the ellipsoid, only used by the ground mode
+  units?: UnitSystem; // Unit system for the dimension and area labels
+}
+
+interface Measurer {
+  length: (p1: Position, p2: Position) => number;
+  ringArea: (coords: Position[]) => number;
 }
 
 /**
- * Calculates projected area in square meters.
+ * Shoelace area of a single ring in planar space (square meters, always positive).
  */
-export function calculateProjectedArea(feature: any, crs: CRS): number {
-  const projection = crs === 'UTM42N' ? UTM42N : UTM43N;
-  const coords = feature.geometry.type === 'Polygon'
-    ? feature.geometry.coordinates[0]
-    : feature.geometry.coordinates[0][0];
+function planarRingArea(coords: Position[], project: PlanarProjector): number {
+  const points = coords.map(project);
+  if (points.length < 3) return 0;
 
-  // Simple polygon area formula in projected space
+  // Work relative to the first vertex so large easting/northing values don't swamp the products
+  const [ox, oy] = points[0];
   let area = 0;
-  for (let i = 0; i < coords.length - 1; i++) {
-    const [x1, y1] = proj4(WGS84, projection, coords[i]);
-    const [x2, y2] = proj4(WGS84, projection, coords[i + 1]);
+  for (let i = 0; i < points.length - 1; i++) {
+    const x1 = points[i][0] - ox, y1 = points[i][1] - oy;
+    const x2 = points[i + 1][0] - ox, y2 = points[i + 1][1] - oy;
     area += (x1 * y2) - (x2 * y1);
   }
   return Math.abs(area) / 2;
 }
+
+function planarMeasurer(project: PlanarProjector): Measurer {
+  return {
+    length: (p1, p2) => {
+      const [x1, y1] = project(p1);
+      const [x2, y2] = project(p2);
+      return Math.sqrt(Math.pow(x2 - x1, 2) + Math.pow(y2 - y1, 2));
+    },
+    ringArea: coords => planarRingArea(coords, project),
+  };
+}
+
+function measurerFor(feature: Feature, crs: CRS, options: MeasureOptions = {}): Measurer {
+  const mode = options.mode ?? 'projected';
+  if (mode === 'projected') {
+    const converter = converterFor(WGS84, projectionForFeature(feature, crs).proj4);
+    return planarMeasurer(p => {
+      const [x, y] = converter.forward([p[0], p[1]]);
+      return [x, y];
+    });
+  }
+
+  const origin = turf.centroid(feature).geometry.coordinates;
+  if (mode === 'ground') {
+    return planarMeasurer(tangentPlaneProjector(origin, options.elevation ?? 0));
+  }
+  const equalArea = equalAreaProjector(origin);
+  return {
+    length: vincentyDistance,
+    ringArea: coords => planarRingArea(coords, equalArea),
+  };
+}
+
+/**
+ * Calculates dimensions of every ring (outer boundaries and holes of all parts).
+ * Uses projected coordinates by default; see MeasurementMode for the alternatives.
+ */
+export function calculateDimensions(feature: any, crs: CRS, options: MeasureOptions = {}): Dimension[] {
+  const dimensions: Dimension[] = [];
+  const measurer = measurerFor(feature, crs, options);
+
+  getPolygonParts(feature).forEach((rings, part) => {
+    rings.forEach((coords, ring) => {
+      for (let i = 0; i < coords.length - 1; i++) {
+        const p1 = coords[i];
+        const p2 = coords[i + 1];
+        const lengthMeters = measurer.length(p1, p2);
+        const midpoint = turf.midpoint(p1, p2).geometry.coordinates as [number, number];
+
+        dimensions.push({
+          point: midpoint,
+          edge: [[p1[0], p1[1]], [p2[0], p2[1]]],
+          lengthMeters,
+          label: formatKaramFeet(lengthMeters, options.units),
+          part,
+          ring
+        });
+      }
+    });
+  });
+
+  return dimensions;
+}
+
+/**
+ * Calculates the length of each segment of a line, e.g. a distance measured on the map.
+ */
+export function calculateLineDimensions(feature: Feature<LineString>, crs: CRS, options: MeasureOptions = {}): Dimension[] {
+  const measurer = measurerFor(feature, crs, options);
+  const coords = feature.geometry.coordinates;
+  return coords.slice(0, -1).map((p1, i) => {
+    const lengthMeters = measurer.length(p1, coords[i + 1]);
+    return {
+      point: turf.midpoint(p1, coords[i + 1]).geometry.coordinates as [number, number],
+      edge: [[p1[0], p1[1]], [coords[i + 1][0], coords[i + 1][1]]],
+      lengthMeters,
+      label: formatKaramFeet(lengthMeters, options.units),
+      part: 0,
+      ring: 0,
+    };
+  });
+}
+
+/**
+ * Calculates the area of each part, subtracting its holes.
+ */
+export function calculatePartAreas(feature: Feature, crs: CRS, options: MeasureOptions = {}): PartArea[] {
+  const measurer = measurerFor(feature, crs, options);
+
+  return getPolygonParts(feature).map((rings, part) => {
+    const [outer, ...holes] = rings;
+    const outerSqMeters = measurer.ringArea(outer);
+    const holesSqMeters = holes.map(hole => measurer.ringArea(hole));
+    const center = turf.centerOfMass(turf.polygon(rings)).geometry.coordinates as [number, number];
+
+    return {
+      part,
+      center,
+      outerSqMeters,
+      holesSqMeters,
+      netSqMeters: outerSqMeters - holesSqMeters.reduce((sum, a) => sum + a, 0),
+    };
+  });
+}
+
+/**
+ * Calculates projected area in square meters: all parts summed, holes subtracted.
+ */
+export function calculateProjectedArea(feature: any, crs: CRS): number {
+  return calculatePartAreas(feature, crs).reduce((sum, p) => sum + p.netSqMeters, 0);
+}
+
+/**
+ * Measures a khasra's area and records which CRS and measurement mode the numbers came from.
+ */
+export function calculateKhasraStats(feature: Feature, crs: CRS, options: MeasureOptions = {}): KhasraStats {
+  const projection = projectionForFeature(feature, crs);
+  const parts = calculatePartAreas(feature, projection.id as CRS, options);
+  const stats = calculateKanalMarla(parts.reduce((sum, p) => sum + p.netSqMeters, 0), options.units);
+  return {
+    ...stats,
+    crs: { id: projection.id, name: projection.name, auto: crs === AUTO_CRS },
+    mode: options.mode ?? 'projected',
+    parts,
+  };
+}
+
+export interface ModeMeasurement {
+  mode: MeasurementMode;
+  areaSqMeters: number;
+  perimeterMeters: number;
+}
+
+/**
+ * Measures the same feature in every mode, so projection distortion can be told apart from
+ * digitising errors when a field measurement disagrees with the map.
+ */
+export function compareMeasurementModes(feature: Feature, crs: CRS, elevation: number = 0): ModeMeasurement[] {
+  return MEASUREMENT_MODES.map(({ id: mode }) => {
+    const options = { mode, elevation };
+    const outerDimensions = calculateDimensions(feature, crs, options).filter(d => d.ring === 0);
+    return {
+      mode,
+      areaSqMeters: calculatePartAreas(feature, crs, options).reduce((sum, p) => sum + p.netSqMeters, 0),
+      perimeterMeters: outerDimensions.reduce((sum, d) => sum + d.lengthMeters, 0),
+    };
+  });
+}
@@ -0,0 +1,103 @@
+import proj4 from 'proj4';
+import type { Position } from 'geojson';
+
+// WGS84 ellipsoid
+const A = 6378137;
+const F = 1 / 298.257223563;
+const B = A * (1 - F);
+const E2 = F * (2 - F);
+const DEG_TO_RAD = Math.PI / 180;
+
+/** Maps a WGS84 [lng, lat] into planar meters. */
+export type PlanarProjector = (position: Position) => [number, number];
+
+/**
+ * Ellipsoidal distance in meters between two [lng, lat] positions (Vincenty inverse formula).
+ * Falls back to the spherical great-circle distance in the rare case the iteration does not converge
+ * (nearly antipodal points, which never happens for parcel edges).
+ */
+export function vincentyDistance(p1: Position, p2: Position): number {
+  const L = (p2[0] - p1[0]) * DEG_TO_RAD;
+  const U1 = Math.atan((1 - F) * Math.tan(p1[1] * DEG_TO_RAD));
+  const U2 = Math.atan((1 - F) * Math.tan(p2[1] * DEG_TO_RAD));
+  const sinU1 = Math.sin(U1), cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2), cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  let sinSigma = 0, cosSigma = 0, sigma = 0, cosSqAlpha = 0, cos2SigmaM = 0;
+
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const sinLambda = Math.sin(lambda), cosLambda = Math.cos(lambda);
+    sinSigma = Math.sqrt(
+      Math.pow(cosU2 * sinLambda, 2) +
+      Math.pow(cosU1 * sinU2 - sinU1 * cosU2 * cosLambda, 2)
+    );
+    if (sinSigma === 0) return 0; // Coincident points
+
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = cosU1 * cosU2 * sinLambda / sinSigma;
+    cosSqAlpha = 1 - sinAlpha * sinAlpha;
+    cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - 2 * sinU1 * sinU2 / cosSqAlpha : 0; // Equatorial line
+
+    const C = F / 16 * cosSqAlpha * (4 + F * (4 - 3 * cosSqAlpha));
+    const previous = lambda;
+    lambda = L + (1 - C) * F * sinAlpha *
+      (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+    if (Math.abs(lambda - previous) < 1e-12) {
+      const uSq = cosSqAlpha * (A * A - B * B) / (B * B);
+      const bigA = 1 + uSq / 16384 * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+      const bigB = uSq / 1024 * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+      const deltaSigma = bigB * sinSigma * (cos2SigmaM + bigB / 4 *
+        (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+          bigB / 6 * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+      return B * bigA * (sigma - deltaSigma);
+    }
+  }
+
+  return sigma * (A + B) / 2;
+}
+
+/**
+ * Lambert Azimuthal Equal Area projection on the WGS84 ellipsoid centred at the origin.
+ * Areas measured in it equal ellipsoidal areas, which is what we use for the geodesic mode.
+ */
+export function equalAreaProjector(origin: Position): PlanarProjector {
+  const converter = proj4('EPSG:4326', `+proj=laea +lat_0=${origin[1]} +lon_0=${origin[0]} +x_0=0 +y_0=0 +datum=WGS84 +units=m +no_defs`);
+  return position => {
+    const [x, y] = converter.forward([position[0], position[1]]);
+    return [x, y];
+  };
+}
+
+function toECEF(position: Position, height: number): [number, number, number] {
+  const lng = position[0] * DEG_TO_RAD;
+  const lat = position[1] * DEG_TO_RAD;
+  const N = A / Math.sqrt(1 - E2 * Math.sin(lat) * Math.sin(lat));
+  return [
+    (N + height) * Math.cos(lat) * Math.cos(lng),
+    (N + height) * Math.cos(lat) * Math.sin(lng),
+    (N * (1 - E2) + height) * Math.sin(lat),
+  ];
+}
+
+/**
+ * East/North coordinates on the plane tangent to the ellipsoid at the origin, with every vertex
+ * lifted to the given height above the ellipsoid. This is the "ground" distance a tape measures.
+ */
+export function tangentPlaneProjector(origin: Position, height: number = 0): PlanarProjector {
+  const [ox, oy, oz] = toECEF(origin, height);
+  const lng = origin[0] * DEG_TO_RAD;
+  const lat = origin[1] * DEG_TO_RAD;
+  const sinLng = Math.sin(lng), cosLng = Math.cos(lng);
+  const sinLat = Math.sin(lat), cosLat = Math.cos(lat);
+
+  return position => {
+    const [x, y, z] = toECEF(position, height);
+    const dx = x - ox, dy = y - oy, dz = z - oz;
+    const east = -sinLng * dx + cosLng * dy;
+    const north = -sinLat * cosLng * dx - sinLat * sinLng * dy + cosLat * dz;
+    return [east, north];
+  };
+}
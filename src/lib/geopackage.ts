@@ -0,0 +1,146 @@
+import type { Database, SqlValue } from 'sql.js';
+import type { Feature, FeatureCollection, Geometry, GeoJsonProperties, Position } from 'geojson';
+
+// The SQLite engine is WebAssembly. Its binary is bundled from the installed sql.js, so importing works offline
+// and always matches the JS. The Node and browser builds ask for differently named copies of the same file.
+const sqlJsWasmUrl = () => new URL('sql.js/dist/sql-wasm.wasm', import.meta.url).href;
+
+export interface GeoPackageLayer {
+  name: string;
+  geojson: FeatureCollection;
+  prj?: string; // WKT from gpkg_spatial_ref_sys, or "EPSG:<code>" when only the code is known
+}
+
+class WkbReader {
+  private view: DataView;
+  private offset: number;
+  private littleEndian = true;
+
+  constructor(bytes: Uint8Array, offset: number) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.offset = offset;
+  }
+
+  private uint32(): number {
+    const value = this.view.getUint32(this.offset, this.littleEndian);
+    this.offset += 4;
+    return value;
+  }
+
+  private double(): number {
+    const value = this.view.getFloat64(this.offset, this.littleEndian);
+    this.offset += 8;
+    return value;
+  }
+
+  private point(dims: number): Position {
+    const position = [this.double(), this.double()];
+    for (let d = 2; d < dims; d++) this.double(); // Z and M are not used for area work
+    return position;
+  }
+
+  private points(dims: number): Position[] {
+    return Array.from({ length: this.uint32() }, () => this.point(dims));
+  }
+
+  /**
+   * Reads one (ISO or extended) WKB geometry.
+   */
+  geometry(): Geometry {
+    this.littleEndian = this.view.getUint8(this.offset) === 1;
+    this.offset += 1;
+    const rawType = this.uint32();
+    // ISO codes carry Z/M as +1000/+2000/+3000, EWKB as high bits
+    const hasZ = (rawType & 0x80000000) !== 0 || [1, 3].includes(Math.floor((rawType & 0xffff) / 1000));
+    const hasM = (rawType & 0x40000000) !== 0 || [2, 3].includes(Math.floor((rawType & 0xffff) / 1000));
+    const type = (rawType & 0xffff) % 1000;
+    const dims = 2 + (hasZ ? 1 : 0) + (hasM ? 1 : 0);
+
+    switch (type) {
+      case 1: return { type: 'Point', coordinates: this.point(dims) };
+      case 2: return { type: 'LineString', coordinates: this.points(dims) };
+      case 3: return { type: 'Polygon', coordinates: Array.from({ length: this.uint32() }, () => this.points(dims)) };
+      case 4:
+        return { type: 'MultiPoint', coordinates: Array.from({ length: this.uint32() }, () => (this.geometry() as { coordinates: Position }).coordinates) };
+      case 5:
+        return { type: 'MultiLineString', coordinates: Array.from({ length: this.uint32() }, () => (this.geometry() as { coordinates: Position[] }).coordinates) };
+      case 6:
+        return { type: 'MultiPolygon', coordinates: Array.from({ length: this.uint32() }, () => (this.geometry() as { coordinates: Position[][] }).coordinates) };
+      case 7:
+        return { type: 'GeometryCollection', geometries: Array.from({ length: this.uint32() }, () => this.geometry()) };
+      default:
+        throw new Error(`Unsupported WKB geometry type ${rawType}`);
+    }
+  }
+}
+
+/**
+ * Decodes a GeoPackage geometry blob: the "GP" header (with optional envelope) followed by WKB.
+ */
+export function parseGeoPackageGeometry(blob: Uint8Array): Geometry | null {
+  if (blob[0] !== 0x47 || blob[1] !== 0x50) throw new Error('Not a GeoPackage geometry');
+  const flags = blob[3];
+  if (flags & 0x10) return null; // Empty geometry
+  const envelopeBytes = [0, 32, 48, 48, 64][(flags >> 1) & 0x07] ?? 0;
+  return new WkbReader(blob, 8 + envelopeBytes).geometry();
+}
+
+function rows(db: Database, sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+  const statement = db.prepare(sql);
+  statement.bind(params);
+  const result: Record<string, SqlValue>[] = [];
+  while (statement.step()) result.push(statement.getAsObject());
+  statement.free();
+  return result;
+}
+
+function spatialReference(db: Database, srsId: number): string | undefined {
+  const [srs] = rows(db, 'SELECT organization, organization_coordsys_id, definition FROM gpkg_spatial_ref_sys WHERE srs_id = ?', [srsId]);
+  if (!srs) return undefined;
+  const definition = String(srs.definition ?? '').trim();
+  if (definition && definition.toLowerCase() !== 'undefined') return definition;
+  if (String(srs.organization).toUpperCase() === 'EPSG') return `EPSG:${srs.organization_coordsys_id}`;
+  return undefined;
+}
+
+/**
+ * Reads every feature table of a GeoPackage (SQLite) file.
+ */
+export async function readGeoPackage(bytes: Uint8Array): Promise<GeoPackageLayer[]> {
+  const { default: initSqlJs } = await import('sql.js');
+  const SQL = await initSqlJs({ locateFile: sqlJsWasmUrl });
+  const db = new SQL.Database(bytes);
+
+  try {
+    const tables = rows(db, `
+      SELECT c.table_name, c.identifier, g.column_name, g.srs_id
+      FROM gpkg_contents c JOIN gpkg_geometry_columns g ON g.table_name = c.table_name
+      WHERE c.data_type = 'features'`);
+
+    return tables.map(table => {
+      const tableName = String(table.table_name);
+      const geometryColumn = String(table.column_name);
+      const features: Feature[] = [];
+
+      rows(db, `SELECT * FROM "${tableName.replace(/"/g, '""')}"`).forEach(row => {
+        const blob = row[geometryColumn];
+        const geometry = blob instanceof Uint8Array ? parseGeoPackageGeometry(blob) : null;
+        if (!geometry) return;
+
+        const properties: GeoJsonProperties = {};
+        Object.entries(row).forEach(([key, value]) => {
+          if (key !== geometryColumn && !(value instanceof Uint8Array)) properties[key] = value;
+        });
+        features.push({ type: 'Feature', geometry, properties });
+      });
+
+      return {
+        name: String(table.identifier || tableName),
+        geojson: { type: 'FeatureCollection', features },
+        prj: spatialReference(db, Number(table.srs_id)),
+      };
+    });
+  } finally {
+    db.close();
+  }
+}
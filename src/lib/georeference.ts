@@ -0,0 +1,137 @@
+import type { Position } from 'geojson';
+import { ProjectionDef, WGS84_SOURCE, converterFor, utmProjectionFor } from './projection';
+import { PixelMapping } from './raster';
+
+export type TransformKind = 'affine' | 'polynomial';
+
+export const TRANSFORM_KINDS: { id: TransformKind; name: string; minPoints: number }[] = [
+  { id: 'affine', name: 'Affine (1st order)', minPoints: 3 },
+  { id: 'polynomial', name: 'Polynomial (2nd order)', minPoints: 6 },
+];
+
+/**
+ * A scan pixel paired with where it lies on the ground. `position` ([lng, lat]) is missing until it is
+ * picked on the map.
+ */
+export interface ControlPoint {
+  id: string;
+  pixel: [number, number]; // [col, row] in the decoded scan
+  position?: Position;
+}
+
+/**
+ * A 1st or 2nd order polynomial from (u, v) to (x, y). Inputs are shifted and scaled before the terms are
+ * formed, which keeps the least-squares fit well conditioned for UTM-sized coordinates.
+ */
+export interface Polynomial {
+  kind: TransformKind;
+  origin: [number, number];
+  scale: number;
+  cx: number[];
+  cy: number[];
+}
+
+/**
+ * A fitted scan placement. Transforms work in `crs`, the UTM zone of the first control point, so residuals
+ * are in meters.
+ */
+export interface GeoreferenceFit {
+  kind: TransformKind;
+  crs: ProjectionDef;
+  toMap: Polynomial;
+  toPixel: Polynomial;
+  residuals: Record<string, number>; // Meters, by control point id
+  rmsMeters: number;
+}
+
+const terms = (kind: TransformKind, u: number, v: number) =>
+  kind === 'affine' ? [1, u, v] : [1, u, v, u * u, u * v, v * v];
+
+export function evaluatePolynomial(p: Polynomial, u: number, v: number): Position {
+  const t = terms(p.kind, (u - p.origin[0]) / p.scale, (v - p.origin[1]) / p.scale);
+  return [
+    t.reduce((sum, term, i) => sum + term * p.cx[i], 0),
+    t.reduce((sum, term, i) => sum + term * p.cy[i], 0),
+  ];
+}
+
+// Solves A·x = b by Gaussian elimination with partial pivoting
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) {
+      throw new Error('The control points are too close together or in a line. Spread them across the sheet.');
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+function fitPolynomial(kind: TransformKind, from: Position[], to: Position[]): Polynomial {
+  const origin: [number, number] = [
+    from.reduce((sum, p) => sum + p[0], 0) / from.length,
+    from.reduce((sum, p) => sum + p[1], 0) / from.length,
+  ];
+  const scale = Math.max(1e-9, ...from.map(p => Math.max(Math.abs(p[0] - origin[0]), Math.abs(p[1] - origin[1]))));
+  const rows = from.map(p => terms(kind, (p[0] - origin[0]) / scale, (p[1] - origin[1]) / scale));
+
+  // Normal equations: (AᵀA)·c = Aᵀ·values
+  const size = rows[0].length;
+  const normal = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => rows.reduce((sum, r) => sum + r[i] * r[j], 0)));
+  const fit = (values: number[]) =>
+    solve(normal, Array.from({ length: size }, (_, i) => rows.reduce((sum, r, k) => sum + r[i] * values[k], 0)));
+
+  return { kind, origin, scale, cx: fit(to.map(p => p[0])), cy: fit(to.map(p => p[1])) };
+}
+
+/**
+ * Fits the scan-to-ground transform from the placed control points, with each point's residual and the RMS
+ * error. Throws if there are too few points for the transform or they are badly spread.
+ */
+export function fitGeoreference(points: ControlPoint[], kind: TransformKind): GeoreferenceFit {
+  const placed = points.filter((p): p is ControlPoint & { position: Position } => !!p.position);
+  const minPoints = TRANSFORM_KINDS.find(k => k.id === kind)?.minPoints ?? 3;
+  if (placed.length < minPoints) {
+    throw new Error(`${TRANSFORM_KINDS.find(k => k.id === kind)?.name} needs at least ${minPoints} placed control points`);
+  }
+
+  const crs = utmProjectionFor(placed[0].position);
+  const toPlanar = converterFor(WGS84_SOURCE.proj4, crs.proj4);
+  const pixels = placed.map(p => p.pixel);
+  const ground = placed.map(p => toPlanar.forward(p.position));
+
+  const toMap = fitPolynomial(kind, pixels, ground);
+  const toPixel = fitPolynomial(kind, ground, pixels);
+
+  const residuals: Record<string, number> = {};
+  placed.forEach((p, i) => {
+    const [x, y] = evaluatePolynomial(toMap, p.pixel[0], p.pixel[1]);
+    residuals[p.id] = Math.hypot(x - ground[i][0], y - ground[i][1]);
+  });
+  const rmsMeters = Math.sqrt(placed.reduce((sum, p) => sum + residuals[p.id] ** 2, 0) / placed.length);
+
+  return { kind, crs, toMap, toPixel, residuals, rmsMeters };
+}
+
+export function mappingFromFit(fit: GeoreferenceFit): PixelMapping {
+  return {
+    toMap: (col, row) => evaluatePolynomial(fit.toMap, col, row),
+    toPixel: (x, y) => evaluatePolynomial(fit.toPixel, x, y),
+  };
+}
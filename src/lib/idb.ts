@@ -0,0 +1,42 @@
+/**
+ * Runs work in one transaction and resolves with the result of the request it returns, once committed.
+ */
+export type IdbRunner = <T>(
+  storeNames: string | string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => IDBRequest<T> | void
+) => Promise<T | undefined>;
+
+/**
+ * Opens an IndexedDB database lazily on first use, creating or upgrading its stores with `upgrade`.
+ * A failed open is retried on the next call.
+ */
+export function openIndexedDb(
+  name: string, version: number, upgrade: (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => void
+): IdbRunner {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = (event) => {
+          upgrade(request.result, request.transaction!, event.oldVersion);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  return <T>(storeNames: string | string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => IDBRequest<T> | void) =>
+    open().then(db => new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(storeNames, mode);
+      const request = work(tx);
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    }));
+}
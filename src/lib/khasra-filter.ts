@@ -0,0 +1,105 @@
+import type { GeoJsonProperties } from 'geojson';
+import { ParcelMetrics } from './summary';
+import { UnitSystem } from './units';
+
+export type SortKey = 'none' | 'label' | 'area' | 'perimeter';
+
+export interface ListFilter {
+  query: string; // Matched against every attribute value
+  field: string; // Attribute to match exactly ('' = any)
+  value: string;
+  minArea: string; // In areaUnit, kept as typed
+  maxArea: string;
+  areaUnit: string; // Name of one of the unit system's area units
+  sortKey: SortKey;
+  descending: boolean;
+}
+
+export const EMPTY_FILTER: ListFilter = {
+  query: '',
+  field: '',
+  value: '',
+  minArea: '',
+  maxArea: '',
+  areaUnit: '',
+  sortKey: 'none',
+  descending: false,
+};
+
+export interface ListItem {
+  id: string;
+  title: string;
+  properties: GeoJsonProperties;
+  metrics?: ParcelMetrics; // Measured in the worker; missing until it finishes
+}
+
+const naturalOrder = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+function parseBound(text: string): number | undefined {
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+export function isFilterActive(filter: ListFilter): boolean {
+  return Boolean(filter.query.trim() || filter.field || filter.minArea.trim() || filter.maxArea.trim());
+}
+
+/**
+ * Distinct values of an attribute across the file, in natural order (for the value dropdown).
+ */
+export function distinctValues(properties: GeoJsonProperties[], field: string): string[] {
+  const values = new Set<string>();
+  properties.forEach(p => {
+    const value = p?.[field];
+    if (value !== null && value !== undefined && String(value).trim() !== '') values.add(String(value).trim());
+  });
+  return [...values].sort(naturalOrder.compare);
+}
+
+/**
+ * Applies the search, attribute and area filters, then sorts. Area bounds are read in the chosen
+ * area unit of the active unit system (e.g. "above 2" Kanal). Items not yet measured fail area bounds
+ * and sort last.
+ */
+export function applyListFilter(items: ListItem[], filter: ListFilter, units: UnitSystem): ListItem[] {
+  const terms = filter.query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const unit = units.areaUnits.find(u => u.name === filter.areaUnit) ?? units.areaUnits[0];
+  const min = parseBound(filter.minArea);
+  const max = parseBound(filter.maxArea);
+  const minSqFt = min === undefined ? undefined : min * unit.sqFt;
+  const maxSqFt = max === undefined ? undefined : max * unit.sqFt;
+
+  const result = items.filter(item => {
+    if (terms.length > 0) {
+      const haystack = [item.title, ...Object.values(item.properties ?? {})]
+        .filter(v => v !== null && v !== undefined)
+        .join(' ')
+        .toLowerCase();
+      if (!terms.every(term => haystack.includes(term))) return false;
+    }
+    if (filter.field && filter.value && String(item.properties?.[filter.field] ?? '').trim() !== filter.value) {
+      return false;
+    }
+    if (minSqFt !== undefined || maxSqFt !== undefined) {
+      if (!item.metrics) return false;
+      const { areaSqFt } = item.metrics;
+      if (minSqFt !== undefined && areaSqFt < minSqFt) return false;
+      if (maxSqFt !== undefined && areaSqFt > maxSqFt) return false;
+    }
+    return true;
+  });
+
+  if (filter.sortKey === 'none') {
+    return filter.descending ? result.reverse() : result;
+  }
+
+  const direction = filter.descending ? -1 : 1;
+  const compare = (a: ListItem, b: ListItem): number => {
+    if (filter.sortKey === 'label') return naturalOrder.compare(a.title, b.title) * direction;
+    if (!a.metrics || !b.metrics) return Number(!a.metrics) - Number(!b.metrics);
+    return (filter.sortKey === 'area'
+      ? a.metrics.areaSqFt - b.metrics.areaSqFt
+      : a.metrics.perimeterMeters - b.metrics.perimeterMeters) * direction;
+  };
+  return result.sort(compare);
+}
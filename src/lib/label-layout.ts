@@ -0,0 +1,188 @@
+/**
+ * Deterministic placement of map labels in screen space: the same labels at the same zoom always land in the
+ * same place, dimension labels run along their side, and labels pushed away from their anchor get a leader line.
+ */
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface LabelRequest {
+  id: string;
+  anchor: ScreenPoint;
+  width: number;
+  height: number;
+  priority: number; // Lower numbers are placed first and win the best spots
+  edge?: [ScreenPoint, ScreenPoint]; // The side a dimension label measures; the label is turned to run along it
+  required?: boolean; // Shown at its anchor even when every spot collides, e.g. the khasra's own name and area
+}
+
+export interface PlacedLabel {
+  id: string;
+  position: ScreenPoint;
+  angle: number; // Degrees clockwise, kept between -90 and 90 so text never reads upside down
+  leader: boolean; // Displaced from its anchor far enough to need a line back to it
+}
+
+// Sides shorter than this on screen get no label. Being a screen length, the threshold in metres halves with
+// every zoom level in, so short sides appear as the map is zoomed towards them.
+export const MIN_EDGE_PIXELS = 24;
+
+// Space kept between labels
+const PADDING = 2;
+// Size of the spatial hash buckets used for collision search
+const CELL_PIXELS = 64;
+// How many steps out from its anchor a label may be pushed before it is dropped
+const MAX_RINGS = 4;
+
+interface Box {
+  cx: number;
+  cy: number;
+  hw: number; // Half width along the box's own axis
+  hh: number;
+  cos: number;
+  sin: number;
+}
+
+interface Candidate {
+  position: ScreenPoint;
+  leader: boolean;
+}
+
+const boxFor = ({ x, y }: ScreenPoint, width: number, height: number, angle: number): Box => {
+  const radians = (angle * Math.PI) / 180;
+  return { cx: x, cy: y, hw: width / 2 + PADDING, hh: height / 2 + PADDING, cos: Math.cos(radians), sin: Math.sin(radians) };
+};
+
+const extentOf = (b: Box) => {
+  const ex = Math.abs(b.hw * b.cos) + Math.abs(b.hh * b.sin);
+  const ey = Math.abs(b.hw * b.sin) + Math.abs(b.hh * b.cos);
+  return { x1: b.cx - ex, y1: b.cy - ey, x2: b.cx + ex, y2: b.cy + ey };
+};
+
+// Half the length of a box's shadow on the axis (ax, ay)
+const projectedRadius = (b: Box, ax: number, ay: number) =>
+  b.hw * Math.abs(b.cos * ax + b.sin * ay) + b.hh * Math.abs(-b.sin * ax + b.cos * ay);
+
+/**
+ * Separating axis test for two turned rectangles.
+ */
+function boxesOverlap(a: Box, b: Box): boolean {
+  const dx = b.cx - a.cx;
+  const dy = b.cy - a.cy;
+  const axes = [[a.cos, a.sin], [-a.sin, a.cos], [b.cos, b.sin], [-b.sin, b.cos]];
+  return axes.every(([ax, ay]) => Math.abs(dx * ax + dy * ay) <= projectedRadius(a, ax, ay) + projectedRadius(b, ax, ay));
+}
+
+/**
+ * Placed boxes bucketed by screen cell, so each test only looks at its neighbourhood.
+ */
+class CollisionGrid {
+  private boxes: Box[] = [];
+  private cells: Record<string, number[]> = {};
+
+  private cellsOf(b: Box): string[] {
+    const { x1, y1, x2, y2 } = extentOf(b);
+    const keys: string[] = [];
+    for (let i = Math.floor(x1 / CELL_PIXELS); i <= Math.floor(x2 / CELL_PIXELS); i++) {
+      for (let j = Math.floor(y1 / CELL_PIXELS); j <= Math.floor(y2 / CELL_PIXELS); j++) keys.push(`${i}:${j}`);
+    }
+    return keys;
+  }
+
+  collides(b: Box): boolean {
+    return this.cellsOf(b).some(key => (this.cells[key] ?? []).some(index => boxesOverlap(b, this.boxes[index])));
+  }
+
+  add(b: Box) {
+    const index = this.boxes.push(b) - 1;
+    this.cellsOf(b).forEach(key => (this.cells[key] ??= []).push(index));
+  }
+}
+
+/**
+ * Spots for a dimension label: on its side, slid along it, just beside it, then stepped further out across it.
+ */
+function edgeCandidates(request: LabelRequest, [from, to]: [ScreenPoint, ScreenPoint]): { angle: number; candidates: Candidate[] } {
+  let dx = to.x - from.x;
+  let dy = to.y - from.y;
+  if (dx < 0 || (dx === 0 && dy < 0)) {
+    dx = -dx;
+    dy = -dy;
+  }
+  const length = Math.hypot(dx, dy);
+  const ux = dx / length;
+  const uy = dy / length;
+  const at = (along: number, across: number): ScreenPoint => ({
+    x: request.anchor.x + ux * along - uy * across,
+    y: request.anchor.y + uy * along + ux * across,
+  });
+
+  const room = Math.max(0, length - request.width) / 3;
+  const slides = room > 0 ? [0, -room, room] : [0];
+  const beside = request.height / 2 + PADDING;
+  const candidates: Candidate[] = [
+    ...slides.map(s => ({ position: at(s, 0), leader: false })),
+    ...slides.flatMap(s => [beside, -beside].map(d => ({ position: at(s, d), leader: false }))),
+  ];
+  for (let ring = 1; ring <= MAX_RINGS; ring++) {
+    const across = beside + ring * (request.height + PADDING * 2);
+    candidates.push({ position: at(0, across), leader: true }, { position: at(0, -across), leader: true });
+  }
+  return { angle: (Math.atan2(dy, dx) * 180) / Math.PI, candidates };
+}
+
+/**
+ * Spots for an area label: its anchor, then rings of eight spots around it.
+ */
+function pointCandidates(request: LabelRequest): Candidate[] {
+  const { anchor, width, height } = request;
+  const candidates: Candidate[] = [{ position: anchor, leader: false }];
+  const directions = [[0, -1], [0, 1], [-1, 0], [1, 0], [-1, -1], [1, -1], [-1, 1], [1, 1]];
+  for (let ring = 1; ring <= MAX_RINGS; ring++) {
+    const stepX = ring * (width / 2 + 10);
+    const stepY = ring * (height + 4);
+    directions.forEach(([sx, sy]) => {
+      candidates.push({ position: { x: anchor.x + sx * stepX, y: anchor.y + sy * stepY }, leader: true });
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Places labels in priority order (then by id, so ties are stable), each in the first free spot it has.
+ * Labels with no free spot are dropped unless required. Dimension labels of sides shorter than
+ * MIN_EDGE_PIXELS are dropped before placement.
+ */
+export function layoutLabels(requests: LabelRequest[]): PlacedLabel[] {
+  const grid = new CollisionGrid();
+  const placed: PlacedLabel[] = [];
+  const ordered = [...requests].sort((a, b) => a.priority - b.priority || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  ordered.forEach(request => {
+    let angle = 0;
+    let candidates: Candidate[];
+    if (request.edge) {
+      const [from, to] = request.edge;
+      if (Math.hypot(to.x - from.x, to.y - from.y) < MIN_EDGE_PIXELS) return;
+      ({ angle, candidates } = edgeCandidates(request, request.edge));
+    } else {
+      candidates = pointCandidates(request);
+    }
+
+    for (const candidate of candidates) {
+      const box = boxFor(candidate.position, request.width, request.height, angle);
+      if (grid.collides(box)) continue;
+      grid.add(box);
+      placed.push({ id: request.id, position: candidate.position, angle, leader: candidate.leader });
+      return;
+    }
+    if (request.required) {
+      grid.add(boxFor(request.anchor, request.width, request.height, angle));
+      placed.push({ id: request.id, position: request.anchor, angle, leader: false });
+    }
+  });
+
+  return placed;
+}
@@ -0,0 +1,52 @@
+import * as turf from '@turf/turf';
+import type { Feature, LineString, Polygon, Position } from 'geojson';
+import {
+  CRS, Dimension, MeasureOptions,
+  calculateDimensions, calculateKhasraStats, calculateLineDimensions, formatKaramFeet,
+} from './geo-utils';
+
+export type DrawTool = 'line' | 'polygon' | 'rectangle';
+
+export const DRAW_TOOLS: { id: DrawTool; name: string }[] = [
+  { id: 'line', name: 'Measure distance' },
+  { id: 'polygon', name: 'Measure area' },
+  { id: 'rectangle', name: 'Rectangle' },
+];
+
+export type DrawnShape = Feature<LineString | Polygon>;
+
+export interface ShapeMeasurement {
+  dimensions: Dimension[];
+  summary: string; // Total length, or area and perimeter
+  anchor: Position; // Where the summary label goes
+}
+
+/**
+ * Measures a shape drawn on the map with the same math and formatting as the khasras.
+ */
+export function measureShape(shape: DrawnShape, crs: CRS, options: MeasureOptions = {}): ShapeMeasurement {
+  if (shape.geometry.type === 'LineString') {
+    const line = shape as Feature<LineString>;
+    const dimensions = calculateLineDimensions(line, crs, options);
+    const total = dimensions.reduce((sum, d) => sum + d.lengthMeters, 0);
+    const coords = line.geometry.coordinates;
+    return { dimensions, summary: formatKaramFeet(total, options.units), anchor: coords[coords.length - 1] };
+  }
+
+  const dimensions = calculateDimensions(shape, crs, options);
+  const perimeter = dimensions.reduce((sum, d) => sum + d.lengthMeters, 0);
+  const stats = calculateKhasraStats(shape, crs, options);
+  return {
+    dimensions,
+    summary: `${stats.label} · ${formatKaramFeet(perimeter, options.units)} around`,
+    anchor: turf.centerOfMass(shape).geometry.coordinates,
+  };
+}
+
+/**
+ * The shape for the points clicked so far, or null while there are too few of them.
+ */
+export function shapeFromPoints(tool: 'line' | 'polygon', points: Position[]): DrawnShape | null {
+  if (tool === 'line') return points.length >= 2 ? turf.lineString(points) : null;
+  return points.length >= 3 ? turf.polygon([[...points, points[0]]]) : null;
+}
@@ -0,0 +1,112 @@
+import * as turf from '@turf/turf';
+import type { Feature, MultiPolygon, Polygon, Position } from 'geojson';
+import { Dimension, formatKaramFeet, getPolygonParts } from './geo-utils';
+import { UnitSystem } from './units';
+
+export type Compass = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+
+const COMPASS_POINTS: Compass[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+const CARDINALS: { id: Compass; name: string }[] = [
+  { id: 'N', name: 'North' },
+  { id: 'E', name: 'East' },
+  { id: 'S', name: 'South' },
+  { id: 'W', name: 'West' },
+];
+
+export interface NeighbourPolygon {
+  id: string;
+  feature: Feature;
+}
+
+/**
+ * One side of a khasra (in calculateDimensions order), the way it faces and who lies across it.
+ * `neighbours` is empty when nothing in the layer touches the side, e.g. a road or unmapped land.
+ */
+export interface BoundarySide {
+  dimension: Dimension;
+  facing: Compass;
+  facingBearing: number; // Degrees clockwise from true north, pointing out of the khasra
+  neighbours: { id: string; sharedMeters: number }[];
+}
+
+// How far outside each side the layer is probed; covers digitising gaps between neighbours
+const PROBE_OFFSET_METERS = 1;
+// Where along each side the probes go
+const PROBE_FRACTIONS = [0.1, 0.3, 0.5, 0.7, 0.9];
+
+const compassFor = (bearing: number): Compass => COMPASS_POINTS[Math.round((((bearing % 360) + 360) % 360) / 45) % 8];
+const cardinalFor = (bearing: number): Compass => COMPASS_POINTS[(Math.round((((bearing % 360) + 360) % 360) / 90) % 4) * 2];
+
+/**
+ * Finds the neighbours across every side of a khasra, among the other polygons of its layer. Each side is
+ * probed just outside at a few points; a neighbour's share of the side is the share of probes it holds.
+ */
+export function findBoundarySides(target: NeighbourPolygon, polygons: NeighbourPolygon[], dimensions: Dimension[]): BoundarySide[] {
+  const area = target.feature as Feature<Polygon | MultiPolygon>;
+  const [minX, minY, maxX, maxY] = turf.bbox(area);
+  const pad = 0.0001; // About 10 m
+  const nearby = polygons.filter(p => {
+    if (p.id === target.id) return false;
+    const [x1, y1, x2, y2] = turf.bbox(p.feature);
+    return x1 <= maxX + pad && x2 >= minX - pad && y1 <= maxY + pad && y2 >= minY - pad;
+  });
+
+  const sides: BoundarySide[] = [];
+  getPolygonParts(target.feature).forEach(rings => {
+    rings.forEach(coords => {
+      for (let i = 0; i < coords.length - 1; i++) {
+        const dimension = dimensions[sides.length];
+        if (!dimension) return;
+        sides.push(probeSide(area, coords[i], coords[i + 1], dimension, nearby));
+      }
+    });
+  });
+  return sides;
+}
+
+function probeSide(area: Feature<Polygon | MultiPolygon>, p1: Position, p2: Position, dimension: Dimension, nearby: NeighbourPolygon[]): BoundarySide {
+  const bearing = turf.rhumbBearing(p1, p2);
+  const offset = Math.min(PROBE_OFFSET_METERS, dimension.lengthMeters / 4);
+  const mid = turf.midpoint(p1, p2);
+  // Outward is whichever side of the midpoint is not inside the khasra
+  const right = turf.destination(mid, offset, bearing + 90, { units: 'meters' });
+  const facingBearing = turf.booleanPointInPolygon(right, area) ? bearing - 90 : bearing + 90;
+
+  const counts: Record<string, number> = {};
+  PROBE_FRACTIONS.forEach(f => {
+    const along = turf.point([p1[0] + (p2[0] - p1[0]) * f, p1[1] + (p2[1] - p1[1]) * f]);
+    const probe = turf.destination(along, offset, facingBearing, { units: 'meters' });
+    const hit = nearby.find(p => turf.booleanPointInPolygon(probe, p.feature as Feature<Polygon | MultiPolygon>));
+    if (hit) counts[hit.id] = (counts[hit.id] ?? 0) + 1;
+  });
+
+  return {
+    dimension,
+    facing: compassFor(facingBearing),
+    facingBearing: ((facingBearing % 360) + 360) % 360,
+    neighbours: Object.entries(counts)
+      .sort((a, b) => b[1] - a[1])
+      .map(([id, count]) => ({ id, sharedMeters: (dimension.lengthMeters * count) / PROBE_FRACTIONS.length })),
+  };
+}
+
+/**
+ * Builds the "North: khasra 45 ..." boundary description of a fard, grouping sides by the cardinal direction
+ * they face. Sides with no neighbour in the layer are described as not in the data.
+ */
+export function describeBoundaries(
+  title: string, areaLabel: string, sides: BoundarySide[], titleOf: (id: string) => string, units: UnitSystem
+): string {
+  const lines = CARDINALS.map(({ id, name }) => {
+    const facing = sides.filter(s => cardinalFor(s.facingBearing) === id);
+    if (facing.length === 0) return null;
+    const names: string[] = [];
+    facing.forEach(side => {
+      const across = side.neighbours.length > 0 ? side.neighbours.map(n => titleOf(n.id)) : ['not in data'];
+      across.forEach(n => { if (!names.includes(n)) names.push(n); });
+    });
+    const length = facing.reduce((sum, s) => sum + s.dimension.lengthMeters, 0);
+    return `${name}: ${names.join(', ')} (${formatKaramFeet(length, units)})`;
+  });
+  return [`${title} (${areaLabel})`, ...lines.filter((l): l is string => l !== null)].join('\n');
+}
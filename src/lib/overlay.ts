@@ -0,0 +1,100 @@
+import * as turf from '@turf/turf';
+import type { BBox, Feature, FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+import {
+  CRS, Dimension, KhasraStats, MeasureOptions,
+  calculateDimensions, calculateKhasraStats, projectionForFeature,
+} from './geo-utils';
+
+export interface OverlayParcel {
+  id: string;
+  title: string;
+  feature: Feature;
+}
+
+/**
+ * The part of one khasra that falls inside the overlay layer (e.g. an acquisition polygon or road corridor).
+ */
+export interface OverlayResult {
+  id: string;
+  title: string;
+  totalSqFt: number;
+  affectedSqFt: number;
+  remainingSqFt: number;
+  piece: Feature<Polygon | MultiPolygon>;
+  pieceStats: KhasraStats;
+  pieceDimensions: Dimension[];
+}
+
+// Intersections smaller than this are digitising slivers along shared boundaries, not real overlaps
+const MIN_AFFECTED_SQFT = 1;
+
+type AreaFeature = Feature<Polygon | MultiPolygon>;
+
+const isArea = (feature: Feature): feature is AreaFeature =>
+  feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon';
+
+const bboxesOverlap = (a: BBox, b: BBox) => !(a[2] < b[0] || a[0] > b[2] || a[3] < b[1] || a[1] > b[3]);
+
+/**
+ * Intersection of a khasra with every overlay polygon it touches, merged so overlapping overlay
+ * polygons are not counted twice.
+ */
+function affectedPiece(feature: AreaFeature, overlays: { feature: AreaFeature; bbox: BBox }[]): AreaFeature | null {
+  const bbox = turf.bbox(feature);
+  const pieces = overlays
+    .filter(o => bboxesOverlap(bbox, o.bbox))
+    .map(o => turf.intersect(turf.featureCollection([feature, o.feature])))
+    .filter((p): p is AreaFeature => p !== null);
+
+  if (pieces.length === 0) return null;
+  if (pieces.length === 1) return pieces[0];
+  return turf.union(turf.featureCollection(pieces));
+}
+
+/**
+ * Intersects khasras with an overlay layer and measures the affected and remaining area of each.
+ * Pieces are measured in the khasra's own CRS so affected + remaining adds up to the khasra's area.
+ * Only affected khasras are returned.
+ */
+export function analyzeOverlay(
+  parcels: OverlayParcel[],
+  overlay: FeatureCollection,
+  crs: CRS,
+  options: MeasureOptions = {},
+  onProgress?: (done: number, total: number) => void
+): OverlayResult[] {
+  const overlays = overlay.features.filter(isArea).map(feature => ({ feature, bbox: turf.bbox(feature) }));
+  const results: OverlayResult[] = [];
+
+  parcels.forEach((parcel, i) => {
+    onProgress?.(i + 1, parcels.length);
+    if (!isArea(parcel.feature)) return;
+    let piece: AreaFeature | null;
+    try {
+      piece = affectedPiece(parcel.feature, overlays);
+    } catch (error) {
+      console.warn(`Could not intersect ${parcel.title}:`, error);
+      return;
+    }
+    if (!piece) return;
+
+    const parcelCRS = projectionForFeature(parcel.feature, crs).id as CRS;
+    const pieceStats = calculateKhasraStats(piece, parcelCRS, options);
+    if (pieceStats.areaSqFt < MIN_AFFECTED_SQFT) return;
+
+    const totalSqFt = calculateKhasraStats(parcel.feature, parcelCRS, options).areaSqFt;
+    const affectedSqFt = Math.min(pieceStats.areaSqFt, totalSqFt);
+    results.push({
+      id: parcel.id,
+      title: parcel.title,
+      totalSqFt,
+      affectedSqFt,
+      remainingSqFt: totalSqFt - affectedSqFt,
+      piece: { ...piece, properties: { khasra: parcel.title } },
+      pieceStats,
+      pieceDimensions: calculateDimensions(piece, parcelCRS, options),
+    });
+  });
+
+  return results;
+}
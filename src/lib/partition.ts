@@ -0,0 +1,154 @@
+import * as turf from '@turf/turf';
+import type { Feature, MultiPolygon, Polygon, Position } from 'geojson';
+import {
+  CRS, Dimension, KhasraStats, MeasureOptions,
+  calculateDimensions, calculateKhasraStats, getPolygonParts, projectionForFeature,
+} from './geo-utils';
+
+/**
+ * Direction of the cutting lines relative to the chosen side: parallel to it (strips stacked away from
+ * the side), or perpendicular to it (every share gets frontage on that side, e.g. a road).
+ */
+export type PartitionDirection = 'parallel' | 'perpendicular';
+
+export const PARTITION_DIRECTIONS: { id: PartitionDirection; name: string }[] = [
+  { id: 'parallel', name: 'Parallel to side' },
+  { id: 'perpendicular', name: 'Perpendicular to side (frontage)' },
+];
+
+export interface PartitionShare {
+  name: string;
+  areaSqFt: number;
+}
+
+export interface PartitionOptions extends MeasureOptions {
+  sideIndex: number; // Side of the first part's outer boundary, numbered as in the side table
+  direction: PartitionDirection;
+}
+
+export interface PartitionPiece {
+  name: string;
+  targetSqFt: number;
+  feature: Feature<Polygon | MultiPolygon>;
+  stats: KhasraStats;
+  dimensions: Dimension[];
+}
+
+export const REMAINDER_SHARE = 'Remainder';
+
+// Cuts are refined until a share is within this of its target
+const AREA_TOLERANCE_SQFT = 0.01;
+const MAX_ITERATIONS = 80;
+
+type AreaFeature = Feature<Polygon | MultiPolygon>;
+
+function mapPositions(feature: AreaFeature, fn: (p: Position) => Position): AreaFeature {
+  const parts = getPolygonParts(feature).map(rings => rings.map(ring => ring.map(fn)));
+  return {
+    ...feature,
+    geometry: feature.geometry.type === 'MultiPolygon'
+      ? { type: 'MultiPolygon', coordinates: parts }
+      : { type: 'Polygon', coordinates: parts[0] },
+  };
+}
+
+const dot = (a: Position, b: Position) => a[0] * b[0] + a[1] * b[1];
+
+/**
+ * Splits a khasra into shares of the given areas, in order, starting at the chosen side.
+ *
+ * Cutting happens in a local equirectangular frame (so "parallel" and "perpendicular" keep their meaning
+ * at any latitude); each cut is then moved by bisection until the piece, measured in the khasra's CRS with
+ * the usual rules, matches its share. Shares that fall short of the whole khasra leave a remainder piece.
+ */
+export function partitionFeature(feature: Feature, shares: PartitionShare[], crs: CRS, options: PartitionOptions): PartitionPiece[] {
+  if (feature.geometry?.type !== 'Polygon' && feature.geometry?.type !== 'MultiPolygon') {
+    throw new Error('Only polygons can be partitioned');
+  }
+  if (shares.length === 0 || shares.some(s => !(s.areaSqFt > 0))) {
+    throw new Error('Every share needs an area greater than zero');
+  }
+
+  const parcel = feature as AreaFeature;
+  const parcelCRS = projectionForFeature(parcel, crs).id as CRS;
+  const measureOptions = { mode: options.mode, elevation: options.elevation, units: options.units };
+  const totalSqFt = calculateKhasraStats(parcel, parcelCRS, measureOptions).areaSqFt;
+
+  const requested = shares.reduce((sum, s) => sum + s.areaSqFt, 0);
+  if (requested > totalSqFt + AREA_TOLERANCE_SQFT) {
+    throw new Error('The shares add up to more than the khasra');
+  }
+  const allShares = requested < totalSqFt - 1
+    ? [...shares, { name: REMAINDER_SHARE, areaSqFt: totalSqFt - requested }]
+    : shares;
+
+  // Local frame: x scaled by cos(latitude) so angles are true
+  const [lon0, lat0] = turf.centroid(parcel).geometry.coordinates;
+  const k = Math.cos((lat0 * Math.PI) / 180);
+  const toLocal = (p: Position): Position => [(p[0] - lon0) * k, p[1] - lat0];
+  const fromLocal = (p: Position): Position => [p[0] / k + lon0, p[1] + lat0];
+  const local = mapPositions(parcel, toLocal);
+
+  const outer = getPolygonParts(local)[0][0];
+  const sideCount = outer.length - 1;
+  const a = outer[options.sideIndex % sideCount];
+  const b = outer[(options.sideIndex + 1) % sideCount];
+  const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+  if (length === 0) throw new Error('The chosen side has no length');
+
+  const along: Position = [(b[0] - a[0]) / length, (b[1] - a[1]) / length];
+  let normal: Position = [-along[1], along[0]];
+  if (dot([-a[0], -a[1]], normal) < 0) normal = [-normal[0], -normal[1]]; // Point into the khasra (its centroid is the origin)
+
+  // Sweep axis u, with v along the cutting lines
+  const u = options.direction === 'parallel' ? normal : along;
+  const v: Position = [-u[1], u[0]];
+  const positions = getPolygonParts(local).flat(2);
+  const ts = positions.map(p => dot(p, u));
+  const ss = positions.map(p => dot(p, v));
+  const tMin = Math.min(...ts), tMax = Math.max(...ts);
+  const pad = (tMax - tMin + Math.max(...ss) - Math.min(...ss)) * 0.01 + 1e-9;
+  const sMin = Math.min(...ss) - pad, sMax = Math.max(...ss) + pad;
+
+  const at = (t: number, s: number): Position => [t * u[0] + s * v[0], t * u[1] + s * v[1]];
+  const strip = (t0: number, t1: number): AreaFeature | null => {
+    const band = turf.polygon([[at(t0, sMin), at(t1, sMin), at(t1, sMax), at(t0, sMax), at(t0, sMin)]]);
+    const piece = turf.intersect(turf.featureCollection([local, band]));
+    return piece ? mapPositions(piece, fromLocal) : null;
+  };
+  const areaOf = (piece: AreaFeature | null) => (piece ? calculateKhasraStats(piece, parcelCRS, measureOptions).areaSqFt : 0);
+
+  const pieces: PartitionPiece[] = [];
+  let start = tMin - pad;
+  allShares.forEach((share, i) => {
+    let end = tMax + pad;
+    if (i < allShares.length - 1) {
+      let lo = start, hi = tMax;
+      for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+        const mid = (lo + hi) / 2;
+        const area = areaOf(strip(start, mid));
+        if (Math.abs(area - share.areaSqFt) <= AREA_TOLERANCE_SQFT) {
+          lo = hi = mid;
+          break;
+        }
+        if (area < share.areaSqFt) lo = mid;
+        else hi = mid;
+      }
+      end = (lo + hi) / 2;
+    }
+
+    const piece = strip(start, end);
+    start = end;
+    if (!piece) return;
+    const cut: AreaFeature = { ...piece, properties: { ...parcel.properties, share: share.name } };
+    pieces.push({
+      name: share.name,
+      targetSqFt: share.areaSqFt,
+      feature: cut,
+      stats: calculateKhasraStats(cut, parcelCRS, measureOptions),
+      dimensions: calculateDimensions(cut, parcelCRS, measureOptions),
+    });
+  });
+
+  return pieces;
+}
@@ -0,0 +1,169 @@
+import type { Feature, FeatureCollection } from 'geojson';
+import { SpatialLayer, XML_NEEDS_DOM, readSpatialFiles } from './file-formats';
+import { CRS, Dimension, KhasraStats, MeasureOptions, ModeMeasurement } from './geo-utils';
+import { OverlayParcel, OverlayResult } from './overlay';
+import { ParcelMetrics } from './summary';
+import { ProjectionDef, listProjections } from './projection';
+import { GeoreferenceFit } from './georeference';
+import { ScanImage, WarpedRaster } from './raster';
+import { TopologyIssue, ValidationPolygon } from './topology';
+
+/**
+ * Heavy work on whole files runs in a Web Worker (see pipeline.worker.ts) so large mauza and district
+ * files don't freeze the page. Each call gets its own worker; cancelling terminates it.
+ */
+export type PipelineStage = 'parse' | 'project' | 'measure' | 'validate';
+
+export const PIPELINE_STAGES: Record<PipelineStage, string> = {
+  parse: 'Reading file',
+  project: 'Projecting',
+  measure: 'Measuring',
+  validate: 'Checking geometry',
+};
+
+export interface PipelineProgress {
+  stage: PipelineStage;
+  done: number;
+  total: number;
+}
+
+export interface PipelineOptions {
+  onProgress?: (progress: PipelineProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * A layer reprojected to WGS84, with the label position of every feature as [lat, lng].
+ */
+export interface PreparedLayer {
+  geojson: FeatureCollection;
+  centers: [number, number][];
+}
+
+export interface ParcelMeasurement {
+  stats: KhasraStats;
+  dimensions: Dimension[];
+  comparison: ModeMeasurement[];
+}
+
+export type PipelineRequest =
+  | { type: 'parse'; files: File[] }
+  | { type: 'prepare'; geojson: FeatureCollection; source: ProjectionDef }
+  | { type: 'measure'; features: Feature[]; crs: CRS; options: MeasureOptions; projections: ProjectionDef[] }
+  | { type: 'metrics'; features: Feature[]; crs: CRS; options: MeasureOptions; projections: ProjectionDef[] }
+  | { type: 'overlay'; parcels: OverlayParcel[]; overlay: FeatureCollection; crs: CRS; options: MeasureOptions; projections: ProjectionDef[] }
+  | { type: 'validate'; polygons: ValidationPolygon[] }
+  | { type: 'raster'; files: File[]; fallback: ProjectionDef | null }
+  | { type: 'scan'; file: File }
+  | { type: 'warp'; image: ScanImage; fit: GeoreferenceFit };
+
+export type PipelineMessage =
+  | { type: 'progress'; progress: PipelineProgress }
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; message: string };
+
+const cancelled = () => new DOMException('Processing was cancelled', 'AbortError');
+
+export const isCancelled = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+function run<T>(request: PipelineRequest, { onProgress, signal }: PipelineOptions = {}): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelled());
+      return;
+    }
+    const worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(cancelled());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<PipelineMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'result') {
+        finish();
+        resolve(message.result as T);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'The processing worker failed'));
+    };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Reads dropped files into layers. KML, KMZ and GPX fall back to the main thread, as workers have no DOMParser.
+ */
+export async function parseInWorker(files: File[], options: PipelineOptions = {}): Promise<SpatialLayer[]> {
+  try {
+    return await run<SpatialLayer[]>({ type: 'parse', files }, options);
+  } catch (error) {
+    if (error instanceof Error && error.message === XML_NEEDS_DOM) return readSpatialFiles(files);
+    throw error;
+  }
+}
+
+export function prepareInWorker(geojson: FeatureCollection, source: ProjectionDef, options: PipelineOptions = {}): Promise<PreparedLayer> {
+  return run({ type: 'prepare', geojson, source }, options);
+}
+
+// The worker has its own projection registry, so user-defined projections travel with each request
+const customProjections = () => listProjections().filter(p => p.group === 'Custom');
+
+/**
+ * Stats, side dimensions and the measurement-mode comparison of each feature, in order.
+ */
+export function measureInWorker(
+  features: Feature[], crs: CRS, measureOptions: MeasureOptions, options: PipelineOptions = {}
+): Promise<ParcelMeasurement[]> {
+  return run({ type: 'measure', features, crs, options: measureOptions, projections: customProjections() }, options);
+}
+
+/**
+ * Area and perimeter of each feature, in order: what whole-file totals and the list's area filter and sort need.
+ */
+export function metricsInWorker(
+  features: Feature[], crs: CRS, measureOptions: MeasureOptions, options: PipelineOptions = {}
+): Promise<ParcelMetrics[]> {
+  return run({ type: 'metrics', features, crs, options: measureOptions, projections: customProjections() }, options);
+}
+
+export function overlayInWorker(
+  parcels: OverlayParcel[], overlay: FeatureCollection, crs: CRS, measureOptions: MeasureOptions, options: PipelineOptions = {}
+): Promise<OverlayResult[]> {
+  return run({ type: 'overlay', parcels, overlay, crs, options: measureOptions, projections: customProjections() }, options);
+}
+
+export function validateInWorker(polygons: ValidationPolygon[], options: PipelineOptions = {}): Promise<TopologyIssue[]> {
+  return run({ type: 'validate', polygons }, options);
+}
+
+/**
+ * Decodes a GeoTIFF or world-file scan and warps it onto the web map. See readRasterFiles for `fallback`.
+ */
+export function rasterInWorker(files: File[], fallback: ProjectionDef | null, options: PipelineOptions = {}): Promise<WarpedRaster> {
+  return run({ type: 'raster', files, fallback }, options);
+}
+
+export function scanInWorker(file: File, options: PipelineOptions = {}): Promise<ScanImage> {
+  return run({ type: 'scan', file }, options);
+}
+
+/**
+ * Warps a hand-georeferenced scan onto the web map with its fitted control-point transform.
+ */
+export function warpInWorker(image: ScanImage, fit: GeoreferenceFit, options: PipelineOptions = {}): Promise<WarpedRaster> {
+  return run({ type: 'warp', image, fit }, options);
+}
@@ -0,0 +1,91 @@
+import * as turf from '@turf/turf';
+import { readSpatialFiles } from './file-formats';
+import { calculateDimensions, calculateKhasraStats, compareMeasurementModes } from './geo-utils';
+import { registerProjection, reprojectToWGS84 } from './projection';
+import { mappingFromFit } from './georeference';
+import { analyzeOverlay } from './overlay';
+import { measureParcel } from './summary';
+import { affineMapping, readRasterFiles, readScanImage, warpToWebMercator } from './raster';
+import { validatePolygons } from './topology';
+import type { ParcelMeasurement, PipelineMessage, PipelineRequest, PipelineStage, PreparedLayer } from './pipeline';
+
+const send = (message: PipelineMessage) => self.postMessage(message);
+
+// Posts progress about once per percent
+function reporter(stage: PipelineStage) {
+  return (done: number, total: number) => {
+    if (done === total || done % Math.max(1, Math.floor(total / 100)) === 0) {
+      send({ type: 'progress', progress: { stage, done, total } });
+    }
+  };
+}
+
+async function handle(request: PipelineRequest): Promise<unknown> {
+  switch (request.type) {
+    case 'parse': {
+      send({ type: 'progress', progress: { stage: 'parse', done: 0, total: 1 } });
+      return readSpatialFiles(request.files);
+    }
+    case 'prepare': {
+      const report = reporter('project');
+      const geojson = reprojectToWGS84(request.geojson, request.source);
+      const centers = geojson.features.map((feature, i, features) => {
+        const [lng, lat] = turf.centerOfMass(feature).geometry.coordinates;
+        report(i + 1, features.length);
+        return [lat, lng] as [number, number];
+      });
+      const prepared: PreparedLayer = { geojson, centers };
+      return prepared;
+    }
+    case 'measure': {
+      request.projections.forEach(registerProjection);
+      const report = reporter('measure');
+      const { crs, options } = request;
+      return request.features.map((feature, i, features): ParcelMeasurement => {
+        const measured = {
+          stats: calculateKhasraStats(feature, crs, options),
+          dimensions: calculateDimensions(feature, crs, options),
+          comparison: compareMeasurementModes(feature, crs, options.elevation),
+        };
+        report(i + 1, features.length);
+        return measured;
+      });
+    }
+    case 'metrics': {
+      request.projections.forEach(registerProjection);
+      const report = reporter('measure');
+      return request.features.map((feature, i, features) => {
+        const metrics = measureParcel(feature, request.crs, request.options);
+        report(i + 1, features.length);
+        return metrics;
+      });
+    }
+    case 'overlay': {
+      request.projections.forEach(registerProjection);
+      return analyzeOverlay(request.parcels, request.overlay, request.crs, request.options, reporter('measure'));
+    }
+    case 'validate': {
+      return validatePolygons(request.polygons, reporter('validate'));
+    }
+    case 'raster': {
+      send({ type: 'progress', progress: { stage: 'parse', done: 0, total: 1 } });
+      const source = await readRasterFiles(request.files, request.fallback);
+      return warpToWebMercator(source, source.crs, affineMapping(source.transform), reporter('project'));
+    }
+    case 'scan': {
+      send({ type: 'progress', progress: { stage: 'parse', done: 0, total: 1 } });
+      return readScanImage(request.file);
+    }
+    case 'warp': {
+      return warpToWebMercator(request.image, request.fit.crs, mappingFromFit(request.fit), reporter('project'));
+    }
+  }
+}
+
+self.onmessage = async (event: MessageEvent<PipelineRequest>) => {
+  try {
+    send({ type: 'result', result: await handle(event.data) });
+  } catch (error) {
+    send({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,114 @@
+import { saveFile } from './data-export';
+import { CRS, MeasurementMode } from './geo-utils';
+import { openIndexedDb } from './idb';
+import { ProjectionDef } from './projection';
+import { UnitSystem } from './units';
+
+export interface ProjectSettings {
+  selectedCRS: CRS;
+  measurementMode: MeasurementMode;
+  elevation: number;
+  unitSystem: UnitSystem;
+  baseLayer: 'satellite' | 'dark';
+}
+
+/**
+ * Everything needed to reopen a session: the layers (source data, edits, stats and selection), which one
+ * was active, the measuring settings and any user-defined projections they rely on.
+ */
+export interface Project<Layer> {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  layers: Layer[];
+  activeLayerId: string | null;
+  settings: ProjectSettings;
+  customProjections: ProjectionDef[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  savedAt: string;
+  layerNames: string[];
+}
+
+const DB_NAME = 'khasra-tool';
+const DB_VERSION = 1;
+// Full projects, and the small summaries listed on startup (so listing does not read every layer)
+const PROJECTS = 'projects';
+const SUMMARIES = 'summaries';
+
+const PROJECT_FILE_FORMAT = 'khasra-project';
+const PROJECT_FILE_VERSION = 1;
+
+const transact = openIndexedDb(DB_NAME, DB_VERSION, db => {
+  db.createObjectStore(PROJECTS, { keyPath: 'id' });
+  db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+});
+
+const run = <T>(mode: IDBTransactionMode, work: (tx: IDBTransaction) => IDBRequest<T> | void) =>
+  transact<T>([PROJECTS, SUMMARIES], mode, work);
+
+export const newProjectId = () => `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export function saveProject<Layer extends { name: string }>(project: Project<Layer>): Promise<void> {
+  const summary: ProjectSummary = {
+    id: project.id,
+    name: project.name,
+    savedAt: project.savedAt,
+    layerNames: project.layers.map(l => l.name),
+  };
+  return run('readwrite', tx => {
+    tx.objectStore(PROJECTS).put(project);
+    tx.objectStore(SUMMARIES).put(summary);
+  }).then(() => undefined);
+}
+
+/**
+ * Saved projects, most recent first.
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const summaries = await run<ProjectSummary[]>('readonly', tx => tx.objectStore(SUMMARIES).getAll());
+  return (summaries ?? []).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+export async function loadProject<Layer>(id: string): Promise<Project<Layer>> {
+  const project = await run<Project<Layer>>('readonly', tx => tx.objectStore(PROJECTS).get(id));
+  if (!project) throw new Error('The project no longer exists');
+  return project;
+}
+
+export function deleteProject(id: string): Promise<void> {
+  return run('readwrite', tx => {
+    tx.objectStore(PROJECTS).delete(id);
+    tx.objectStore(SUMMARIES).delete(id);
+  }).then(() => undefined);
+}
+
+/**
+ * Downloads a project as a single JSON file that importProjectFile can open on another machine.
+ */
+export function exportProjectFile<Layer>(project: Project<Layer>) {
+  const json = JSON.stringify({ format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION, project });
+  saveFile(json, `${project.name}.khasra.json`, 'application/json');
+}
+
+/**
+ * Reads a project file. It gets a new id, so importing never overwrites a local project.
+ */
+export async function importProjectFile<Layer>(file: File): Promise<Project<Layer>> {
+  let parsed: { format?: string; version?: number; project?: Project<Layer> };
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The file is not a project file');
+  }
+  if (parsed.format !== PROJECT_FILE_FORMAT || !parsed.project || !Array.isArray(parsed.project.layers)) {
+    throw new Error('The file is not a project file');
+  }
+  if ((parsed.version ?? 0) > PROJECT_FILE_VERSION) {
+    throw new Error('The project was saved by a newer version of the app');
+  }
+  return { ...parsed.project, id: newProjectId() };
+}
@@ -0,0 +1,287 @@
+import proj4 from 'proj4';
+import type { Converter } from 'proj4';
+import type { FeatureCollection, Geometry, Position } from 'geojson';
+
+export interface ProjectionDef {
+  id: string;
+  name: string;
+  proj4: string;
+  group?: 'UTM' | 'Pakistan / India' | 'Custom';
+}
+
+/** Measurement mode that picks the WGS 84 UTM zone of each feature from its centroid. */
+export const AUTO_CRS = 'AUTO';
+
+export const WGS84_SOURCE: ProjectionDef = {
+  id: 'EPSG:4326',
+  name: 'WGS 84 (Lat/Lng)',
+  proj4: '+proj=longlat +datum=WGS84 +no_defs',
+};
+
+// Everest 1830 ellipsoids and the Pakistan / India datum shifts used by revenue-department data
+const EVEREST_1962 = '+a=6377301.243 +rf=300.8017255';
+const EVEREST_1975 = '+a=6377299.151 +rf=300.8017255';
+const KALIANPUR_1962_TOWGS84 = '+towgs84=283,682,231,0,0,0,0';
+const KALIANPUR_1975_TOWGS84 = '+towgs84=295,736,257,0,0,0,0';
+
+const utmDefinition = (zone: number, south: boolean = false) =>
+  `+proj=utm +zone=${zone}${south ? ' +south' : ''} +datum=WGS84 +units=m +no_defs`;
+
+const BUILT_IN_PROJECTIONS: ProjectionDef[] = [
+  ...[41, 42, 43, 44, 45, 46].map(zone => ({
+    id: `EPSG:${32600 + zone}`,
+    name: `WGS 84 / UTM Zone ${zone}N`,
+    proj4: utmDefinition(zone),
+    group: 'UTM' as const,
+  })),
+  { id: 'EPSG:24312', name: 'Kalianpur 1962 / UTM Zone 42N', proj4: `+proj=utm +zone=42 ${EVEREST_1962} ${KALIANPUR_1962_TOWGS84} +units=m +no_defs`, group: 'Pakistan / India' },
+  { id: 'EPSG:24313', name: 'Kalianpur 1962 / UTM Zone 43N', proj4: `+proj=utm +zone=43 ${EVEREST_1962} ${KALIANPUR_1962_TOWGS84} +units=m +no_defs`, group: 'Pakistan / India' },
+  { id: 'EPSG:24376', name: 'Kalianpur 1962 / India Zone I', proj4: `+proj=lcc +lat_1=32.5 +lat_0=32.5 +lon_0=68 +k_0=0.99878641 +x_0=2743196.4 +y_0=914398.8 ${EVEREST_1962} ${KALIANPUR_1962_TOWGS84} +units=m +no_defs`, group: 'Pakistan / India' },
+  { id: 'EPSG:24378', name: 'Kalianpur 1975 / India Zone I', proj4: `+proj=lcc +lat_1=32.5 +lat_0=32.5 +lon_0=68 +k_0=0.99878641 +x_0=2743185.69 +y_0=914395.23 ${EVEREST_1975} ${KALIANPUR_1975_TOWGS84} +units=m +no_defs`, group: 'Pakistan / India' },
+];
+
+// Named projections available to the measurement and source CRS dropdowns, keyed by id
+const registry = new Map<string, ProjectionDef>(BUILT_IN_PROJECTIONS.map(p => [p.id, p]));
+
+/**
+ * Lists every registered projected CRS, built-in grids first and user-defined ones last.
+ */
+export function listProjections(): ProjectionDef[] {
+  return Array.from(registry.values());
+}
+
+export const isBuiltInProjection = (id: string) => BUILT_IN_PROJECTIONS.some(p => p.id === id);
+
+/**
+ * Adds (or replaces) a user-defined projection. Throws if proj4 cannot read the definition, or if the id
+ * belongs to a built-in projection (which must not be replaced, and is never saved or sent as custom).
+ */
+export function registerProjection(projection: ProjectionDef): ProjectionDef {
+  if (isBuiltInProjection(projection.id)) {
+    throw new Error(`${projection.id} is a built-in projection and cannot be redefined`);
+  }
+  if (!isValidDefinition(projection.proj4)) {
+    throw new Error(`Invalid projection definition for ${projection.name}`);
+  }
+  const entry = { ...projection, group: projection.group ?? 'Custom' };
+  registry.set(entry.id, entry);
+  return entry;
+}
+
+/**
+ * Source CRS choices offered when a shapefile arrives without (or with an unreadable) .prj file.
+ */
+export function sourceCRSOptions(): ProjectionDef[] {
+  return [WGS84_SOURCE, ...listProjections()];
+}
+
+/**
+ * Returns the WGS 84 UTM zone projection covering the given [lng, lat].
+ */
+export function utmProjectionFor(position: Position): ProjectionDef {
+  const [lng, lat] = position;
+  const zone = Math.min(60, Math.max(1, Math.floor((lng + 180) / 6) + 1));
+  const south = lat < 0;
+  return {
+    id: `EPSG:${(south ? 32700 : 32600) + zone}`,
+    name: `WGS 84 / UTM Zone ${zone}${south ? 'S' : 'N'}`,
+    proj4: utmDefinition(zone, south),
+    group: 'UTM',
+  };
+}
+
+// proj4 parses both definitions whenever a converter is made, so converters are kept per pair
+const converters = new Map<string, Converter>();
+
+/**
+ * Returns a cached converter between two proj4 definitions (or ids proj4 knows, like EPSG:4326).
+ */
+export function converterFor(from: string, to: string): Converter {
+  const key = `${from}|${to}`;
+  let converter = converters.get(key);
+  if (!converter) {
+    converter = proj4(from, to);
+    converters.set(key, converter);
+  }
+  return converter;
+}
+
+/**
+ * Resolves a CRS id into a concrete projection. AUTO picks the UTM zone of the reference position;
+ * unregistered EPSG codes fall back to the definitions proj4 ships with (e.g. every WGS 84 UTM zone).
+ */
+export function resolveProjection(id: string, reference?: Position): ProjectionDef {
+  if (id === AUTO_CRS) {
+    if (!reference) throw new Error('Auto projection needs a reference position');
+    return utmProjectionFor(reference);
+  }
+
+  const registered = registry.get(id);
+  if (registered) return registered;
+
+  const utm = id.match(/^EPSG:32([67])(\d\d)$/);
+  if (utm) {
+    return { ...utmProjectionFor([Number(utm[2]) * 6 - 183, utm[1] === '7' ? -1 : 1]), id };
+  }
+
+  if (proj4.defs(id)) {
+    return { id, name: id, proj4: id };
+  }
+  throw new Error(`Unknown projection: ${id}`);
+}
+
+// ESRI-flavoured .prj files usually omit TOWGS84 for the Kalianpur datums
+const KNOWN_DATUM_SHIFTS: Record<string, number[]> = {
+  kalianpur_1937: [282, 726, 254],
+  kalianpur_1962: [283, 682, 231],
+  kalianpur_1975: [295, 736, 257],
+};
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+// The subset of proj4's parsed WKT definition that we translate (angles in radians, offsets in meters)
+interface ParsedDefinition {
+  projName?: string;
+  datumCode?: string;
+  datum_params?: (number | string)[];
+  a?: number;
+  b?: number;
+  rf?: number;
+  lat0?: number;
+  lat1?: number;
+  lat2?: number;
+  long0?: number;
+  k0?: number;
+  x0?: number;
+  y0?: number;
+  to_meter?: number;
+}
+
+/**
+ * Converts the WKT of a .prj file into a proj4 definition string.
+ * Projections outside the common set (lat/lng, Transverse Mercator, Lambert Conformal Conic)
+ * fall back to the WKT itself, which proj4 can still consume directly.
+ */
+export function wktToProj4(wkt: string): string {
+  const key = `prj:${wkt}`;
+  proj4.defs(key, wkt);
+  const def = proj4.defs(key) as ParsedDefinition | undefined;
+  if (!def || !def.projName) {
+    throw new Error('Unrecognised projection in .prj file');
+  }
+
+  const datumCode = String(def.datumCode || '').toLowerCase();
+  const datumParams: number[] | undefined = def.datum_params?.length
+    ? def.datum_params.map(Number)
+    : KNOWN_DATUM_SHIFTS[datumCode];
+
+  const datum = datumCode === 'wgs84'
+    ? '+datum=WGS84'
+    : [
+      `+a=${def.a}`,
+      def.rf ? `+rf=${def.rf}` : `+b=${def.b}`,
+      datumParams && datumParams.some(v => v !== 0) ? `+towgs84=${datumParams.join(',')}` : '',
+    ].filter(Boolean).join(' ');
+
+  const deg = (radians: number | undefined) => (radians || 0) * RAD_TO_DEG;
+  const units = def.to_meter && def.to_meter !== 1 ? `+to_meter=${def.to_meter}` : '+units=m';
+  const projName = String(def.projName).toLowerCase().replace(/ /g, '_');
+
+  let projection: string;
+  if (projName === 'longlat') {
+    return `+proj=longlat ${datum} +no_defs`;
+  } else if (projName === 'transverse_mercator' || projName === 'tmerc') {
+    projection = `+proj=tmerc +lat_0=${deg(def.lat0)} +lon_0=${deg(def.long0)} +k_0=${def.k0 ?? 1}`;
+  } else if (projName === 'lambert_conformal_conic_1sp') {
+    projection = `+proj=lcc +lat_1=${deg(def.lat0)} +lat_0=${deg(def.lat0)} +lon_0=${deg(def.long0)} +k_0=${def.k0 ?? 1}`;
+  } else if (projName === 'lambert_conformal_conic' || projName === 'lambert_conformal_conic_2sp') {
+    projection = `+proj=lcc +lat_1=${deg(def.lat1)} +lat_2=${deg(def.lat2 ?? def.lat1)} +lat_0=${deg(def.lat0)} +lon_0=${deg(def.long0)}`;
+  } else {
+    return wkt;
+  }
+
+  return `${projection} +x_0=${def.x0 || 0} +y_0=${def.y0 || 0} ${datum} ${units} +no_defs`;
+}
+
+/**
+ * Resolves the source CRS of an uploaded file from its .prj contents (or a declared "EPSG:<code>").
+ * Returns null when there is no .prj (or it cannot be read) so the caller can warn the user.
+ */
+export function sourceCRSFromPrj(prj: string | undefined, name: string = 'From .prj file'): ProjectionDef | null {
+  if (!prj || !prj.trim()) return null;
+  try {
+    const wkt = prj.trim();
+    // GeoJSON "crs" members and GeoPackages without a WKT definition only give an EPSG code
+    if (/^EPSG:\d+$/i.test(wkt)) {
+      const id = wkt.toUpperCase();
+      const known = sourceCRSOptions().find(o => o.id === id) ?? resolveProjection(id);
+      return { ...known, id: 'prj' };
+    }
+    const title = wkt.match(/^\w+\["([^"]+)"/)?.[1];
+    return { id: 'prj', name: title ? title.replace(/_/g, ' ') : name, proj4: wktToProj4(wkt) };
+  } catch (error) {
+    console.warn('Could not parse .prj file:', error);
+    return null;
+  }
+}
+
+/**
+ * Checks that a user-entered proj4 string or WKT can be used by proj4.
+ */
+export function isValidDefinition(definition: string): boolean {
+  try {
+    proj4(definition, WGS84_SOURCE.proj4);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns true when every coordinate falls within lng/lat bounds, i.e. the data is plausibly WGS84.
+ */
+export function looksGeographic(geojson: FeatureCollection): boolean {
+  let geographic = true;
+  visitCoordinates(geojson, coord => {
+    if (Math.abs(coord[0]) > 180 || Math.abs(coord[1]) > 90) geographic = false;
+  });
+  return geographic;
+}
+
+/**
+ * Reprojects every coordinate of a FeatureCollection from the source CRS into WGS84 [lng, lat].
+ * The input is left untouched so the user can pick a different source CRS later.
+ */
+export function reprojectToWGS84(geojson: FeatureCollection, source: ProjectionDef): FeatureCollection {
+  if (source.id === WGS84_SOURCE.id) return geojson;
+
+  const converter = converterFor(source.proj4, WGS84_SOURCE.proj4);
+  const copy = structuredClone(geojson);
+  visitCoordinates(copy, coord => {
+    const [lng, lat] = converter.forward([coord[0], coord[1]]);
+    coord[0] = lng;
+    coord[1] = lat;
+  });
+  return copy;
+}
+
+function visitCoordinates(geojson: FeatureCollection, fn: (coord: Position) => void) {
+  type Nested = Position | Nested[];
+  const walk = (coords: Nested) => {
+    if (typeof coords[0] === 'number') {
+      fn(coords as Position);
+    } else {
+      (coords as Nested[]).forEach(walk);
+    }
+  };
+  const walkGeometry = (geometry: Geometry | null) => {
+    if (!geometry) return;
+    if (geometry.type === 'GeometryCollection') {
+      geometry.geometries.forEach(walkGeometry);
+    } else {
+      walk(geometry.coordinates);
+    }
+  };
+
+  geojson.features.forEach(feature => walkGeometry(feature.geometry));
+}
@@ -0,0 +1,309 @@
+import type { GeoTIFFImage } from 'geotiff';
+import type { Position } from 'geojson';
+import { ProjectionDef, WGS84_SOURCE, converterFor, resolveProjection, sourceCRSFromPrj } from './projection';
+
+/**
+ * Pixel edge (col, row) to map coordinates: x = a·col + b·row + c, y = d·col + e·row + f.
+ * (0, 0) is the top-left corner of the top-left pixel.
+ */
+export interface Affine {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+/**
+ * Converts between scan pixels (col, row) and coordinates in the scan's CRS.
+ */
+export interface PixelMapping {
+  toMap: (col: number, row: number) => Position;
+  toPixel: (x: number, y: number) => Position;
+}
+
+/**
+ * A decoded scan as RGBA pixels, before it is placed on the map.
+ */
+export interface ScanImage {
+  name: string;
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+}
+
+/**
+ * A scan or GeoTIFF whose placement came with the file, in its own CRS.
+ */
+export interface SourceRaster extends ScanImage {
+  transform: Affine;
+  crs: ProjectionDef;
+}
+
+/**
+ * A raster resampled onto the web map's grid, ready for an image overlay. Bounds are [[south, west], [north, east]].
+ */
+export interface WarpedRaster {
+  name: string;
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+  bounds: [[number, number], [number, number]];
+}
+
+/**
+ * A scan shown on the map under the khasra layers.
+ */
+export interface RasterOverlay {
+  id: string;
+  name: string;
+  url: string; // Object URL of the warped image
+  bounds: [[number, number], [number, number]];
+  opacity: number;
+  visible: boolean;
+}
+
+export const RASTER_EXTENSIONS = '.tif,.tiff,.png,.jpg,.jpeg,.pgw,.jgw,.tfw,.wld,.pngw,.jpgw,.tifw,.prj';
+
+// Larger scans are downsampled to keep the overlay within what browsers can draw
+const MAX_RASTER_SIDE = 4096;
+// Output pixels between exactly reprojected grid points; the rest are interpolated
+const WARP_GRID_STEP = 16;
+
+const IMAGE_EXTENSIONS = ['tif', 'tiff', 'png', 'jpg', 'jpeg'];
+const WORLD_FILE_EXTENSIONS = ['pgw', 'jgw', 'tfw', 'wld', 'pngw', 'jpgw', 'tifw'];
+
+// GeoTIFF keys giving the EPSG code of the image's CRS; 32767 means user-defined
+const USER_DEFINED_GEOKEY = 32767;
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '');
+
+/**
+ * Reads an ESRI world file (.pgw, .jgw, .tfw ...). Its six lines are A, D, B, E, C, F with C and F at the
+ * centre of the top-left pixel.
+ */
+export function parseWorldFile(text: string): Affine {
+  const values = text.trim().split(/\s+/).map(Number);
+  if (values.length < 6 || values.slice(0, 6).some(v => !Number.isFinite(v))) {
+    throw new Error('The world file should hold six numbers');
+  }
+  const [a, d, b, e, c, f] = values;
+  return { a, b, c: c - (a + b) / 2, d, e, f: f - (d + e) / 2 };
+}
+
+export function affineMapping(t: Affine): PixelMapping {
+  const det = t.a * t.e - t.b * t.d;
+  return {
+    toMap: (col, row) => [t.a * col + t.b * row + t.c, t.d * col + t.e * row + t.f],
+    toPixel: (x, y) => [(t.e * (x - t.c) - t.b * (y - t.f)) / det, (-t.d * (x - t.c) + t.a * (y - t.f)) / det],
+  };
+}
+
+const looksGeographicTransform = (t: Affine, width: number, height: number) =>
+  [[0, 0], [width, height]].every(([col, row]) =>
+    Math.abs(t.a * col + t.b * row + t.c) <= 180 && Math.abs(t.d * col + t.e * row + t.f) <= 90);
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  scale: number; // Decoded size over the file's size
+  pixels: Uint8ClampedArray;
+  tiff?: GeoTIFFImage;
+}
+
+const scaleFor = (width: number, height: number) => Math.min(1, MAX_RASTER_SIDE / Math.max(width, height));
+
+async function decodeImage(file: File): Promise<DecodedImage> {
+  const ext = extensionOf(file.name);
+  if (ext === 'tif' || ext === 'tiff') {
+    const { fromArrayBuffer } = await import('geotiff');
+    const tiff = await (await fromArrayBuffer(await file.arrayBuffer())).getImage();
+    const scale = scaleFor(tiff.getWidth(), tiff.getHeight());
+    const width = Math.round(tiff.getWidth() * scale);
+    const height = Math.round(tiff.getHeight() * scale);
+    const rgb = await tiff.readRGB({ interleave: true, enableAlpha: true, width, height });
+    const channels = rgb.length / (width * height);
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      for (let k = 0; k < 3; k++) pixels[i * 4 + k] = rgb[i * channels + k];
+      pixels[i * 4 + 3] = channels === 4 ? rgb[i * channels + 3] : 255;
+    }
+    return { width, height, scale, pixels, tiff };
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const scale = scaleFor(bitmap.width, bitmap.height);
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const context = new OffscreenCanvas(width, height).getContext('2d');
+  if (!context) throw new Error(`Could not decode ${file.name}`);
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return { width, height, scale, pixels: context.getImageData(0, 0, width, height).data };
+}
+
+// The GeoTIFF's own placement and CRS, or null when it only has pixels
+function geoTiffReference(tiff: GeoTIFFImage): { transform: Affine; crsId: string | null } | null {
+  let transform: Affine;
+  try {
+    const [x0, y0] = tiff.getOrigin();
+    const [rx, ry] = tiff.getResolution();
+    transform = { a: rx, b: 0, c: x0, d: 0, e: ry, f: y0 };
+  } catch {
+    return null;
+  }
+  const keys = tiff.getGeoKeys() ?? {};
+  const code = Number(keys.ProjectedCSTypeGeoKey ?? keys.GeographicTypeGeoKey);
+  return { transform, crsId: code && code !== USER_DEFINED_GEOKEY ? `EPSG:${code}` : null };
+}
+
+// EPSG codes proj4 has no definition for are treated like a missing CRS
+function knownProjection(id: string | null): ProjectionDef | null {
+  if (!id) return null;
+  try {
+    return resolveProjection(id);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decodes a scan to be georeferenced by hand. Its pixels are the ones control points refer to.
+ */
+export async function readScanImage(file: File): Promise<ScanImage> {
+  if (!IMAGE_EXTENSIONS.includes(extensionOf(file.name))) throw new Error('Choose a scanned image (.png, .jpg or .tif)');
+  const { width, height, pixels } = await decodeImage(file);
+  return { name: baseName(file.name), width, height, pixels };
+}
+
+/**
+ * Reads a GeoTIFF, or a scanned image with its world file (and optional .prj). `fallback` is the CRS used
+ * when the files do not name one; without it, only lat/lng world files can be placed.
+ */
+export async function readRasterFiles(files: File[], fallback: ProjectionDef | null): Promise<SourceRaster> {
+  const image = files.find(f => IMAGE_EXTENSIONS.includes(extensionOf(f.name)));
+  if (!image) throw new Error('Choose a GeoTIFF or a scanned image (.png, .jpg, .tif) with its world file');
+  // Sidecars sharing the image's name win over any other of the same kind
+  const sidecar = (extensions: string[]) => {
+    const matches = files.filter(f => f !== image && extensions.includes(extensionOf(f.name)));
+    return matches.find(f => baseName(f.name) === baseName(image.name)) ?? matches[0];
+  };
+  const worldFile = sidecar(WORLD_FILE_EXTENSIONS);
+  const prjFile = sidecar(['prj']);
+  const prjCRS = prjFile ? sourceCRSFromPrj(await prjFile.text()) : null;
+
+  const decoded = await decodeImage(image);
+  const reference = worldFile
+    ? { transform: parseWorldFile(await worldFile.text()), crsId: null }
+    : decoded.tiff && geoTiffReference(decoded.tiff);
+  if (!reference) {
+    throw new Error(`${image.name} is not georeferenced. Add its world file (${WORLD_FILE_EXTENSIONS.slice(0, 3).map(e => `.${e}`).join(', ')}).`);
+  }
+
+  // The placement describes the image at full size
+  const { width, height, scale } = decoded;
+  const t = reference.transform;
+  const transform = { a: t.a / scale, b: t.b / scale, c: t.c, d: t.d / scale, e: t.e / scale, f: t.f };
+  const crs = knownProjection(reference.crsId)
+    ?? prjCRS
+    ?? (looksGeographicTransform(transform, width, height) ? WGS84_SOURCE : fallback);
+  if (!crs) throw new Error(`${image.name} does not name its CRS. Pick the scan CRS and load it again.`);
+
+  return { name: baseName(image.name), width, height, pixels: decoded.pixels, transform, crs };
+}
+
+const mercatorY = (lat: number) => Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360));
+
+/**
+ * Resamples a scan onto a lat/lng box whose rows are evenly spaced in Web Mercator, the way Leaflet
+ * stretches image overlays. `mapping` places its pixels in `crs`. Pixels outside the scan are left transparent.
+ */
+export function warpToWebMercator(
+  source: ScanImage, crs: ProjectionDef, mapping: PixelMapping, onProgress?: (done: number, total: number) => void
+): WarpedRaster {
+  const { width, height } = source;
+  const toWgs84 = converterFor(crs.proj4, WGS84_SOURCE.proj4);
+  const fromWgs84 = converterFor(WGS84_SOURCE.proj4, crs.proj4);
+
+  // Bounds from points along the edges, as the outline bends once reprojected
+  const outline: Position[] = [];
+  for (let i = 0; i <= WARP_GRID_STEP; i++) {
+    const s = i / WARP_GRID_STEP;
+    [[s * width, 0], [s * width, height], [0, s * height], [width, s * height]].forEach(([col, row]) => {
+      outline.push(toWgs84.forward(mapping.toMap(col, row)));
+    });
+  }
+  const west = Math.min(...outline.map(p => p[0]));
+  const east = Math.max(...outline.map(p => p[0]));
+  const south = Math.min(...outline.map(p => p[1]));
+  const north = Math.max(...outline.map(p => p[1]));
+  const top = mercatorY(north);
+  const bottom = mercatorY(south);
+
+  // Keep roughly the source's pixel count, in the box's proportions
+  const aspect = ((east - west) * Math.PI / 180) / (top - bottom);
+  const outScale = Math.min(1, MAX_RASTER_SIDE / Math.max(Math.sqrt(width * height * aspect), Math.sqrt(width * height / aspect)));
+  const outWidth = Math.max(1, Math.round(Math.sqrt(width * height * aspect) * outScale));
+  const outHeight = Math.max(1, Math.round(Math.sqrt(width * height / aspect) * outScale));
+
+  // Source pixel position of each grid point
+  const gridCols = Math.ceil(outWidth / WARP_GRID_STEP) + 1;
+  const gridRows = Math.ceil(outHeight / WARP_GRID_STEP) + 1;
+  const grid = new Float64Array(gridCols * gridRows * 2);
+  for (let gy = 0; gy < gridRows; gy++) {
+    const lat = (2 * Math.atan(Math.exp(top - (gy * WARP_GRID_STEP / outHeight) * (top - bottom))) - Math.PI / 2) * 180 / Math.PI;
+    for (let gx = 0; gx < gridCols; gx++) {
+      const lng = west + (gx * WARP_GRID_STEP / outWidth) * (east - west);
+      const [x, y] = fromWgs84.forward([lng, lat]);
+      const [srcCol, srcRow] = mapping.toPixel(x, y);
+      const k = (gy * gridCols + gx) * 2;
+      grid[k] = srcCol;
+      grid[k + 1] = srcRow;
+    }
+  }
+
+  const pixels = new Uint8ClampedArray(outWidth * outHeight * 4);
+  for (let row = 0; row < outHeight; row++) {
+    const gy = Math.floor(row / WARP_GRID_STEP);
+    const fy = (row % WARP_GRID_STEP) / WARP_GRID_STEP;
+    for (let col = 0; col < outWidth; col++) {
+      const gx = Math.floor(col / WARP_GRID_STEP);
+      const fx = (col % WARP_GRID_STEP) / WARP_GRID_STEP;
+      const k00 = (gy * gridCols + gx) * 2;
+      const k10 = k00 + 2;
+      const k01 = k00 + gridCols * 2;
+      const k11 = k01 + 2;
+      const lerp = (o: number) =>
+        (grid[k00 + o] * (1 - fx) + grid[k10 + o] * fx) * (1 - fy) + (grid[k01 + o] * (1 - fx) + grid[k11 + o] * fx) * fy;
+      const srcCol = Math.floor(lerp(0));
+      const srcRow = Math.floor(lerp(1));
+      if (srcCol < 0 || srcRow < 0 || srcCol >= width || srcRow >= height) continue;
+      const from = (srcRow * width + srcCol) * 4;
+      const to = (row * outWidth + col) * 4;
+      pixels[to] = source.pixels[from];
+      pixels[to + 1] = source.pixels[from + 1];
+      pixels[to + 2] = source.pixels[from + 2];
+      pixels[to + 3] = source.pixels[from + 3];
+    }
+    onProgress?.(row + 1, outHeight);
+  }
+
+  return { name: source.name, width: outWidth, height: outHeight, pixels, bounds: [[south, west], [north, east]] };
+}
+
+/**
+ * Draws decoded pixels into a PNG object URL for the map or the georeferencing view. Revoke it when done.
+ */
+export function rasterImageUrl(raster: Pick<ScanImage, 'width' | 'height' | 'pixels'>): Promise<string> {
+  const canvas = document.createElement('canvas');
+  canvas.width = raster.width;
+  canvas.height = raster.height;
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.reject(new Error('Could not draw the scan'));
+  context.putImageData(new ImageData(new Uint8ClampedArray(raster.pixels), raster.width, raster.height), 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(URL.createObjectURL(blob)) : reject(new Error('Could not draw the scan'))), 'image/png');
+  });
+}
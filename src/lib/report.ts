@@ -0,0 +1,302 @@
+import type { jsPDF } from 'jspdf';
+import type { Feature } from 'geojson';
+import {
+  CRS, Dimension, KhasraStats, MEASUREMENT_MODES, METERS_PER_FOOT,
+  calculateKanalMarla, describeRing, getPolygonParts, projectToCRS,
+} from './geo-utils';
+import { DEFAULT_UNIT_SYSTEM, UnitSystem, breakdownArea, formatSecondaryArea } from './units';
+import { VertexNaming, VertexTable, calculateVertices } from './vertices';
+
+export interface ReportEntry {
+  title: string;
+  feature: Feature;
+  stats: KhasraStats;
+  dimensions: Dimension[];
+}
+
+export interface ReportOptions {
+  labelField: string;
+  crs: CRS;
+  units?: UnitSystem;
+  vertexNaming?: VertexNaming;
+  fileName?: string;
+}
+
+// A4 portrait layout (millimetres)
+const PAGE_WIDTH = 210;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const MAP_TOP = 48;
+const MAP_HEIGHT = 105;
+const ROW_HEIGHT = 6;
+
+/**
+ * Builds the printable khasra report (one page per khasra) and triggers the download.
+ */
+export async function exportKhasraReport(entries: ReportEntry[], options: ReportOptions): Promise<void> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const units = options.units ?? DEFAULT_UNIT_SYSTEM;
+
+  entries.forEach((entry, index) => {
+    if (index > 0) doc.addPage();
+    const crs = entry.stats.crs?.id ?? options.crs;
+    const corners = calculateVertices(entry.feature, crs, options.vertexNaming ?? 'letters');
+    drawHeader(doc, entry, options);
+    drawMapExtent(doc, entry, crs, corners);
+    const tableEnd = drawSideTable(doc, entry, units);
+    const cornersEnd = drawCornerTable(doc, entry, corners, tableEnd);
+    drawTotals(doc, entry, cornersEnd, units);
+  });
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, 287, { align: 'right' });
+    doc.text('Khasra Dimension Tool', MARGIN, 287);
+  }
+
+  doc.save(options.fileName || 'khasra-report.pdf');
+}
+
+function drawHeader(doc: jsPDF, entry: ReportEntry, options: ReportOptions) {
+  doc.setFillColor(220, 38, 38);
+  doc.rect(MARGIN, MARGIN, CONTENT_WIDTH, 1.5, 'F');
+
+  doc.setTextColor(20);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(entry.title, MARGIN, MARGIN + 10);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(90);
+  doc.text(`${options.labelField || 'Khasra'}: ${entry.title}`, MARGIN, MARGIN + 17);
+  const crs = entry.stats.crs;
+  const mode = entry.stats.mode ?? 'projected';
+  const projection = crs ? `${crs.name}${crs.auto ? ' (auto-detected zone)' : ''}` : options.crs;
+  const measuredIn = mode === 'projected'
+    ? `Projection: ${projection}`
+    : `Measurement: ${MEASUREMENT_MODES.find(m => m.id === mode)?.name}`;
+  doc.text(measuredIn, MARGIN, MARGIN + 22);
+  doc.text(`Date: ${new Date().toLocaleDateString()}`, PAGE_WIDTH - MARGIN, MARGIN + 17, { align: 'right' });
+  doc.text(`Area: ${entry.stats.label}`, PAGE_WIDTH - MARGIN, MARGIN + 22, { align: 'right' });
+}
+
+/**
+ * Draws the parcel outline scaled to fit the map box, with the side dimensions at each edge midpoint.
+ */
+function drawMapExtent(doc: jsPDF, entry: ReportEntry, crs: CRS | string, corners: VertexTable) {
+  doc.setDrawColor(180);
+  doc.setLineWidth(0.2);
+  doc.rect(MARGIN, MAP_TOP, CONTENT_WIDTH, MAP_HEIGHT);
+
+  const rings = getPolygonParts(entry.feature).flat();
+  const projectedRings = rings.map(ring => ring.map(c => projectToCRS(c, crs)));
+  const projected = projectedRings.flat();
+
+  const xs = projected.map(p => p[0]);
+  const ys = projected.map(p => p[1]);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+
+  // Leave room around the outline for the dimension labels
+  const padding = 14;
+  const scale = Math.min(
+    (CONTENT_WIDTH - padding * 2) / (maxX - minX || 1),
+    (MAP_HEIGHT - padding * 2) / (maxY - minY || 1)
+  );
+  const offsetX = MARGIN + (CONTENT_WIDTH - (maxX - minX) * scale) / 2;
+  const offsetY = MAP_TOP + (MAP_HEIGHT - (maxY - minY) * scale) / 2;
+  const toPage = ([x, y]: [number, number]): [number, number] => [
+    offsetX + (x - minX) * scale,
+    offsetY + (maxY - y) * scale, // Page Y grows downwards
+  ];
+
+  doc.setDrawColor(220, 38, 38);
+  doc.setLineWidth(0.6);
+  projectedRings.forEach(ring => {
+    const pagePoints = ring.map(toPage);
+    for (let i = 0; i < pagePoints.length - 1; i++) {
+      doc.line(pagePoints[i][0], pagePoints[i][1], pagePoints[i + 1][0], pagePoints[i + 1][1]);
+    }
+  });
+
+  doc.setFontSize(7);
+  doc.setTextColor(30);
+  entry.dimensions.forEach((dim, i) => {
+    const [x, y] = toPage(projectToCRS(dim.point, crs));
+    doc.text(`${i + 1}: ${dim.label}`, x, y, { align: 'center', baseline: 'middle' });
+  });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(220, 38, 38);
+  corners.vertices.forEach(v => {
+    const [x, y] = toPage([v.easting, v.northing]);
+    doc.circle(x, y, 0.6, 'F');
+    doc.text(v.name, x + 1.2, y - 1.2);
+  });
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(30);
+
+  // North arrow
+  const arrowX = PAGE_WIDTH - MARGIN - 8;
+  const arrowY = MAP_TOP + 6;
+  doc.setDrawColor(60);
+  doc.setLineWidth(0.4);
+  doc.line(arrowX, arrowY + 8, arrowX, arrowY);
+  doc.line(arrowX, arrowY, arrowX - 1.5, arrowY + 2.5);
+  doc.line(arrowX, arrowY, arrowX + 1.5, arrowY + 2.5);
+  doc.setFontSize(8);
+  doc.text('N', arrowX, arrowY - 1.5, { align: 'center' });
+}
+
+/**
+ * Draws the shaded column heading row of a table at `y` and returns the Y position of its first row.
+ * Leaves the font set for the rows.
+ */
+function drawTableHeader(doc: jsPDF, headings: string[], columns: number[], y: number): number {
+  doc.setFillColor(241, 245, 249);
+  doc.rect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8);
+  doc.setTextColor(20);
+  headings.forEach((heading, i) => {
+    doc.text(heading, columns[i], y + 4);
+  });
+  doc.setFont('helvetica', 'normal');
+  return y + ROW_HEIGHT;
+}
+
+/**
+ * Lists every side in the local length unit (e.g. karam-feet) and meters. Returns the Y position below the table.
+ */
+function drawSideTable(doc: jsPDF, entry: ReportEntry, units: UnitSystem): number {
+  let y = MAP_TOP + MAP_HEIGHT + 10;
+  const columns = [MARGIN + 2, MARGIN + 16, MARGIN + 60, MARGIN + 105, MARGIN + 140];
+  const partCount = entry.stats.parts?.length ?? 1;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(20);
+  doc.text('Side Dimensions', MARGIN, y);
+  y += 4;
+
+  const localHeading = units.length.feet === 1 ? 'Length' : `${units.length.name} - Feet`;
+  const headings = ['Side', 'Ring', localHeading, 'Meters', 'Feet'];
+  y = drawTableHeader(doc, headings, columns, y);
+
+  entry.dimensions.forEach((dim, i) => {
+    // Continue long tables on a fresh page, under their column headings again
+    if (y > 270) {
+      doc.addPage();
+      y = drawTableHeader(doc, headings, columns, MARGIN);
+    }
+    doc.text(`${i + 1}`, columns[0], y + 4);
+    doc.text(describeRing(dim.part, dim.ring, partCount), columns[1], y + 4);
+    doc.text(dim.label, columns[2], y + 4);
+    doc.text(dim.lengthMeters.toFixed(2), columns[3], y + 4);
+    doc.text((dim.lengthMeters / METERS_PER_FOOT).toFixed(2), columns[4], y + 4);
+    doc.setDrawColor(226, 232, 240);
+    doc.line(MARGIN, y + ROW_HEIGHT, MARGIN + CONTENT_WIDTH, y + ROW_HEIGHT);
+    y += ROW_HEIGHT;
+  });
+
+  return y;
+}
+
+/**
+ * Lists every corner with its WGS84 and projected coordinates and interior angle. Returns the Y position below it.
+ */
+function drawCornerTable(doc: jsPDF, entry: ReportEntry, corners: VertexTable, top: number): number {
+  let y = top + 8;
+  if (y > 255) {
+    doc.addPage();
+    y = MARGIN;
+  }
+  const columns = [MARGIN + 2, MARGIN + 16, MARGIN + 44, MARGIN + 72, MARGIN + 102, MARGIN + 134, MARGIN + 164];
+  const partCount = entry.stats.parts?.length ?? 1;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(20);
+  doc.text(`Corner Coordinates (${corners.crsName})`, MARGIN, y);
+  y += 4;
+
+  const headings = ['Corner', 'Ring', 'Latitude', 'Longitude', 'Easting', 'Northing', 'Angle'];
+  y = drawTableHeader(doc, headings, columns, y);
+
+  corners.vertices.forEach(v => {
+    if (y > 270) {
+      doc.addPage();
+      y = drawTableHeader(doc, headings, columns, MARGIN);
+    }
+    doc.text(v.name, columns[0], y + 4);
+    doc.text(describeRing(v.part, v.ring, partCount), columns[1], y + 4);
+    doc.text(v.position[1].toFixed(7), columns[2], y + 4);
+    doc.text(v.position[0].toFixed(7), columns[3], y + 4);
+    doc.text(v.easting.toFixed(3), columns[4], y + 4);
+    doc.text(v.northing.toFixed(3), columns[5], y + 4);
+    doc.text(`${v.interiorAngle.toFixed(2)} deg`, columns[6], y + 4);
+    doc.setDrawColor(226, 232, 240);
+    doc.line(MARGIN, y + ROW_HEIGHT, MARGIN + CONTENT_WIDTH, y + ROW_HEIGHT);
+    y += ROW_HEIGHT;
+  });
+
+  return y;
+}
+
+function drawTotals(doc: jsPDF, entry: ReportEntry, top: number, units: UnitSystem) {
+  let y = top + 8;
+  if (y > 255) {
+    doc.addPage();
+    y = MARGIN;
+  }
+  const { stats } = entry;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.setTextColor(20);
+  doc.text('Area Totals', MARGIN, y);
+  y += 6;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const components = breakdownArea(stats.areaSqFt, units);
+  const rows: [string, string][] = [
+    [units.areaUnits.map(u => u.name).join(' - '), stats.label],
+    ...components.map((c, i): [string, string] => [
+      c.unit.name,
+      i === components.length - 1 ? c.value.toFixed(2) : `${c.value}`,
+    ]),
+  ];
+  if (stats.totalMarlas !== undefined) {
+    rows.push(['Total Marlas', stats.totalMarlas.toFixed(2)]);
+  }
+  if (units.secondaryArea.sqFt !== 1) {
+    rows.push([units.secondaryArea.name, formatSecondaryArea(stats.areaSqFt, units)]);
+  }
+  rows.push(['Square Feet', Math.round(stats.areaSqFt).toLocaleString()]);
+  // Part and hole breakdown for multi-part khasras and khasras with excluded pieces
+  const parts = stats.parts ?? [];
+  if (parts.length > 1 || parts.some(p => p.holesSqMeters.length > 0)) {
+    parts.forEach(p => {
+      rows.push([describeRing(p.part, 0, parts.length), calculateKanalMarla(p.outerSqMeters, units).label]);
+      p.holesSqMeters.forEach((hole, h) => {
+        rows.push([describeRing(p.part, h + 1, parts.length), `- ${calculateKanalMarla(hole, units).label}`]);
+      });
+    });
+  }
+
+  rows.forEach(([name, value]) => {
+    if (y > 280) {
+      doc.addPage();
+      y = MARGIN;
+    }
+    doc.text(name, MARGIN + 2, y);
+    doc.text(value, MARGIN + 60, y);
+    y += 5;
+  });
+}
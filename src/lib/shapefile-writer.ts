@@ -0,0 +1,250 @@
+import { strToU8, zipSync } from 'fflate';
+import type { Feature, FeatureCollection, GeoJsonProperties, Position } from 'geojson';
+
+const WGS84_PRJ = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const SHAPE_POINT = 1;
+const SHAPE_POLYGON = 5;
+const HEADER_BYTES = 100;
+
+export interface ShapefileLayer {
+  name: string;
+  collection: FeatureCollection; // WGS84; Point layers or Polygon/MultiPolygon layers
+}
+
+interface DbfField {
+  key: string;
+  name: string;
+  type: 'C' | 'N';
+  length: number;
+  decimals: number;
+}
+
+type Box = [number, number, number, number];
+
+const encoder = new TextEncoder();
+
+/**
+ * Signed shoelace area in degrees; negative means clockwise.
+ */
+function signedArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+}
+
+/**
+ * Shapefile rings: outer boundaries clockwise, holes counter-clockwise.
+ */
+function shapefileRings(feature: Feature): Position[][] {
+  const geometry = feature.geometry;
+  const polygons = geometry?.type === 'Polygon' ? [geometry.coordinates]
+    : geometry?.type === 'MultiPolygon' ? geometry.coordinates
+      : [];
+  return polygons.flatMap(rings => rings.map((ring, i) => {
+    const clockwise = signedArea(ring) < 0;
+    return clockwise === (i === 0) ? ring : [...ring].reverse();
+  }));
+}
+
+function boundsOf(points: Position[]): Box {
+  const box: Box = [Infinity, Infinity, -Infinity, -Infinity];
+  points.forEach(([x, y]) => {
+    box[0] = Math.min(box[0], x);
+    box[1] = Math.min(box[1], y);
+    box[2] = Math.max(box[2], x);
+    box[3] = Math.max(box[3], y);
+  });
+  return box;
+}
+
+function mergeBounds(a: Box, b: Box): Box {
+  return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+}
+
+/**
+ * Record content (without the 8 byte record header) for a point or polygon feature.
+ */
+function recordContent(feature: Feature, shapeType: number): { bytes: Uint8Array; box: Box } {
+  if (shapeType === SHAPE_POINT) {
+    const [x, y] = feature.geometry?.type === 'Point' ? feature.geometry.coordinates : [0, 0];
+    const view = new DataView(new ArrayBuffer(20));
+    view.setInt32(0, SHAPE_POINT, true);
+    view.setFloat64(4, x, true);
+    view.setFloat64(12, y, true);
+    return { bytes: new Uint8Array(view.buffer), box: [x, y, x, y] };
+  }
+
+  const rings = shapefileRings(feature);
+  const points = rings.flat();
+  const box = boundsOf(points);
+  const view = new DataView(new ArrayBuffer(44 + rings.length * 4 + points.length * 16));
+  view.setInt32(0, SHAPE_POLYGON, true);
+  box.forEach((value, i) => view.setFloat64(4 + i * 8, value, true));
+  view.setInt32(36, rings.length, true);
+  view.setInt32(40, points.length, true);
+
+  let offset = 44;
+  let start = 0;
+  rings.forEach(ring => {
+    view.setInt32(offset, start, true);
+    offset += 4;
+    start += ring.length;
+  });
+  points.forEach(([x, y]) => {
+    view.setFloat64(offset, x, true);
+    view.setFloat64(offset + 8, y, true);
+    offset += 16;
+  });
+  return { bytes: new Uint8Array(view.buffer), box };
+}
+
+function writeMainHeader(view: DataView, fileBytes: number, shapeType: number, box: Box) {
+  view.setInt32(0, 9994, false);
+  view.setInt32(24, fileBytes / 2, false); // Length in 16-bit words
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, shapeType, true);
+  box.forEach((value, i) => view.setFloat64(36 + i * 8, value, true));
+}
+
+/**
+ * Truncates a UTF-8 string to a byte budget without splitting a character.
+ */
+function fitBytes(text: string, maxBytes: number): Uint8Array {
+  let bytes = encoder.encode(text);
+  if (bytes.length <= maxBytes) return bytes;
+  let chars = [...text];
+  while (bytes.length > maxBytes) {
+    chars = chars.slice(0, -1);
+    bytes = encoder.encode(chars.join(''));
+  }
+  return bytes;
+}
+
+/**
+ * Numeric attributes become N fields, everything else C (UTF-8, declared in the .cpg).
+ * DBF field names are limited to 10 characters, so long names are truncated and de-duplicated.
+ */
+function inferFields(properties: GeoJsonProperties[]): DbfField[] {
+  const keys: string[] = [];
+  properties.forEach(p => Object.keys(p ?? {}).forEach(key => {
+    if (!keys.includes(key)) keys.push(key);
+  }));
+
+  const used = new Set<string>();
+  return keys.map(key => {
+    const values = properties.map(p => p?.[key]).filter(v => v !== null && v !== undefined);
+    const numeric = values.length > 0 && values.every(v => typeof v === 'number' && Number.isFinite(v));
+
+    let name = key.replace(/[^A-Za-z0-9_]/g, '_').slice(0, 10) || 'FIELD';
+    for (let n = 1; used.has(name.toUpperCase()); n++) {
+      name = `${name.slice(0, 10 - String(n).length)}${n}`;
+    }
+    used.add(name.toUpperCase());
+
+    if (numeric) {
+      const decimals = values.every(v => Number.isInteger(v)) ? 0 : 6;
+      return { key, name, type: 'N' as const, length: 19, decimals };
+    }
+    const length = Math.min(254, Math.max(1, ...values.map(v => encoder.encode(String(v)).length)));
+    return { key, name, type: 'C' as const, length, decimals: 0 };
+  });
+}
+
+function writeDbf(properties: GeoJsonProperties[]): Uint8Array {
+  const fields = inferFields(properties);
+  const headerLength = 32 + fields.length * 32 + 1;
+  const recordLength = 1 + fields.reduce((sum, f) => sum + f.length, 0);
+  const bytes = new Uint8Array(headerLength + properties.length * recordLength + 1);
+  const view = new DataView(bytes.buffer);
+
+  const today = new Date();
+  bytes[0] = 0x03;
+  bytes[1] = today.getFullYear() - 1900;
+  bytes[2] = today.getMonth() + 1;
+  bytes[3] = today.getDate();
+  view.setUint32(4, properties.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  fields.forEach((field, i) => {
+    const offset = 32 + i * 32;
+    bytes.set(strToU8(field.name), offset);
+    bytes[offset + 11] = field.type.charCodeAt(0);
+    bytes[offset + 16] = field.length;
+    bytes[offset + 17] = field.decimals;
+  });
+  bytes[headerLength - 1] = 0x0d;
+
+  properties.forEach((p, row) => {
+    let offset = headerLength + row * recordLength;
+    bytes[offset++] = 0x20; // Not deleted
+    fields.forEach(field => {
+      const value = p?.[field.key];
+      bytes.fill(0x20, offset, offset + field.length);
+      if (value !== null && value !== undefined) {
+        if (field.type === 'N') {
+          const text = (value as number).toFixed(field.decimals).slice(0, field.length);
+          bytes.set(strToU8(text), offset + field.length - text.length); // Right aligned
+        } else {
+          bytes.set(fitBytes(String(value), field.length), offset);
+        }
+      }
+      offset += field.length;
+    });
+  });
+  bytes[bytes.length - 1] = 0x1a;
+  return bytes;
+}
+
+/**
+ * Writes one layer as .shp, .shx, .dbf, .prj and .cpg files.
+ */
+function writeLayer(layer: ShapefileLayer): Record<string, Uint8Array> {
+  const shapeType = layer.collection.features.some(f => f.geometry?.type === 'Point') ? SHAPE_POINT : SHAPE_POLYGON;
+  const features = layer.collection.features.filter(f => shapeType === SHAPE_POINT
+    ? f.geometry?.type === 'Point'
+    : f.geometry?.type === 'Polygon' || f.geometry?.type === 'MultiPolygon');
+
+  const records = features.map(f => recordContent(f, shapeType));
+  const box = records.reduce<Box>((acc, r) => mergeBounds(acc, r.box), [Infinity, Infinity, -Infinity, -Infinity]);
+  const fileBox: Box = records.length > 0 ? box : [0, 0, 0, 0];
+
+  const shpBytes = HEADER_BYTES + records.reduce((sum, r) => sum + 8 + r.bytes.length, 0);
+  const shp = new Uint8Array(shpBytes);
+  const shpView = new DataView(shp.buffer);
+  const shxBytes = HEADER_BYTES + records.length * 8;
+  const shx = new Uint8Array(shxBytes);
+  const shxView = new DataView(shx.buffer);
+  writeMainHeader(shpView, shpBytes, shapeType, fileBox);
+  writeMainHeader(shxView, shxBytes, shapeType, fileBox);
+
+  let offset = HEADER_BYTES;
+  records.forEach((record, i) => {
+    shxView.setInt32(HEADER_BYTES + i * 8, offset / 2, false);
+    shxView.setInt32(HEADER_BYTES + i * 8 + 4, record.bytes.length / 2, false);
+    shpView.setInt32(offset, i + 1, false);
+    shpView.setInt32(offset + 4, record.bytes.length / 2, false);
+    shp.set(record.bytes, offset + 8);
+    offset += 8 + record.bytes.length;
+  });
+
+  return {
+    [`${layer.name}.shp`]: shp,
+    [`${layer.name}.shx`]: shx,
+    [`${layer.name}.dbf`]: writeDbf(features.map(f => f.properties)),
+    [`${layer.name}.prj`]: strToU8(WGS84_PRJ),
+    [`${layer.name}.cpg`]: strToU8('UTF-8'),
+  };
+}
+
+/**
+ * Packs WGS84 layers into a zipped shapefile that FileUploader (and QGIS) can read back.
+ */
+export function writeShapefileZip(layers: ShapefileLayer[]): Uint8Array {
+  const files = layers.reduce<Record<string, Uint8Array>>((acc, layer) => ({ ...acc, ...writeLayer(layer) }), {});
+  return zipSync(files);
+}
@@ -0,0 +1,88 @@
+import type { Feature, GeoJsonProperties } from 'geojson';
+import { CRS, MeasureOptions, calculateDimensions, calculateKhasraStats } from './geo-utils';
+
+export interface ParcelMetrics {
+  areaSqFt: number;
+  perimeterMeters: number; // Outer boundaries only, as in compareMeasurementModes
+}
+
+// Keyed by feature object; an entry is reused only while the CRS and measurement mode are unchanged
+const metricsCache = new WeakMap<object, { key: string; metrics: ParcelMetrics }>();
+
+/**
+ * Area and perimeter of a khasra, cached so that whole-file totals, filters and sorts measure each parcel once.
+ */
+export function measureParcel(feature: Feature, crs: CRS, options: MeasureOptions = {}): ParcelMetrics {
+  const key = `${crs}|${options.mode ?? 'projected'}|${options.elevation ?? 0}`;
+  const cached = metricsCache.get(feature);
+  if (cached && cached.key === key) return cached.metrics;
+
+  const measureOptions = { mode: options.mode, elevation: options.elevation };
+  const metrics = {
+    areaSqFt: calculateKhasraStats(feature, crs, measureOptions).areaSqFt,
+    perimeterMeters: calculateDimensions(feature, crs, measureOptions)
+      .filter(d => d.ring === 0)
+      .reduce((sum, d) => sum + d.lengthMeters, 0),
+  };
+  metricsCache.set(feature, { key, metrics });
+  return metrics;
+}
+
+export interface ParcelArea {
+  id: string;
+  title: string;
+  areaSqFt: number;
+  properties: GeoJsonProperties;
+}
+
+export interface AreaGroup {
+  key: string;
+  count: number;
+  areaSqFt: number;
+}
+
+export interface AreaSummary {
+  count: number;
+  areaSqFt: number;
+  largest?: ParcelArea;
+  smallest?: ParcelArea;
+  groups: AreaGroup[];
+}
+
+export const BLANK_GROUP = '(blank)';
+
+const naturalOrder = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Totals a set of parcels, optionally grouped by an attribute (owner, killa number, land class...).
+ * Groups are sorted in natural order so "Killa 2" comes before "Killa 10"; blank values go last.
+ */
+export function summarizeAreas(parcels: ParcelArea[], groupField?: string): AreaSummary {
+  let areaSqFt = 0;
+  let largest: ParcelArea | undefined;
+  let smallest: ParcelArea | undefined;
+  const groups = new Map<string, AreaGroup>();
+
+  parcels.forEach(parcel => {
+    areaSqFt += parcel.areaSqFt;
+    if (!largest || parcel.areaSqFt > largest.areaSqFt) largest = parcel;
+    if (!smallest || parcel.areaSqFt < smallest.areaSqFt) smallest = parcel;
+
+    if (groupField) {
+      const value = parcel.properties?.[groupField];
+      const key = value === null || value === undefined || String(value).trim() === '' ? BLANK_GROUP : String(value).trim();
+      const group = groups.get(key) ?? { key, count: 0, areaSqFt: 0 };
+      group.count += 1;
+      group.areaSqFt += parcel.areaSqFt;
+      groups.set(key, group);
+    }
+  });
+
+  const sorted = [...groups.values()].sort((a, b) => {
+    if (a.key === BLANK_GROUP) return 1;
+    if (b.key === BLANK_GROUP) return -1;
+    return naturalOrder.compare(a.key, b.key);
+  });
+
+  return { count: parcels.length, areaSqFt, largest, smallest, groups: sorted };
+}
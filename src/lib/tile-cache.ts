@@ -0,0 +1,115 @@
+import { openIndexedDb } from './idb';
+
+/**
+ * Base-map tiles kept in IndexedDB as they are viewed, so villages mapped once can be opened again with
+ * no connection. Tiles are served from the cache first; stale ones are refreshed when the network allows.
+ */
+export interface TileCacheStats {
+  count: number;
+  bytes: number;
+}
+
+interface CachedTile {
+  url: string;
+  blob: Blob;
+  savedAt: number;
+}
+
+const DB_NAME = 'khasra-tile-cache';
+const DB_VERSION = 2;
+const TILES = 'tiles';
+const BY_AGE = 'savedAt';
+
+// Cached tiles older than this are fetched again when online
+const MAX_TILE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// Oldest tiles are removed beyond this many (roughly 100-200 MB of imagery)
+const MAX_TILES = 5000;
+// The tile count is checked after this many saves rather than after every one
+const EVICT_CHECK_EVERY = 50;
+
+let savesSinceCheck = 0;
+
+const transact = openIndexedDb(DB_NAME, DB_VERSION, (db, tx, oldVersion) => {
+  const store = oldVersion < 1 ? db.createObjectStore(TILES, { keyPath: 'url' }) : tx.objectStore(TILES);
+  if (oldVersion < 2) store.createIndex(BY_AGE, 'savedAt');
+});
+
+const run = <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<T> | void) =>
+  transact<T>(TILES, mode, tx => work(tx.objectStore(TILES)));
+
+/**
+ * Returns a tile image, from the cache when it holds a fresh copy, otherwise from the network (caching it).
+ * When the network fails, a stale cached copy is still used.
+ */
+export async function fetchTile(url: string): Promise<Blob> {
+  const cached = await run<CachedTile>('readonly', store => store.get(url)).catch(() => undefined);
+  if (cached && Date.now() - cached.savedAt < MAX_TILE_AGE_MS) return cached.blob;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Tile request failed (${response.status})`);
+    const blob = await response.blob();
+    const tile: CachedTile = { url, blob, savedAt: Date.now() };
+    saveTile(tile);
+    return blob;
+  } catch (error) {
+    if (cached) return cached.blob;
+    throw error;
+  }
+}
+
+/**
+ * Deletes the oldest tiles until at most `keep` remain.
+ */
+function evictOldest(keep: number): Promise<void> {
+  return run('readwrite', store => {
+    const count = store.count();
+    count.onsuccess = () => {
+      let excess = count.result - keep;
+      if (excess <= 0) return;
+      const cursor = store.index(BY_AGE).openCursor();
+      cursor.onsuccess = () => {
+        if (!cursor.result || excess-- <= 0) return;
+        cursor.result.delete();
+        cursor.result.continue();
+      };
+    };
+  }).then(() => undefined);
+}
+
+/**
+ * Caches a fetched tile, keeping the cache under MAX_TILES. When storage is full, a tenth of the cache is
+ * freed and the save is tried once more.
+ */
+function saveTile(tile: CachedTile) {
+  const put = () => run('readwrite', store => { store.put(tile); });
+  put()
+    .catch(error => {
+      if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) throw error;
+      return run<number>('readonly', store => store.count()).then(count => evictOldest(Math.floor((count ?? 0) * 0.9))).then(put);
+    })
+    .then(() => {
+      if (++savesSinceCheck < EVICT_CHECK_EVERY) return;
+      savesSinceCheck = 0;
+      return evictOldest(MAX_TILES);
+    })
+    .catch(error => console.warn('Could not cache tile:', error));
+}
+
+export async function tileCacheStats(): Promise<TileCacheStats> {
+  const stats: TileCacheStats = { count: 0, bytes: 0 };
+  await run('readonly', store => {
+    const cursor = store.openCursor();
+    cursor.onsuccess = () => {
+      if (!cursor.result) return;
+      stats.count++;
+      stats.bytes += (cursor.result.value as CachedTile).blob.size;
+      cursor.result.continue();
+    };
+  });
+  return stats;
+}
+
+export function clearTileCache(): Promise<void> {
+  return run('readwrite', store => { store.clear(); }).then(() => undefined);
+}
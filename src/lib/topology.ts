@@ -0,0 +1,240 @@
+import * as turf from '@turf/turf';
+import type { Feature, MultiPolygon, Polygon, Position } from 'geojson';
+import { getPolygonParts } from './geo-utils';
+
+export type IssueKind = 'invalid' | 'unclosed-ring' | 'duplicate-vertex' | 'self-intersection' | 'sliver' | 'overlap' | 'gap';
+
+export const ISSUE_KINDS: { id: IssueKind; name: string }[] = [
+  { id: 'invalid', name: 'Invalid geometry' },
+  { id: 'unclosed-ring', name: 'Unclosed ring' },
+  { id: 'duplicate-vertex', name: 'Duplicate vertices' },
+  { id: 'self-intersection', name: 'Self-intersection' },
+  { id: 'sliver', name: 'Sliver' },
+  { id: 'overlap', name: 'Overlap' },
+  { id: 'gap', name: 'Gap' },
+];
+
+/**
+ * Vertex moved by a gap fix: every occurrence of `from` in the khasra becomes `to`.
+ */
+export interface VertexSnap {
+  from: Position;
+  to: Position;
+}
+
+export interface TopologyIssue {
+  id: string;
+  kind: IssueKind;
+  polyIds: string[]; // The khasra at fault first, then the neighbour it conflicts with
+  detail: string;
+  location: Feature; // What the map zooms to
+  areaSqMeters?: number; // Overlaps and slivers
+  fixable: boolean;
+  snaps?: VertexSnap[]; // Gap fixes
+}
+
+export interface ValidationPolygon {
+  id: string;
+  feature: Feature;
+}
+
+// Consecutive vertices closer than this are duplicates
+export const DUPLICATE_TOLERANCE_METERS = 0.01;
+// Vertices this close to a neighbour's boundary, but not on it, leave a gap (or a hairline overlap) to snap
+export const GAP_TOLERANCE_METERS = 0.3;
+// Overlaps smaller than this are left to the gap check
+export const OVERLAP_MIN_SQ_METERS = 0.1;
+// Parts both this small and this thin (4π·area / perimeter², 1 for a circle) are slivers
+export const SLIVER_MAX_SQ_METERS = 25;
+export const SLIVER_MAX_THINNESS = 0.1;
+
+type AreaFeature = Feature<Polygon | MultiPolygon>;
+
+const isArea = (feature: Feature): feature is AreaFeature =>
+  feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon';
+
+const samePosition = (a: Position, b: Position) => a[0] === b[0] && a[1] === b[1];
+
+const plural = (count: number, one: string, many: string) => `${count} ${count === 1 ? one : many}`;
+
+const meters = (a: Position, b: Position) => turf.distance(a, b, { units: 'meters' });
+
+function withParts(feature: AreaFeature, parts: Position[][][]): AreaFeature {
+  return {
+    ...feature,
+    geometry: feature.geometry.type === 'MultiPolygon'
+      ? { type: 'MultiPolygon', coordinates: parts }
+      : { type: 'Polygon', coordinates: parts[0] },
+  };
+}
+
+const isClosed = (ring: Position[]) => ring.length > 0 && samePosition(ring[0], ring[ring.length - 1]);
+
+function dedupeRing(ring: Position[]): Position[] {
+  const kept = ring.filter((p, i) => i === 0 || meters(p, ring[i - 1]) >= DUPLICATE_TOLERANCE_METERS);
+  // The closing vertex may have been dropped as a duplicate of the one before it
+  if (ring.length > 1 && isClosed(ring) && !isClosed(kept)) kept[kept.length - 1] = ring[0];
+  return kept;
+}
+
+/**
+ * Closes every open ring by repeating its first vertex.
+ */
+export function closeRings(feature: Feature): Feature {
+  if (!isArea(feature)) return feature;
+  return withParts(feature, getPolygonParts(feature).map(rings => rings.map(ring => (isClosed(ring) ? ring : [...ring, ring[0]]))));
+}
+
+/**
+ * Drops vertices that repeat the one before them.
+ */
+export function removeDuplicateVertices(feature: Feature): Feature {
+  if (!isArea(feature)) return feature;
+  return withParts(feature, getPolygonParts(feature).map(rings => rings.map(dedupeRing)));
+}
+
+/**
+ * Moves vertices onto a neighbour's boundary.
+ */
+export function snapVertices(feature: Feature, snaps: VertexSnap[]): Feature {
+  if (!isArea(feature)) return feature;
+  return withParts(feature, getPolygonParts(feature).map(rings => rings.map(ring => ring.map(p => {
+    const snap = snaps.find(s => samePosition(s.from, p));
+    return snap ? snap.to : p;
+  }))));
+}
+
+/**
+ * Applies the one-click fix of an issue to the khasra at fault (its first poly id).
+ */
+export function fixIssue(feature: Feature, issue: TopologyIssue): Feature {
+  switch (issue.kind) {
+    case 'unclosed-ring': return closeRings(feature);
+    case 'duplicate-vertex': return removeDuplicateVertices(feature);
+    case 'gap': return snapVertices(feature, issue.snaps ?? []);
+    default: return feature;
+  }
+}
+
+function checkFeature(poly: ValidationPolygon, issues: TopologyIssue[]): AreaFeature | null {
+  const { id, feature } = poly;
+  const issue = (kind: IssueKind, detail: string, location: Feature, extra: Partial<TopologyIssue> = {}, key: string = kind) => {
+    issues.push({ id: `${key}-${id}`, kind, polyIds: [id], detail, location, fixable: false, ...extra });
+  };
+
+  if (!isArea(feature)) {
+    issue('invalid', `${feature.geometry?.type ?? 'Missing'} geometry, not a polygon`, feature);
+    return null;
+  }
+
+  const parts = getPolygonParts(feature);
+  const open = parts.flat().filter(ring => !isClosed(ring));
+  if (open.length > 0) {
+    issue('unclosed-ring', `${plural(open.length, 'ring', 'rings')} not closed`, turf.point(open[0][0]), { fixable: true });
+  }
+
+  const duplicates = parts.flat().flatMap(ring =>
+    ring.filter((p, i) => i > 0 && i < ring.length - (isClosed(ring) ? 1 : 0) && meters(p, ring[i - 1]) < DUPLICATE_TOLERANCE_METERS));
+  if (duplicates.length > 0) {
+    issue('duplicate-vertex', plural(duplicates.length, 'repeated vertex', 'repeated vertices'), turf.multiPoint(duplicates), { fixable: true });
+  }
+
+  // The remaining checks work on the cleaned-up shape, as it would be after the safe fixes
+  const cleaned = removeDuplicateVertices(closeRings(feature)) as AreaFeature;
+  const tooShort = getPolygonParts(cleaned).flat().some(ring => ring.length < 4);
+  if (tooShort) {
+    issue('invalid', 'A ring has fewer than three distinct corners', feature);
+    return null;
+  }
+
+  const kinks = turf.kinks(cleaned).features;
+  if (kinks.length > 0) {
+    issue('self-intersection', `Boundary crosses itself at ${plural(kinks.length, 'point', 'points')}`,
+      turf.multiPoint(kinks.map(k => k.geometry.coordinates)));
+    return cleaned; // Its area (and so any sliver test) is meaningless
+  }
+
+  getPolygonParts(cleaned).forEach((rings, index) => {
+    const part = turf.polygon(rings);
+    const area = turf.area(part);
+    const perimeter = turf.length(turf.lineString(rings[0]), { units: 'meters' });
+    const thinness = perimeter > 0 ? (4 * Math.PI * area) / (perimeter * perimeter) : 0;
+    if (area < SLIVER_MAX_SQ_METERS && thinness < SLIVER_MAX_THINNESS) {
+      issue('sliver', `Thin piece (thinness ${thinness.toFixed(3)})`, part, { areaSqMeters: area }, `sliver-${index}`);
+    }
+  });
+
+  return cleaned;
+}
+
+function checkNeighbours(a: ValidationPolygon & { feature: AreaFeature }, b: ValidationPolygon & { feature: AreaFeature }, issues: TopologyIssue[]) {
+  try {
+    const overlap = turf.intersect(turf.featureCollection([a.feature, b.feature]));
+    const area = overlap ? turf.area(overlap) : 0;
+    if (overlap && area >= OVERLAP_MIN_SQ_METERS) {
+      issues.push({
+        id: `overlap-${a.id}-${b.id}`, kind: 'overlap', polyIds: [a.id, b.id], detail: 'Overlaps a neighbour',
+        location: overlap, areaSqMeters: area, fixable: false,
+      });
+    }
+  } catch (error) {
+    console.warn('Overlap check failed:', error); // Self-intersecting input, already reported
+  }
+
+  // Vertices that stop just short of (or just past) the neighbour's boundary. Only one side of a pair is
+  // snapped, so fixing both can't make them cross.
+  [[a, b], [b, a]].some(([from, to]) => {
+    const boundary = turf.polygonToLine(to.feature);
+    const lines = boundary.type === 'FeatureCollection' ? boundary.features : [boundary];
+    const snaps: VertexSnap[] = [];
+    getPolygonParts(from.feature).flat(2).forEach(p => {
+      if (snaps.some(s => samePosition(s.from, p))) return;
+      let best: { distance: number; point: Position } | null = null;
+      for (const line of lines) {
+        const nearest = turf.nearestPointOnLine(line, p, { units: 'meters' });
+        const distance = nearest.properties.dist ?? Infinity;
+        if (!best || distance < best.distance) best = { distance, point: nearest.geometry.coordinates };
+      }
+      if (best && best.distance > DUPLICATE_TOLERANCE_METERS && best.distance < GAP_TOLERANCE_METERS) {
+        snaps.push({ from: p, to: best.point });
+      }
+    });
+    if (snaps.length > 0) {
+      issues.push({
+        id: `gap-${from.id}-${to.id}`, kind: 'gap', polyIds: [from.id, to.id],
+        detail: `${plural(snaps.length, 'vertex', 'vertices')} off a neighbour's boundary by less than ${GAP_TOLERANCE_METERS} m`,
+        location: turf.multiPoint(snaps.map(s => s.from)), fixable: true, snaps,
+      });
+    }
+    return snaps.length > 0;
+  });
+}
+
+/**
+ * Checks every khasra of a layer for broken rings, repeated vertices, self-intersections and slivers,
+ * then every pair of neighbours (by bounding box) for overlaps and small gaps. `onProgress` is called as
+ * the pair checks go through each khasra.
+ */
+export function validatePolygons(
+  polygons: ValidationPolygon[], onProgress?: (done: number, total: number) => void
+): TopologyIssue[] {
+  const issues: TopologyIssue[] = [];
+  const valid: (ValidationPolygon & { feature: AreaFeature; bbox: number[] })[] = [];
+  polygons.forEach(poly => {
+    const cleaned = checkFeature(poly, issues);
+    if (cleaned) valid.push({ id: poly.id, feature: cleaned, bbox: turf.bbox(cleaned) });
+  });
+
+  // Bounding boxes grown by about the gap tolerance, so khasras that stop just short still pair up
+  const pad = GAP_TOLERANCE_METERS / 100000;
+  valid.forEach((a, i) => {
+    for (let j = i + 1; j < valid.length; j++) {
+      const b = valid[j];
+      if (a.bbox[0] - pad > b.bbox[2] || b.bbox[0] - pad > a.bbox[2] || a.bbox[1] - pad > b.bbox[3] || b.bbox[1] - pad > a.bbox[3]) continue;
+      checkNeighbours(a, b, issues);
+    }
+    onProgress?.(i + 1, valid.length);
+  });
+
+  return issues;
+}
@@ -0,0 +1,198 @@
+export const METERS_PER_FOOT = 0.3048; // International standard
+
+export interface LengthUnit {
+  name: string;
+  abbr: string;
+  feet: number; // Size of one unit in feet (1 = lengths are shown in plain feet)
+}
+
+export interface AreaUnit {
+  name: string;
+  abbr: string;
+  sqFt: number;
+}
+
+/**
+ * A regional land-measurement system. Area units are listed largest first; labels are built by
+ * breaking an area down through them (e.g. Kanal → Marla), the last unit keeping the fraction.
+ */
+export interface UnitSystem {
+  id: string;
+  name: string;
+  length: LengthUnit;
+  areaUnits: AreaUnit[];
+  secondaryArea: AreaUnit; // Plain figure shown next to the main label in the khasra list
+}
+
+const KARAM: LengthUnit = { name: 'Karam', abbr: 'k', feet: 5.5 };
+const SQ_FT: AreaUnit = { name: 'Sq Ft', abbr: 'sq ft', sqFt: 1 };
+
+// 1 Marla = 9 Sq Karams, 1 Kanal = 20 Marlas, 1 Killa (acre) = 8 Kanals, 1 Murabba = 25 Killas
+const MARLA: AreaUnit = { name: 'Marla', abbr: 'M', sqFt: 9 * KARAM.feet * KARAM.feet }; // 272.25 sq ft
+const KANAL: AreaUnit = { name: 'Kanal', abbr: 'K', sqFt: 20 * MARLA.sqFt };
+const ACRE_SQ_FT = 43560;
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = {
+  id: 'punjab-standard',
+  name: 'Punjab (5.5 ft karam, 272.25 sq ft marla)',
+  length: KARAM,
+  areaUnits: [KANAL, MARLA],
+  secondaryArea: SQ_FT,
+};
+
+export const UNIT_SYSTEM_PRESETS: UnitSystem[] = [
+  DEFAULT_UNIT_SYSTEM,
+  {
+    id: 'punjab-225',
+    name: 'Punjab urban (5 ft karam, 225 sq ft marla)',
+    length: { name: 'Karam', abbr: 'k', feet: 5 },
+    areaUnits: [
+      { name: 'Kanal', abbr: 'K', sqFt: 4500 },
+      { name: 'Marla', abbr: 'M', sqFt: 225 },
+    ],
+    secondaryArea: SQ_FT,
+  },
+  {
+    id: 'punjab-murabba',
+    name: 'Punjab rural (Murabba - Killa - Kanal - Marla)',
+    length: KARAM,
+    areaUnits: [
+      { name: 'Murabba', abbr: 'Mur', sqFt: 25 * ACRE_SQ_FT },
+      { name: 'Killa', abbr: 'Kl', sqFt: ACRE_SQ_FT },
+      KANAL,
+      MARLA,
+    ],
+    secondaryArea: SQ_FT,
+  },
+  {
+    id: 'kp-acre',
+    name: 'Khyber Pakhtunkhwa (Acre - Kanal - Marla)',
+    length: KARAM,
+    areaUnits: [{ name: 'Acre', abbr: 'A', sqFt: ACRE_SQ_FT }, KANAL, MARLA],
+    secondaryArea: SQ_FT,
+  },
+  {
+    id: 'sindh-acre',
+    name: 'Sindh (Acre - Ghunta)',
+    length: { name: 'Foot', abbr: 'ft', feet: 1 },
+    areaUnits: [
+      { name: 'Acre', abbr: 'A', sqFt: ACRE_SQ_FT },
+      { name: 'Ghunta', abbr: 'G', sqFt: ACRE_SQ_FT / 40 },
+    ],
+    secondaryArea: SQ_FT,
+  },
+  {
+    // Pucca bigha of Indian Punjab: 4.8 bigha to the killa
+    id: 'indian-punjab-bigha',
+    name: 'Indian Punjab (Bigha - Biswa - Biswansi)',
+    length: KARAM,
+    areaUnits: [
+      { name: 'Bigha', abbr: 'B', sqFt: ACRE_SQ_FT / 4.8 },
+      { name: 'Biswa', abbr: 'Bw', sqFt: ACRE_SQ_FT / 4.8 / 20 },
+      { name: 'Biswansi', abbr: 'Bs', sqFt: ACRE_SQ_FT / 4.8 / 400 },
+    ],
+    secondaryArea: { name: 'Sq Yd (Gaj)', abbr: 'sq yd', sqFt: 9 },
+  },
+];
+
+/**
+ * Formats a distance in meters in the system's length unit, e.g. "Xk - Yft" (Karam and Feet).
+ */
+export function formatLength(meters: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string {
+  const { abbr, feet } = system.length;
+  const totalFeet = meters / METERS_PER_FOOT;
+  if (feet === 1) {
+    return `${(Math.round(totalFeet * 10) / 10).toFixed(1)}ft`;
+  }
+
+  const units = Math.floor(totalFeet / feet + 0.001); // Float epsilon
+  const roundedFeet = Math.round((totalFeet - units * feet) * 10) / 10;
+
+  if (units > 0) {
+    if (roundedFeet >= 0.1) {
+      return `${units}${abbr} - ${roundedFeet.toFixed(1)}ft`;
+    }
+    return `${units}${abbr}`;
+  }
+  return `${roundedFeet.toFixed(1)}ft`;
+}
+
+/**
+ * Splits a distance into whole length units and leftover feet, the way it is written in a field book.
+ * Systems measured in plain feet leave the unit part empty.
+ */
+export function splitLength(meters: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): [string, string] {
+  const { feet } = system.length;
+  const totalFeet = meters / METERS_PER_FOOT;
+  if (feet === 1) return ['', String(Math.round(totalFeet * 100) / 100)];
+  const units = Math.floor(totalFeet / feet + 1e-6);
+  return [String(units), String(Math.round((totalFeet - units * feet) * 100) / 100)];
+}
+
+/**
+ * Inverse of splitLength: whole units and feet (as typed) back to meters. Blank parts count as zero.
+ */
+export function joinLength([units, feet]: [string, string], system: UnitSystem = DEFAULT_UNIT_SYSTEM): number {
+  return ((Number(units) || 0) * system.length.feet + (Number(feet) || 0)) * METERS_PER_FOOT;
+}
+
+export interface AreaComponent {
+  unit: AreaUnit;
+  value: number; // Whole units, except the last (smallest) unit which keeps the fraction
+}
+
+/**
+ * Breaks an area in sq ft down through the system's units, largest first.
+ */
+export function breakdownArea(sqFt: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): AreaComponent[] {
+  let remaining = sqFt;
+  return system.areaUnits.map((unit, i) => {
+    if (i === system.areaUnits.length - 1) {
+      return { unit, value: remaining / unit.sqFt };
+    }
+    const value = Math.floor(remaining / unit.sqFt + 0.0001);
+    remaining -= value * unit.sqFt;
+    return { unit, value };
+  });
+}
+
+/**
+ * Formats an area, e.g. "2 K - 5.50 M". A single remaining unit is spelled out ("2 Kanal", "5.50 Marla").
+ */
+export function formatArea(sqFt: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string {
+  const components = breakdownArea(sqFt, system);
+  const last = components[components.length - 1];
+  const roundedLast = Math.round(last.value * 100) / 100;
+
+  const shown: { unit: AreaUnit; text: string }[] = components
+    .slice(0, -1)
+    .filter(c => c.value > 0)
+    .map(c => ({ unit: c.unit, text: `${c.value}` }));
+  if (roundedLast >= 0.01 || shown.length === 0) {
+    shown.push({ unit: last.unit, text: roundedLast.toFixed(2) });
+  }
+
+  if (shown.length === 1) {
+    return `${shown[0].text} ${shown[0].unit.name}`;
+  }
+  return shown.map(c => `${c.text} ${c.unit.abbr}`).join(' - ');
+}
+
+/**
+ * Formats the plain secondary figure, e.g. "12,345 Sq Ft".
+ */
+export function formatSecondaryArea(sqFt: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string {
+  const value = sqFt / system.secondaryArea.sqFt;
+  return `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${system.secondaryArea.name}`;
+}
+
+/**
+ * The system's own kanal and marla, which the Kanal/Marla totals are counted in. Null for systems that
+ * have no kanal or no marla (Acre-Ghunta, Bigha-Biswa...), which get no such totals.
+ */
+export function kanalMarlaUnits(system: UnitSystem = DEFAULT_UNIT_SYSTEM): { kanal: AreaUnit; marla: AreaUnit } | null {
+  const find = (name: string) => system.areaUnits.find(u => u.name.toLowerCase() === name);
+  const kanal = find('kanal');
+  const marla = find('marla');
+  return kanal && marla ? { kanal, marla } : null;
+}
@@ -0,0 +1,72 @@
+import type { Feature, MultiPolygon, Polygon, Position } from 'geojson';
+import { getPolygonParts } from './geo-utils';
+
+/**
+ * Addresses one vertex of a (multi)polygon. `index` counts the ring's vertices without the closing repeat.
+ */
+export interface VertexRef {
+  part: number;
+  ring: number;
+  index: number;
+}
+
+export interface EditableVertex extends VertexRef {
+  position: Position;
+}
+
+// A ring needs three distinct corners to enclose an area
+const MIN_RING_VERTICES = 3;
+
+const openRing = (ring: Position[]) => ring.slice(0, -1);
+
+const closeRing = (vertices: Position[]) => [...vertices, vertices[0]];
+
+/**
+ * Copies the feature with one ring's (open) vertex list replaced, keeping Polygon vs MultiPolygon.
+ */
+function withRing(feature: Feature, ref: VertexRef, update: (vertices: Position[]) => Position[]): Feature {
+  const parts = getPolygonParts(feature).map((rings, part) => rings.map((ring, r) =>
+    part === ref.part && r === ref.ring ? closeRing(update(openRing(ring))) : ring));
+  const geometry: Polygon | MultiPolygon = feature.geometry?.type === 'MultiPolygon'
+    ? { type: 'MultiPolygon', coordinates: parts }
+    : { type: 'Polygon', coordinates: parts[0] };
+  return { ...feature, geometry };
+}
+
+/**
+ * Every corner of every ring, outer boundaries and holes alike.
+ */
+export function listVertices(feature: Feature): EditableVertex[] {
+  return getPolygonParts(feature).flatMap((rings, part) =>
+    rings.flatMap((ring, r) => openRing(ring).map((position, index) => ({ part, ring: r, index, position }))));
+}
+
+/**
+ * Midpoint of each edge; inserting at a midpoint puts the new vertex after `index`.
+ */
+export function edgeMidpoints(feature: Feature): EditableVertex[] {
+  return getPolygonParts(feature).flatMap((rings, part) =>
+    rings.flatMap((ring, r) => openRing(ring).map((start, index) => {
+      const end = ring[index + 1];
+      return { part, ring: r, index, position: [(start[0] + end[0]) / 2, (start[1] + end[1]) / 2] };
+    })));
+}
+
+export function moveVertex(feature: Feature, ref: VertexRef, position: Position): Feature {
+  return withRing(feature, ref, vertices => vertices.map((v, i) => (i === ref.index ? position : v)));
+}
+
+export function insertVertex(feature: Feature, after: VertexRef, position: Position): Feature {
+  return withRing(feature, after, vertices => [
+    ...vertices.slice(0, after.index + 1), position, ...vertices.slice(after.index + 1),
+  ]);
+}
+
+/**
+ * Removes a vertex, or returns null when its ring would be left with fewer than three corners.
+ */
+export function deleteVertex(feature: Feature, ref: VertexRef): Feature | null {
+  const ring = getPolygonParts(feature)[ref.part]?.[ref.ring];
+  if (!ring || openRing(ring).length <= MIN_RING_VERTICES) return null;
+  return withRing(feature, ref, vertices => vertices.filter((_, i) => i !== ref.index));
+}
@@ -0,0 +1,121 @@
+import type { Feature, Position } from 'geojson';
+import { CRS, getPolygonParts, projectionForFeature } from './geo-utils';
+import { converterFor } from './projection';
+
+export type VertexNaming = 'letters' | 'numbers';
+
+export const VERTEX_NAMINGS: { id: VertexNaming; name: string }[] = [
+  { id: 'letters', name: 'A, B, C…' },
+  { id: 'numbers', name: '1, 2, 3…' },
+];
+
+/**
+ * A named corner of a khasra. Names run on through every ring (holes included) so each is unique.
+ */
+export interface Corner {
+  name: string;
+  position: [number, number]; // [lng, lat]
+  part: number;
+  ring: number; // 0 = outer boundary, 1+ = holes
+}
+
+/**
+ * A corner with its coordinates in the measuring CRS and the angle of the khasra's land at it.
+ */
+export interface Vertex extends Corner {
+  easting: number;
+  northing: number;
+  interiorAngle: number; // Degrees, measured on the land side (so a hole's corners read from outside the hole)
+}
+
+export interface VertexTable {
+  crsName: string;
+  vertices: Vertex[];
+}
+
+/**
+ * A, B, … Z, AA, AB, … or 1, 2, 3, …
+ */
+export function vertexName(index: number, naming: VertexNaming): string {
+  if (naming === 'numbers') return `${index + 1}`;
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Names every corner of a (Multi)Polygon in ring order, the closing repeat of each ring left out.
+ */
+export function namedCorners(feature: Feature, naming: VertexNaming): Corner[] {
+  const corners: Corner[] = [];
+  getPolygonParts(feature).forEach((rings, part) => {
+    rings.forEach((coords, ring) => {
+      coords.slice(0, -1).forEach(c => {
+        corners.push({ name: vertexName(corners.length, naming), position: [c[0], c[1]], part, ring });
+      });
+    });
+  });
+  return corners;
+}
+
+const signedArea = (ring: Position[]) =>
+  ring.reduce((sum, p, i) => {
+    const q = ring[(i + 1) % ring.length];
+    return sum + p[0] * q[1] - q[0] * p[1];
+  }, 0) / 2;
+
+/**
+ * Corner coordinates of a khasra in WGS84 and in the CRS it is measured in, with the interior angle at each.
+ */
+export function calculateVertices(feature: Feature, crs: CRS | string, naming: VertexNaming): VertexTable {
+  const projection = projectionForFeature(feature, crs);
+  const converter = converterFor('EPSG:4326', projection.proj4);
+  const corners = namedCorners(feature, naming);
+  const vertices: Vertex[] = [];
+
+  let start = 0;
+  while (start < corners.length) {
+    const { part, ring } = corners[start];
+    let end = start;
+    while (end < corners.length && corners[end].part === part && corners[end].ring === ring) end++;
+
+    const planar = corners.slice(start, end).map(c => converter.forward([c.position[0], c.position[1]]));
+    // The land lies left of the walking direction on a counter-clockwise outer ring or a clockwise hole
+    const landOnLeft = (signedArea(planar) > 0) === (ring === 0);
+    planar.forEach(([x, y], i) => {
+      const [px, py] = planar[(i - 1 + planar.length) % planar.length];
+      const [nx, ny] = planar[(i + 1) % planar.length];
+      const turn = (Math.atan2(py - y, px - x) - Math.atan2(ny - y, nx - x)) * 180 / Math.PI;
+      const angle = ((turn % 360) + 360) % 360;
+      vertices.push({
+        ...corners[start + i],
+        easting: x,
+        northing: y,
+        interiorAngle: landOnLeft ? angle : 360 - angle,
+      });
+    });
+    start = end;
+  }
+
+  return { crsName: projection.name, vertices };
+}
+
+/**
+ * Tab-separated corner table, which pastes into a spreadsheet or a document table as columns.
+ */
+export function vertexTableText({ crsName, vertices }: VertexTable): string {
+  const lines = [
+    ['Corner', 'Latitude', 'Longitude', `Easting (${crsName})`, 'Northing', 'Angle'].join('\t'),
+    ...vertices.map(v => [
+      v.name,
+      v.position[1].toFixed(7),
+      v.position[0].toFixed(7),
+      v.easting.toFixed(3),
+      v.northing.toFixed(3),
+      `${v.interiorAngle.toFixed(2)}°`,
+    ].join('\t')),
+  ];
+  return lines.join('\n');
+}